@@ -65,11 +65,74 @@ self.addEventListener('activate', (event) => {
   );
 });
 
+// Streaming downloads: the page posts file bytes over a MessageChannel and
+// the worker serves them as an attachment, so large received files never
+// have to be assembled in memory (see client/src/lib/save-stream.ts)
+const DOWNLOAD_PATH = '/__pairqr-download/';
+const pendingDownloads = new Map();
+
+self.addEventListener('message', (event) => {
+  const data = event.data;
+  if (!data || data.type !== 'pairqr-download' || !event.ports[0]) {
+    return;
+  }
+
+  const port = event.ports[0];
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = ({ data: message }) => {
+        if (message.type === 'chunk') {
+          controller.enqueue(message.chunk);
+        } else if (message.type === 'end') {
+          controller.close();
+          port.close();
+        } else if (message.type === 'abort') {
+          controller.error(new Error(message.reason));
+          port.close();
+        }
+      };
+    },
+    pull() {
+      port.postMessage({ type: 'pull' });
+    },
+    cancel() {
+      port.postMessage({ type: 'cancel' });
+      port.close();
+    }
+  });
+
+  pendingDownloads.set(data.id, { stream, fileName: data.fileName, mimeType: data.mimeType, size: data.size });
+  port.postMessage({ type: 'ready' });
+});
+
+function downloadResponse(id) {
+  const download = pendingDownloads.get(id);
+  if (!download) {
+    return new Response('Download not found', { status: 404 });
+  }
+  pendingDownloads.delete(id);
+
+  const headers = {
+    'Content-Type': download.mimeType || 'application/octet-stream',
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.fileName)}`,
+    'X-Content-Type-Options': 'nosniff'
+  };
+  if (typeof download.size === 'number') {
+    headers['Content-Length'] = String(download.size);
+  }
+  return new Response(download.stream, { headers });
+}
+
 // Fetch event - implement caching strategies
 self.addEventListener('fetch', (event) => {
   const { request } = event;
   const url = new URL(request.url);
 
+  if (url.pathname.startsWith(DOWNLOAD_PATH) && url.origin === location.origin) {
+    event.respondWith(downloadResponse(url.pathname.slice(DOWNLOAD_PATH.length)));
+    return;
+  }
+
   // Skip non-GET requests
   if (request.method !== 'GET') {
     return;
@@ -2,6 +2,9 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   BarChart3, 
@@ -17,9 +20,11 @@ import {
   TrendingUp,
   Shield,
   Server,
-  Zap
+  Zap,
+  Network
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import type { IceServerEntry } from '@shared/ice';
 
 interface AdminDashboardProps {
   token: string | null;
@@ -42,6 +47,8 @@ interface DashboardData {
     maintenanceMode: boolean;
     allowedFileTypes: string[];
     maxFileSize: number;
+    extraIceServers: IceServerEntry[];
+    relayOnly: boolean;
   };
   systemInfo: {
     uptime: number;
@@ -57,10 +64,27 @@ interface DashboardData {
   };
 }
 
+// One `url [username credential]` per line
+function formatIceServers(servers: IceServerEntry[]): string {
+  return servers
+    .flatMap(server => server.urls.map(url => [url, server.username, server.credential].filter(Boolean).join(' ')))
+    .join('\n');
+}
+
+function parseIceServers(text: string): IceServerEntry[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean).map((line) => {
+    const [url, username, credential] = line.split(/\s+/);
+    return username && credential ? { urls: [url], username, credential } : { urls: [url] };
+  });
+}
+
 export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  // Unsaved connectivity edits, kept across the periodic refresh
+  const [connectivityDraft, setConnectivityDraft] = useState<{ servers: string; relayOnly: boolean } | null>(null);
+  const [savingConnectivity, setSavingConnectivity] = useState(false);
   const { toast } = useToast();
 
   const fetchDashboardData = async () => {
@@ -148,6 +172,46 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
     }
   };
 
+  const handleSaveConnectivity = async () => {
+    if (!connectivityDraft) return;
+    setSavingConnectivity(true);
+    try {
+      const baseUrl = import.meta.env.VITE_SIGNALING_URL || 'http://localhost:3000';
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (token) headers['Authorization'] = `Bearer ${token}`;
+      const response = await fetch(`${baseUrl}/api/admin/settings`, {
+        method: 'PUT',
+        headers,
+        credentials: 'include',
+        body: JSON.stringify({
+          extraIceServers: parseIceServers(connectivityDraft.servers),
+          relayOnly: connectivityDraft.relayOnly
+        })
+      });
+
+      if (response.ok) {
+        const { settings } = await response.json();
+        setData(current => current && { ...current, settings });
+        setConnectivityDraft(null);
+        toast({
+          title: "Connectivity Saved",
+          description: "New connections will use these ICE servers",
+        });
+      } else {
+        throw new Error('Save failed');
+      }
+    } catch (error) {
+      console.error('Connectivity save error:', error);
+      toast({
+        title: "Save Failed",
+        description: "Check that every line is a stun:, stuns:, turn: or turns: URL, and that TURN servers have a username and credential",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingConnectivity(false);
+    }
+  };
+
   const formatUptime = (seconds: number) => {
     const days = Math.floor(seconds / 86400);
     const hours = Math.floor((seconds % 86400) / 3600);
@@ -384,6 +448,64 @@ export function AdminDashboard({ token, onLogout }: AdminDashboardProps) {
           </Card>
         </div>
 
+        {/* Connectivity */}
+        <Card className="mb-8">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Network className="w-5 h-5 text-teal-600" />
+              Connectivity
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="flex justify-between items-center gap-4">
+                <div>
+                  <Label htmlFor="relay-only">Relay only</Label>
+                  <p className="text-sm text-gray-600">
+                    Route every connection through TURN so devices never see each other's IP address. Needs a TURN server.
+                  </p>
+                </div>
+                <Switch
+                  id="relay-only"
+                  checked={connectivityDraft?.relayOnly ?? data.settings.relayOnly}
+                  onCheckedChange={(relayOnly) => setConnectivityDraft(draft => ({
+                    servers: draft?.servers ?? formatIceServers(data.settings.extraIceServers),
+                    relayOnly
+                  }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="extra-ice-servers">Extra STUN/TURN servers</Label>
+                <Textarea
+                  id="extra-ice-servers"
+                  rows={4}
+                  className="font-mono text-sm"
+                  placeholder={'stun:stun.example.com:3478\nturn:turn.example.com:3478 username credential'}
+                  value={connectivityDraft?.servers ?? formatIceServers(data.settings.extraIceServers)}
+                  onChange={(event) => {
+                    const servers = event.target.value;
+                    setConnectivityDraft(draft => ({
+                      servers,
+                      relayOnly: draft?.relayOnly ?? data.settings.relayOnly
+                    }));
+                  }}
+                />
+                <p className="text-sm text-gray-600">
+                  One per line, with a username and credential for TURN. Offered after the servers configured on the server.
+                </p>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" disabled={!connectivityDraft || savingConnectivity} onClick={() => setConnectivityDraft(null)}>
+                  Discard
+                </Button>
+                <Button disabled={!connectivityDraft || savingConnectivity} onClick={handleSaveConnectivity}>
+                  {savingConnectivity ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Last Update */}
         <div className="text-center text-sm text-gray-500">
           Last updated: {new Date(data.systemInfo.timestamp).toLocaleString()}
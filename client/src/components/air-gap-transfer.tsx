@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Camera, Download, Loader2, QrCode, Unplug } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { FountainQrCode } from './fountain-qr-code';
+import { useQrFrameScanner } from '../hooks/use-qr-frame-scanner';
+import { MAX_AIR_GAP_FILE_SIZE, MIN_AIR_GAP_PASSWORD_LENGTH, openSealedFile, sealFile } from '../lib/air-gap';
+import { downloadBlob } from '../lib/chat-export';
+import { formatFileSize } from '../lib/file-transfer';
+import { FountainEncoder, FountainFrameCollector } from '../lib/fountain';
+
+interface AirGapTransferProps {
+  onClose: () => void;
+}
+
+type Step = 'choose' | 'send-setup' | 'sending' | 'receive-scan' | 'receive-unlock';
+
+/**
+ * Move a small file off a device with no network at all: it shows an
+ * endless, fountain-coded stream of QR codes and a phone films it until
+ * it has enough frames, however many it missed along the way.
+ */
+export function AirGapTransfer({ onClose }: AirGapTransferProps) {
+  const [step, setStep] = useState<Step>('choose');
+  const [file, setFile] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
+  const [encoder, setEncoder] = useState<FountainEncoder | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const scanner = useQrFrameScanner(() => new FountainFrameCollector());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (step === 'receive-scan') {
+      scanner.startScanning();
+    }
+  }, [step]);
+
+  useEffect(() => {
+    if (scanner.data) {
+      setStep('receive-unlock');
+    }
+  }, [scanner.data]);
+
+  const handleStartSending = async () => {
+    if (!file) return;
+
+    setIsWorking(true);
+    try {
+      setEncoder(new FountainEncoder(await sealFile(file, password)));
+      setPassword('');
+      setStep('sending');
+    } catch (error) {
+      toast({
+        title: "Could Not Send File",
+        description: error instanceof Error ? error.message : "The file could not be encrypted",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!scanner.data) return;
+
+    setIsWorking(true);
+    try {
+      const received = await openSealedFile(scanner.data, password);
+      downloadBlob(received, received.name);
+      setPassword('');
+      toast({
+        title: "File Received",
+        description: `${received.name} (${formatFileSize(received.size)}) saved`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Open File",
+        description: error instanceof Error ? error.message : "The file could not be decrypted",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleBack = () => {
+    scanner.stopScanning();
+    if (step === 'choose') {
+      onClose();
+      return;
+    }
+    setEncoder(null);
+    setPassword('');
+    setStep('choose');
+  };
+
+  const { received, total } = scanner.progress;
+  const percent = total > 0 ? Math.floor((received / total) * 100) : 0;
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-primary text-white p-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+              <Unplug className="text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold">Air-Gapped Transfer</h2>
+              <p className="text-blue-100 text-sm">
+                Stream an encrypted file from one screen to another device's camera
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {step === 'choose' && (
+            <div className="grid gap-3 sm:grid-cols-2">
+              <Button onClick={() => setStep('send-setup')} className="h-auto py-4 flex-col">
+                <QrCode className="w-6 h-6 mb-2" />
+                Send a file
+                <span className="text-xs font-normal opacity-80">Up to {formatFileSize(MAX_AIR_GAP_FILE_SIZE)}</span>
+              </Button>
+              <Button variant="outline" onClick={() => setStep('receive-scan')} className="h-auto py-4 flex-col">
+                <Camera className="w-6 h-6 mb-2" />
+                Receive a file
+                <span className="text-xs font-normal opacity-80">Film the other screen</span>
+              </Button>
+            </div>
+          )}
+
+          {step === 'send-setup' && (
+            <div className="space-y-3">
+              <Input type="file" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+              <Input
+                type="password"
+                placeholder={`Password (at least ${MIN_AIR_GAP_PASSWORD_LENGTH} characters)`}
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleStartSending()}
+              />
+              <p className="text-xs text-gray-500">
+                The receiver types this password to decrypt the file. Tell it to them in person.
+              </p>
+              <Button
+                onClick={handleStartSending}
+                disabled={!file || password.length < MIN_AIR_GAP_PASSWORD_LENGTH || isWorking}
+                className="w-full"
+              >
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Start streaming
+              </Button>
+            </div>
+          )}
+
+          {step === 'sending' && encoder && (
+            <div className="text-center space-y-4">
+              <p className="text-sm text-gray-600">
+                Point the receiving device's camera at this code. Missed frames don't matter;
+                keep it running until the other device says it has the file.
+              </p>
+              <FountainQrCode encoder={encoder} className="max-w-xs mx-auto" />
+            </div>
+          )}
+
+          {step === 'receive-scan' && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600 text-center">
+                Point the camera at the streaming code and hold it steady.
+              </p>
+              <div className="relative bg-black rounded-lg overflow-hidden aspect-video">
+                <video ref={scanner.videoRef} className="w-full h-full object-cover" playsInline muted />
+                {scanner.isLoading && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+                    <Loader2 className="w-8 h-8 text-white animate-spin" />
+                  </div>
+                )}
+              </div>
+              <Progress value={percent} className="h-2" />
+              <p className="text-xs text-gray-500 text-center">
+                {total > 0 ? `Recovered ${percent}% of the file` : 'Looking for a code...'}
+              </p>
+              {scanner.error && (
+                <p className="text-sm text-red-600 text-center">{scanner.error}</p>
+              )}
+            </div>
+          )}
+
+          {step === 'receive-unlock' && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600 text-center">
+                Got the whole file. You can stop the stream on the other device.
+              </p>
+              <Input
+                type="password"
+                placeholder="Password"
+                autoComplete="off"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              />
+              <Button onClick={handleSave} disabled={!password || isWorking} className="w-full">
+                {isWorking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+                Decrypt and save
+              </Button>
+            </div>
+          )}
+
+          <Button variant="ghost" onClick={handleBack} className="w-full">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { generateQRCode } from '../lib/qr-utils';
+
+interface AnimatedQrCodeProps {
+  // From encodeQrFrames; shown in a loop
+  frames: string[];
+  // How long each frame stays up
+  frameIntervalMs?: number;
+  className?: string;
+}
+
+export function AnimatedQrCode({ frames, frameIntervalMs = 250, className }: AnimatedQrCodeProps) {
+  const [images, setImages] = useState<string[]>([]);
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImages([]);
+    setIndex(0);
+    Promise.all(frames.map(frame => generateQRCode(frame)))
+      .then(urls => {
+        if (!cancelled) setImages(urls);
+      })
+      .catch(error => console.error('Failed to draw QR frames:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [frames]);
+
+  useEffect(() => {
+    if (images.length < 2) return;
+    const interval = setInterval(() => {
+      setIndex(i => (i + 1) % images.length);
+    }, frameIntervalMs);
+    return () => clearInterval(interval);
+  }, [images, frameIntervalMs]);
+
+  if (images.length === 0) {
+    return (
+      <div className={`flex items-center justify-center aspect-square ${className ?? ''}`}>
+        <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <img
+        src={images[index]}
+        alt={`QR code, part ${index + 1} of ${images.length}`}
+        className="w-full aspect-square [image-rendering:pixelated]"
+      />
+      {images.length > 1 && (
+        <div className="mt-2 flex justify-center gap-1" aria-hidden="true">
+          {images.map((_, i) => (
+            <span key={i} className={`h-1 w-3 rounded-full ${i === index ? 'bg-blue-600' : 'bg-gray-200'}`} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,12 +3,15 @@ import { Settings, Zap, Shield, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { SettingsModal } from './settings-modal';
+import type { ConnectionState, TrustedDevice } from '../types';
 
 interface AppHeaderProps {
-  connectionStatus: 'disconnected' | 'connecting' | 'connected' | 'error';
+  connectionStatus: ConnectionState['status'];
+  trustedDevices?: TrustedDevice[];
+  onRemoveTrustedDevice?: (device: TrustedDevice) => void;
 }
 
-export function AppHeader({ connectionStatus }: AppHeaderProps) {
+export function AppHeader({ connectionStatus, trustedDevices, onRemoveTrustedDevice }: AppHeaderProps) {
   const [showSettings, setShowSettings] = useState(false);
 
   const getStatusText = () => {
@@ -17,6 +20,8 @@ export function AppHeader({ connectionStatus }: AppHeaderProps) {
         return 'Connected (P2P)';
       case 'connecting':
         return 'Connecting...';
+      case 'reconnecting':
+        return 'Reconnecting...';
       case 'error':
         return 'Connection Error';
       default:
@@ -29,6 +34,7 @@ export function AppHeader({ connectionStatus }: AppHeaderProps) {
       case 'connected':
         return 'bg-green-400';
       case 'connecting':
+      case 'reconnecting':
         return 'bg-amber-400 animate-pulse';
       case 'error':
         return 'bg-red-400';
@@ -85,6 +91,8 @@ export function AppHeader({ connectionStatus }: AppHeaderProps) {
       <SettingsModal 
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
+        trustedDevices={trustedDevices}
+        onRemoveTrustedDevice={onRemoveTrustedDevice}
       />
     </>
   );
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Download, FileArchive, Loader2, Paperclip } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { ARCHIVE_EXTENSION, closeArchive, openArchive } from '../lib/chat-export';
+import { formatFileSize } from '../lib/file-transfer';
+import type { ArchivedChat } from '../types';
+
+interface ArchiveViewerProps {
+  onClose: () => void;
+}
+
+/**
+ * Read-only view of an exported `.pairqr` archive. Decryption happens
+ * entirely in the browser, so it works offline.
+ */
+export function ArchiveViewer({ onClose }: ArchiveViewerProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
+  const [chat, setChat] = useState<ArchivedChat | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const { toast } = useToast();
+
+  // Release the decrypted attachments when the transcript goes away
+  useEffect(() => {
+    return () => {
+      if (chat) closeArchive(chat);
+    };
+  }, [chat]);
+
+  const handleOpen = async () => {
+    if (!file) return;
+
+    setIsOpening(true);
+    try {
+      setChat(await openArchive(file, password));
+      setPassword('');
+    } catch (error) {
+      toast({
+        title: "Could Not Open Archive",
+        description: error instanceof Error ? error.message : "The archive could not be read",
+        variant: "destructive",
+      });
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const handleOpenAnother = () => {
+    setChat(null);
+    setFile(null);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-primary text-white p-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+              <FileArchive className="text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold">Open Archive</h2>
+              <p className="text-blue-100 text-sm">
+                {chat
+                  ? `Exported ${new Date(chat.exportedAt).toLocaleString()}`
+                  : `Read a ${ARCHIVE_EXTENSION} chat export on this device`}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!chat ? (
+            <div className="space-y-3">
+              <Input
+                type="file"
+                accept={ARCHIVE_EXTENSION}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <Input
+                type="password"
+                placeholder="Archive password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleOpen()}
+              />
+              <Button onClick={handleOpen} disabled={!file || !password || isOpening} className="w-full">
+                {isOpening && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Decrypt
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+              {chat.messages.length === 0 && (
+                <p className="text-sm text-muted text-center">This archive has no messages</p>
+              )}
+              {chat.messages.map(message => (
+                <div key={message.id} className={`flex ${message.isLocal ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[80%] rounded-2xl px-4 py-2 ${
+                    message.isLocal ? 'bg-primary text-white' : 'bg-gray-100 text-gray-900'
+                  }`}>
+                    {message.attachments ? (
+                      <ul className="space-y-1">
+                        {message.attachments.map((attachment, index) => (
+                          <li key={index} className="flex items-center gap-2 text-sm">
+                            <Paperclip className="w-3 h-3 shrink-0" />
+                            <span className="truncate">{attachment.path || attachment.name}</span>
+                            <span className={`text-xs ${message.isLocal ? 'text-blue-100' : 'text-muted'}`}>
+                              {formatFileSize(attachment.size)}
+                            </span>
+                            {attachment.url && (
+                              <a href={attachment.url} download={attachment.name} title="Download">
+                                <Download className="w-3 h-3" />
+                              </a>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                    )}
+                    <p className={`text-xs mt-1 ${message.isLocal ? 'text-blue-100' : 'text-muted'}`}>
+                      {new Date(message.timestamp).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+            {chat && (
+              <Button variant="outline" onClick={handleOpenAnother} className="flex-1">
+                Open another
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,33 +1,91 @@
 import { useState, useRef, useEffect } from 'react';
-import { Send, Eraser, Download, Info, LogOut, Lock, Signal } from 'lucide-react';
+import { Send, Eraser, Download, Info, LogOut, Lock, Signal, Paperclip, FileText, AlertCircle, Folder, FolderUp, ChevronDown, HardDrive, Check, X, ShieldCheck, ShieldAlert, UserPlus, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import type { Message } from '../types';
+import { Progress } from '@/components/ui/progress';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatFileSize } from '../lib/file-transfer';
+import { folderFromFileList, readDroppedItems, type PickedFolder } from '../lib/file-tree';
+import { supportsStreamingToDisk } from '../lib/save-stream';
+import { SasDisplay } from './sas-display';
+import type { Message, FileTransfer, FileBatch, FileDestination, PeerInfo, ShortAuthString, VerificationStatus } from '../types';
+
+// Recipient picker value for sending to every connected peer
+const EVERYONE = 'everyone';
 
 interface ChatInterfaceProps {
   messages: Message[];
   connectionQuality: string;
-  onSendMessage: (message: string) => void;
+  isReconnecting?: boolean;
+  isPeerTyping?: boolean;
+  // False when the peer runs an older app that can't receive files
+  canSendFiles?: boolean;
+  canSendFolders?: boolean;
+  sas?: ShortAuthString | null;
+  verificationStatus?: VerificationStatus;
+  peers?: PeerInfo[];
+  verifications?: Record<string, VerificationStatus>;
+  // The peer `sas` belongs to, named in the banner when there are several
+  sasPeerId?: string | null;
+  // Host only, while more guests can still join
+  onInvite?: () => void;
+  onRemovePeer?: (peerId: string) => void;
+  // `to` is a peer ID, or undefined for everyone
+  onSendMessage: (message: string, to?: string) => void;
+  onSendFiles: (files: File[], to?: string) => void;
+  onSendFolder: (folder: PickedFolder, to?: string) => void;
+  onDownloadBatch: (batch: FileBatch) => void;
+  onAcceptFile: (transferId: string, destination: FileDestination) => void;
+  onDeclineFile: (transferId: string) => void;
+  onAcceptBatch: (batchId: string, destination: FileDestination) => void;
+  onDeclineBatch: (batchId: string) => void;
   onClearChat: () => void;
   onExportChat: () => void;
   onShowSessionInfo: () => void;
   onEndSession: () => void;
   onTyping: (isTyping: boolean) => void;
+  onConfirmVerification: () => void;
+  onRejectVerification: () => void;
 }
 
 export function ChatInterface({
   messages,
   connectionQuality,
+  isReconnecting = false,
+  isPeerTyping = false,
+  canSendFiles = true,
+  canSendFolders = true,
+  sas = null,
+  verificationStatus = 'unverified',
+  peers = [],
+  verifications = {},
+  sasPeerId = null,
+  onInvite,
+  onRemovePeer,
   onSendMessage,
+  onSendFiles,
+  onSendFolder,
+  onDownloadBatch,
+  onAcceptFile,
+  onDeclineFile,
+  onAcceptBatch,
+  onDeclineBatch,
   onClearChat,
   onExportChat,
   onShowSessionInfo,
   onEndSession,
-  onTyping
+  onTyping,
+  onConfirmVerification,
+  onRejectVerification
 }: ChatInterfaceProps) {
   const [messageText, setMessageText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [recipient, setRecipient] = useState(EVERYONE);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const typingTimeoutRef = useRef<number | null>(null);
 
   const scrollToBottom = () => {
@@ -38,6 +96,22 @@ export function ChatInterface({
     scrollToBottom();
   }, [messages]);
 
+  const isGroup = peers.length > 1;
+  const peerName = (peerId?: string) => peers.find(peer => peer.id === peerId)?.name;
+  const to = recipient === EVERYONE ? undefined : recipient;
+
+  // Fall back to everyone when the chosen recipient leaves
+  useEffect(() => {
+    if (recipient !== EVERYONE && !peers.some(peer => peer.id === recipient)) {
+      setRecipient(EVERYONE);
+    }
+  }, [peers, recipient]);
+
+  // React doesn't know the non-standard webkitdirectory attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
   const handleMessageChange = (value: string) => {
     setMessageText(value);
     
@@ -61,7 +135,7 @@ export function ChatInterface({
 
   const handleSendMessage = () => {
     if (messageText.trim()) {
-      onSendMessage(messageText.trim());
+      onSendMessage(messageText.trim(), to);
       setMessageText('');
       setIsTyping(false);
       onTyping(false);
@@ -79,6 +153,234 @@ export function ChatInterface({
     }
   };
 
+  const handleFilesSelected = (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (files.length > 0) {
+      onSendFiles(files, to);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (canSendFiles && e.dataTransfer.types.includes('Files')) {
+      e.preventDefault();
+      setIsDragging(true);
+    }
+  };
+
+  const handleFolderSelected = (fileList: FileList | null) => {
+    const folder = fileList ? folderFromFileList(fileList) : null;
+    if (folder) {
+      onSendFolder(folder, to);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    const items = e.dataTransfer.items;
+    if (!items || items.length === 0) {
+      handleFilesSelected(e.dataTransfer.files);
+      return;
+    }
+
+    readDroppedItems(items)
+      .then(({ files, folders }) => {
+        if (files.length > 0) {
+          onSendFiles(files, to);
+        }
+        folders.forEach(folder => onSendFolder(folder, to));
+      })
+      .catch(() => handleFilesSelected(e.dataTransfer.files));
+  };
+
+  const renderOfferActions = (onAccept: () => void, onDecline: () => void, onSaveToDisk?: () => void) => (
+    <div className="flex flex-wrap gap-2">
+      {onSaveToDisk && (
+        <Button size="sm" className="h-7 text-xs" onClick={onSaveToDisk}>
+          <HardDrive className="w-3 h-3 mr-1" />
+          Save to disk
+        </Button>
+      )}
+      <Button size="sm" variant={onSaveToDisk ? 'outline' : 'default'} className="h-7 text-xs" onClick={onAccept}>
+        <Check className="w-3 h-3 mr-1" />
+        Accept
+      </Button>
+      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onDecline}>
+        <X className="w-3 h-3 mr-1" />
+        Decline
+      </Button>
+    </div>
+  );
+
+  const renderFile = (file: FileTransfer, isLocal: boolean) => {
+    const percent = file.size > 0 ? Math.round((file.bytesTransferred / file.size) * 100) : 100;
+    const canStreamToDisk = supportsStreamingToDisk();
+
+    return (
+      <div className="min-w-[200px] space-y-2">
+        <div className="flex items-center space-x-2">
+          <FileText className="w-5 h-5 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{file.name}</p>
+            <p className={`text-xs ${isLocal ? 'text-blue-100' : 'text-muted'}`}>{formatFileSize(file.size)}</p>
+          </div>
+        </div>
+
+        {file.status === 'offered' && (isLocal ? (
+          <p className="text-xs text-blue-100">Waiting for the recipient to accept...</p>
+        ) : (
+          <div className="space-y-1">
+            {renderOfferActions(
+              () => onAcceptFile(file.id, 'browser'),
+              () => onDeclineFile(file.id),
+              canStreamToDisk ? () => onAcceptFile(file.id, 'disk') : undefined
+            )}
+            {canStreamToDisk && (
+              <p className="text-xs text-muted">Save to disk writes large files as they arrive</p>
+            )}
+          </div>
+        ))}
+
+        {(file.status === 'preparing' || file.status === 'transferring' || file.status === 'paused') && (
+          <div className="space-y-1">
+            <Progress value={percent} className="h-1.5" />
+            <p className={`text-xs ${isLocal ? 'text-blue-100' : 'text-muted'}`}>
+              {file.status === 'preparing' ? 'Preparing...' :
+                file.status === 'paused' ? `Paused at ${percent}% - waiting for connection` : `${percent}%`}
+            </p>
+          </div>
+        )}
+
+        {file.status === 'failed' && (
+          <p className="text-xs flex items-center text-red-500">
+            <AlertCircle className="w-3 h-3 mr-1" />
+            {file.error || 'Transfer failed'}
+          </p>
+        )}
+
+        {file.status === 'complete' && file.url && (
+          <a
+            href={file.url}
+            download={file.name}
+            className="inline-flex items-center text-xs font-medium text-primary hover:underline"
+          >
+            <Download className="w-3 h-3 mr-1" />
+            Download
+          </a>
+        )}
+
+        {file.status === 'complete' && !isLocal && file.destination === 'disk' && (
+          <p className="text-xs flex items-center text-muted">
+            <HardDrive className="w-3 h-3 mr-1" />
+            Saved to disk
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderBatch = (batch: FileBatch, isLocal: boolean) => {
+    const transferred = batch.files.reduce((sum, f) => sum + f.bytesTransferred, 0);
+    const percent = batch.totalSize > 0 ? Math.round((transferred / batch.totalSize) * 100) : 100;
+    const completed = batch.files.filter(f => f.status === 'complete').length;
+    const failed = batch.files.filter(f => f.status === 'failed').length;
+    const isDone = completed === batch.files.length;
+    const savedToDisk = batch.files.some(f => f.destination === 'disk');
+    const canStreamToDisk = supportsStreamingToDisk();
+    const mutedText = isLocal ? 'text-blue-100' : 'text-muted';
+
+    return (
+      <Collapsible className="min-w-[240px] space-y-2">
+        <div className="flex items-center space-x-2">
+          <Folder className="w-5 h-5 flex-shrink-0" />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium truncate">{batch.name}</p>
+            <p className={`text-xs ${mutedText}`}>
+              {batch.files.length} {batch.files.length === 1 ? 'file' : 'files'} · {formatFileSize(batch.totalSize)}
+            </p>
+          </div>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-6 w-6" title="Show files">
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+
+        {batch.status === 'offered' && (
+          <div className="space-y-1">
+            {renderOfferActions(
+              () => onAcceptBatch(batch.id, 'browser'),
+              () => onDeclineBatch(batch.id),
+              canStreamToDisk ? () => onAcceptBatch(batch.id, 'disk') : undefined
+            )}
+            {canStreamToDisk && (
+              <p className="text-xs text-muted">Save to disk writes a ZIP as the files arrive</p>
+            )}
+          </div>
+        )}
+
+        {batch.status === 'declined' && (
+          <p className={`text-xs ${mutedText}`}>Declined</p>
+        )}
+
+        {!isDone && batch.status !== 'offered' && batch.status !== 'declined' && (
+          <div className="space-y-1">
+            <Progress value={percent} className="h-1.5" />
+            <p className={`text-xs ${mutedText}`}>
+              {completed} of {batch.files.length} files · {percent}%
+            </p>
+          </div>
+        )}
+
+        {failed > 0 && (
+          <p className="text-xs flex items-center text-red-500">
+            <AlertCircle className="w-3 h-3 mr-1" />
+            {failed} {failed === 1 ? 'file' : 'files'} failed
+          </p>
+        )}
+
+        <CollapsibleContent className="space-y-1 max-h-48 overflow-y-auto">
+          {batch.files.map((file) => {
+            const filePercent = file.size > 0 ? Math.round((file.bytesTransferred / file.size) * 100) : 100;
+            return (
+              <div key={file.id} className="text-xs space-y-0.5">
+                <div className="flex items-center justify-between space-x-2">
+                  <span className="truncate">{file.path || file.name}</span>
+                  <span className={`flex-shrink-0 ${file.status === 'failed' ? 'text-red-500' : mutedText}`}>
+                    {file.status === 'failed' ? 'Failed' :
+                      file.status === 'complete' ? formatFileSize(file.size) : `${filePercent}%`}
+                  </span>
+                </div>
+                {(file.status === 'transferring' || file.status === 'paused') && (
+                  <Progress value={filePercent} className="h-1" />
+                )}
+              </div>
+            );
+          })}
+        </CollapsibleContent>
+
+        {!isLocal && isDone && savedToDisk && (
+          <p className="text-xs flex items-center text-muted">
+            <HardDrive className="w-3 h-3 mr-1" />
+            Saved to disk as {batch.name}.zip
+          </p>
+        )}
+
+        {!isLocal && isDone && !savedToDisk && (
+          <button
+            type="button"
+            onClick={() => onDownloadBatch(batch)}
+            className="inline-flex items-center text-xs font-medium text-primary hover:underline"
+          >
+            <Download className="w-3 h-3 mr-1" />
+            Download as ZIP
+          </button>
+        )}
+      </Collapsible>
+    );
+  };
+
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString([], { 
       hour: '2-digit', 
@@ -93,9 +395,25 @@ export function ChatInterface({
       <div className="bg-white rounded-t-2xl border-b border-gray-200 p-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
-            <div className="w-3 h-3 bg-secondary rounded-full animate-pulse"></div>
-            <span className="text-sm font-medium text-gray-900">Connected via P2P</span>
-            <span className="text-xs bg-secondary/10 text-secondary px-2 py-1 rounded-full">Encrypted</span>
+            <div className={`w-3 h-3 rounded-full animate-pulse ${isReconnecting ? 'bg-amber-400' : 'bg-secondary'}`}></div>
+            <span className="text-sm font-medium text-gray-900">
+              {isReconnecting ? 'Reconnecting...' : 'Connected via P2P'}
+            </span>
+            {verificationStatus === 'verified' ? (
+              <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded-full flex items-center">
+                <ShieldCheck className="w-3 h-3 mr-1" />
+                Verified
+              </span>
+            ) : (
+              <button
+                type="button"
+                onClick={onShowSessionInfo}
+                className="text-xs bg-amber-100 text-amber-700 px-2 py-1 rounded-full flex items-center"
+              >
+                <ShieldAlert className="w-3 h-3 mr-1" />
+                Unverified
+              </button>
+            )}
           </div>
           
           <div className="flex items-center space-x-4">
@@ -116,11 +434,63 @@ export function ChatInterface({
         </div>
       </div>
       
+      {/* Roster */}
+      {(isGroup || onInvite) && (
+        <div className="bg-white border-b border-gray-200 px-4 py-2 flex flex-wrap items-center gap-2">
+          <Users className="w-4 h-4 text-muted" />
+          {peers.map((peer) => (
+            <span
+              key={peer.id}
+              className="text-xs bg-gray-100 text-gray-700 pl-2 pr-1 py-1 rounded-full flex items-center space-x-1"
+            >
+              <span className={`w-2 h-2 rounded-full ${peer.isConfirmed ? 'bg-secondary' : 'bg-amber-400'}`}></span>
+              <span>{peer.name}</span>
+              {verifications[peer.id] === 'verified' ? (
+                <ShieldCheck className="w-3 h-3 text-green-600" />
+              ) : (
+                <ShieldAlert className="w-3 h-3 text-amber-600" />
+              )}
+              {onRemovePeer && (
+                <button
+                  type="button"
+                  onClick={() => onRemovePeer(peer.id)}
+                  className="text-gray-400 hover:text-red-500"
+                  title={`Remove ${peer.name}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+          {onInvite && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onInvite}>
+              <UserPlus className="w-3 h-3 mr-1" />
+              Invite
+            </Button>
+          )}
+        </div>
+      )}
+      
       {/* Main Chat Interface */}
       <div className="bg-white shadow-lg border border-gray-200 rounded-b-2xl overflow-hidden">
         
         {/* Messages Area */}
-        <div className="h-96 overflow-y-auto p-6 space-y-4 bg-gray-50">
+        <div
+          className={`relative h-96 overflow-y-auto p-6 space-y-4 bg-gray-50 ${isDragging ? 'ring-2 ring-primary ring-inset' : ''}`}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+        >
+          
+          {/* Drop Overlay */}
+          {isDragging && (
+            <div className="absolute inset-0 z-10 flex items-center justify-center bg-primary/10 pointer-events-none">
+              <div className="bg-white px-4 py-2 rounded-full text-sm text-primary border border-primary/30">
+                <Paperclip className="w-4 h-4 inline mr-2" />
+                Drop files or folders to send
+              </div>
+            </div>
+          )}
           
           {/* System Message */}
           <div className="text-center">
@@ -130,6 +500,26 @@ export function ChatInterface({
             </div>
           </div>
           
+          {/* Key Verification */}
+          {sas && verificationStatus === 'unverified' && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-3">
+              <p className="text-sm text-amber-800 text-center">
+                {isGroup && peerName(sasPeerId ?? undefined)
+                  ? `Check that ${peerName(sasPeerId ?? undefined)} shows the same security code`
+                  : 'Check that the other device shows the same security code'}
+              </p>
+              <SasDisplay sas={sas} compact />
+              <div className="flex justify-center gap-2">
+                <Button size="sm" variant="outline" onClick={onRejectVerification} className="text-red-600">
+                  They don't match
+                </Button>
+                <Button size="sm" onClick={onConfirmVerification}>
+                  They match
+                </Button>
+              </div>
+            </div>
+          )}
+          
           {/* Messages */}
           {messages.map((message) => (
             <div 
@@ -141,13 +531,25 @@ export function ChatInterface({
                   ? 'bg-primary text-white' 
                   : 'bg-white border border-gray-200 text-gray-900'
               }`}>
-                <p className="text-sm">{message.content}</p>
+                {isGroup && !message.isLocal && peerName(message.peerId) && (
+                  <p className="text-xs font-medium text-primary mb-1">{peerName(message.peerId)}</p>
+                )}
+                {message.batch ? (
+                  renderBatch(message.batch, message.isLocal)
+                ) : message.file ? (
+                  renderFile(message.file, message.isLocal)
+                ) : (
+                  <p className="text-sm">{message.content}</p>
+                )}
                 <div className={`text-xs mt-1 flex items-center ${
                   message.isLocal ? 'justify-end space-x-1 text-blue-100' : 'text-muted'
                 }`}>
+                  {message.isLocal && message.peerId && peerName(message.peerId) && (
+                    <span>To {peerName(message.peerId)} ·</span>
+                  )}
                   <span>{formatTime(message.timestamp)}</span>
                   {message.isLocal && (
-                    <i className="fas fa-check-double"></i>
+                    <i className={`fas ${message.delivered ? 'fa-check-double' : 'fa-check'}`}></i>
                   )}
                 </div>
               </div>
@@ -159,6 +561,22 @@ export function ChatInterface({
         
         {/* Input Area */}
         <div className="border-t border-gray-200 p-4">
+          {isGroup && (
+            <div className="flex items-center space-x-2 mb-2 text-xs text-muted">
+              <span>Send to</span>
+              <Select value={recipient} onValueChange={setRecipient}>
+                <SelectTrigger className="w-40 h-7 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EVERYONE}>Everyone</SelectItem>
+                  {peers.map((peer) => (
+                    <SelectItem key={peer.id} value={peer.id}>{peer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div className="flex space-x-3">
             <div className="flex-1 relative">
               <Textarea
@@ -186,6 +604,48 @@ export function ChatInterface({
                 <Send className="w-4 h-4" />
               </Button>
               
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                variant="outline"
+                className="p-3"
+                disabled={!canSendFiles}
+                title={canSendFiles ? 'Send files' : "The other person's app can't receive files"}
+              >
+                <Paperclip className="w-4 h-4" />
+              </Button>
+              
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  handleFilesSelected(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+              
+              <Button
+                onClick={() => folderInputRef.current?.click()}
+                variant="outline"
+                className="p-3"
+                disabled={!canSendFolders}
+                title={canSendFolders ? 'Send a folder' : "The other person's app can't receive folders"}
+              >
+                <FolderUp className="w-4 h-4" />
+              </Button>
+              
+              <input
+                ref={folderInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  handleFolderSelected(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+              
               <Button
                 onClick={onClearChat}
                 variant="outline"
@@ -207,6 +667,9 @@ export function ChatInterface({
             </div>
             
             <div className="flex items-center space-x-2">
+              {isPeerTyping && (
+                <span className="text-secondary">Peer is typing...</span>
+              )}
               {isTyping && (
                 <span className="text-amber-600">Typing...</span>
               )}
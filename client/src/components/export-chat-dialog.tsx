@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { Download, Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { MIN_ARCHIVE_PASSWORD_LENGTH, type ExportOptions } from '../lib/chat-export';
+import type { ChatExportFormat } from '../types';
+
+interface ExportChatDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (format: ChatExportFormat, options: ExportOptions) => Promise<void>;
+}
+
+const FORMATS: Array<{ value: ChatExportFormat; label: string; description: string }> = [
+  {
+    value: 'archive',
+    label: 'Encrypted archive (.pairqr)',
+    description: 'Password protected, with received files. Open it again from the home page.'
+  },
+  { value: 'json', label: 'JSON', description: 'Plaintext, for other tools' },
+  { value: 'markdown', label: 'Markdown', description: 'Plaintext, for notes and documents' },
+  { value: 'html', label: 'HTML', description: 'Plaintext web page, for reading or printing' }
+];
+
+export function ExportChatDialog({ isOpen, onClose, onExport }: ExportChatDialogProps) {
+  const [format, setFormat] = useState<ChatExportFormat>('archive');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [includeFiles, setIncludeFiles] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Never keep a password around between exports
+  useEffect(() => {
+    if (!isOpen) {
+      setPassword('');
+      setConfirmPassword('');
+    }
+  }, [isOpen]);
+
+  const isArchive = format === 'archive';
+  const passwordTooShort = password.length < MIN_ARCHIVE_PASSWORD_LENGTH;
+  const passwordsDiffer = password !== confirmPassword;
+  const canExport = !isExporting && (!isArchive || (!passwordTooShort && !passwordsDiffer));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(format, isArchive ? { password, includeFiles } : {});
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px] max-h-[80vh] overflow-y-auto p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base sm:text-lg">
+            <Download className="h-5 w-5" />
+            Export Chat
+          </DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            Plaintext exports can be read by anyone who gets the file
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as ChatExportFormat)}>
+            {FORMATS.map(option => (
+              <div key={option.value} className="flex items-start gap-3">
+                <RadioGroupItem value={option.value} id={`export-${option.value}`} className="mt-0.5" />
+                <div className="space-y-0.5">
+                  <Label htmlFor={`export-${option.value}`}>{option.label}</Label>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </div>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {isArchive && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="archive-password" className="flex items-center gap-1">
+                  <Lock className="w-3 h-3" />
+                  Password
+                </Label>
+                <Input
+                  id="archive-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="Repeat password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+                {password.length > 0 && passwordTooShort && (
+                  <p className="text-xs text-red-600">Use at least {MIN_ARCHIVE_PASSWORD_LENGTH} characters</p>
+                )}
+                {!passwordTooShort && confirmPassword.length > 0 && passwordsDiffer && (
+                  <p className="text-xs text-red-600">Passwords don't match</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  There is no way to recover an archive if the password is lost.
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="include-files"
+                  checked={includeFiles}
+                  onCheckedChange={(checked) => setIncludeFiles(checked === true)}
+                />
+                <Label htmlFor="include-files" className="text-sm font-normal">
+                  Include received files
+                </Label>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!canExport}>
+            {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
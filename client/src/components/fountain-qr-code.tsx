@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { generateQRCode } from '../lib/qr-utils';
+import type { FountainEncoder } from '../lib/fountain';
+
+interface FountainQrCodeProps {
+  // Each frame is drawn as it comes up; the stream has no end to loop over
+  encoder: FountainEncoder;
+  // How long each frame stays up
+  frameIntervalMs?: number;
+  className?: string;
+}
+
+export function FountainQrCode({ encoder, frameIntervalMs = 250, className }: FountainQrCodeProps) {
+  const [image, setImage] = useState<string | null>(null);
+  const [framesShown, setFramesShown] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: number | undefined;
+    setImage(null);
+    setFramesShown(0);
+
+    const showNext = async () => {
+      try {
+        const url = await generateQRCode(encoder.nextFrame());
+        if (cancelled) return;
+        setImage(url);
+        setFramesShown(n => n + 1);
+      } catch (error) {
+        console.error('Failed to draw QR frame:', error);
+      }
+      if (!cancelled) {
+        timer = window.setTimeout(showNext, frameIntervalMs);
+      }
+    };
+    showNext();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [encoder, frameIntervalMs]);
+
+  if (!image) {
+    return (
+      <div className={`flex items-center justify-center aspect-square ${className ?? ''}`}>
+        <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <img
+        src={image}
+        alt={`QR code, frame ${framesShown}`}
+        className="w-full aspect-square [image-rendering:pixelated]"
+      />
+      <p className="mt-2 text-xs text-gray-500 text-center">
+        {framesShown} frames shown; a receiver needs a little over {encoder.blockCount}
+      </p>
+    </div>
+  );
+}
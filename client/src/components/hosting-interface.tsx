@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
-import { Wifi, RefreshCw, Clock, Shield, Key, FileSignature, Info, Copy, Check } from 'lucide-react';
+import { Wifi, RefreshCw, Clock, Shield, Key, FileSignature, Info, Copy, Check, KeyRound, Users, MessageCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { generateQRCode, getTimeRemaining } from '../lib/qr-utils';
 import { useToast } from '@/hooks/use-toast';
 
@@ -9,17 +12,38 @@ interface HostingInterfaceProps {
   qrUrl: string;
   expirationTime: number;
   onRegenerateQR: () => void;
+  onSetPassphrase: (passphrase: string | null) => void;
+  onSetPostQuantum: (enabled: boolean) => boolean;
+  maxGuests: number;
+  onSetMaxGuests: (count: number) => boolean;
+  // Guests already connected; while there are any, the host can go back to the chat
+  guestCount: number;
+  onBackToChat: () => void;
 }
 
+const GUEST_LIMITS = [1, 5, 10, 30];
+
+// Each wrong guess costs an attacker a whole exchange, but not too short
+const MIN_PASSPHRASE_LENGTH = 6;
+
 export function HostingInterface({ 
   sessionId, 
   qrUrl, 
   expirationTime,
-  onRegenerateQR 
+  onRegenerateQR,
+  onSetPassphrase,
+  onSetPostQuantum,
+  maxGuests,
+  onSetMaxGuests,
+  guestCount,
+  onBackToChat
 }: HostingInterfaceProps) {
   const [qrCodeImage, setQrCodeImage] = useState<string>('');
   const [timeRemaining, setTimeRemaining] = useState<string>('02:00');
   const [copied, setCopied] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseEnabled, setPassphraseEnabled] = useState(false);
+  const [postQuantum, setPostQuantum] = useState(false);
   const { toast } = useToast();
 
   const copySessionId = async () => {
@@ -41,6 +65,45 @@ export function HostingInterface({
     }
   };
 
+  // A new session starts without passphrase joins
+  useEffect(() => {
+    setPassphrase('');
+    setPassphraseEnabled(false);
+    setPostQuantum(false);
+  }, [sessionId]);
+
+  const togglePostQuantum = (enabled: boolean) => {
+    if (onSetPostQuantum(enabled)) {
+      setPostQuantum(enabled);
+    } else {
+      toast({
+        title: "Too late to change",
+        description: "A device is already connecting. Generate a new QR code to change the key exchange",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const changeMaxGuests = (value: string) => {
+    if (!onSetMaxGuests(Number(value))) {
+      toast({
+        title: "Too late to change",
+        description: "A device is already connecting. Generate a new QR code to change how many can join",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const togglePassphrase = () => {
+    if (passphraseEnabled) {
+      onSetPassphrase(null);
+      setPassphraseEnabled(false);
+    } else {
+      onSetPassphrase(passphrase.trim());
+      setPassphraseEnabled(true);
+    }
+  };
+
   useEffect(() => {
     generateQRCode(qrUrl).then(setQrCodeImage).catch(console.error);
   }, [qrUrl]);
@@ -72,7 +135,9 @@ export function HostingInterface({
             
             <div className="flex items-center space-x-2 text-sm">
               <div className="w-2 h-2 bg-secondary rounded-full animate-pulse"></div>
-              <span>Waiting for connection</span>
+              <span>
+                {guestCount > 0 ? `${guestCount} of ${maxGuests} connected` : 'Waiting for connection'}
+              </span>
             </div>
           </div>
         </div>
@@ -124,15 +189,28 @@ export function HostingInterface({
                 <span>Expires in <span className="font-medium">{timeRemaining}</span></span>
               </div>
               
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={onRegenerateQR}
-                className="text-primary hover:text-blue-700"
-              >
-                <RefreshCw className="w-4 h-4 mr-1" />
-                Generate New QR
-              </Button>
+              {/* A new QR code means a new session, which would drop the guests already here */}
+              {guestCount > 0 ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onBackToChat}
+                  className="text-primary hover:text-blue-700"
+                >
+                  <MessageCircle className="w-4 h-4 mr-1" />
+                  Back to chat
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onRegenerateQR}
+                  className="text-primary hover:text-blue-700"
+                >
+                  <RefreshCw className="w-4 h-4 mr-1" />
+                  Generate New QR
+                </Button>
+              )}
             </div>
           </div>
           
@@ -155,7 +233,40 @@ export function HostingInterface({
                     <Key className="text-accent w-5 h-5" />
                     <span className="text-sm font-medium">Key Exchange</span>
                   </div>
-                  <span className="text-xs bg-accent/10 text-accent px-2 py-1 rounded-full">ECDH</span>
+                  <span className="text-xs bg-accent/10 text-accent px-2 py-1 rounded-full">
+                    {postQuantum ? 'ECDH + ML-KEM-768' : 'ECDH'}
+                  </span>
+                </div>
+                
+                <div className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-lg">
+                  <div className="space-y-0.5">
+                    <label htmlFor="post-quantum" className="text-sm font-medium">Post-quantum protection</label>
+                    <p className="text-xs text-muted">
+                      Also use ML-KEM-768, so recorded traffic stays safe from future quantum computers. The other device needs an up-to-date app.
+                    </p>
+                  </div>
+                  <Switch
+                    id="post-quantum"
+                    checked={postQuantum}
+                    onCheckedChange={togglePostQuantum}
+                  />
+                </div>
+                
+                <div className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    <Users className="text-primary w-5 h-5" />
+                    <span className="text-sm font-medium">Devices that can join</span>
+                  </div>
+                  <Select value={String(maxGuests)} onValueChange={changeMaxGuests}>
+                    <SelectTrigger className="w-20 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GUEST_LIMITS.map((limit) => (
+                        <SelectItem key={limit} value={String(limit)}>{limit}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
                 
                 <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
@@ -168,6 +279,34 @@ export function HostingInterface({
               </div>
             </div>
             
+            <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+              <div className="flex items-center space-x-2">
+                <KeyRound className="text-primary w-5 h-5" />
+                <span className="text-sm font-medium">No camera on the other device?</span>
+              </div>
+              <p className="text-xs text-muted">
+                Set a passphrase and read it out. The other device joins with the session ID and the passphrase.
+              </p>
+              <div className="flex space-x-2">
+                <Input
+                  type="text"
+                  placeholder="Passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  disabled={passphraseEnabled}
+                  className="flex-1 text-sm"
+                />
+                <Button
+                  variant={passphraseEnabled ? 'outline' : 'default'}
+                  size="sm"
+                  onClick={togglePassphrase}
+                  disabled={!passphraseEnabled && passphrase.trim().length < MIN_PASSPHRASE_LENGTH}
+                >
+                  {passphraseEnabled ? 'Turn off' : 'Allow'}
+                </Button>
+              </div>
+            </div>
+            
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
               <div className="flex items-start space-x-3">
                 <Info className="text-primary mt-0.5 w-5 h-5" />
@@ -1,15 +1,33 @@
 import { useState } from 'react';
+import { FileArchive, Unplug, WifiOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { PremiumNotification } from './premium-notification';
+import { TrustedDeviceList } from './trusted-device-list';
+import type { TrustedDevice } from '../types';
 
 interface LandingPageProps {
   onStartHosting: () => void;
   onStartScanning: () => void;
+  trustedDevices?: TrustedDevice[];
+  onConnectTrustedDevice?: (device: TrustedDevice) => void;
+  onRemoveTrustedDevice?: (device: TrustedDevice) => void;
+  onOpenArchive?: () => void;
+  onPairOffline?: () => void;
+  onAirGapTransfer?: () => void;
 }
 
-export function LandingPage({ onStartHosting, onStartScanning }: LandingPageProps) {
+export function LandingPage({
+  onStartHosting,
+  onStartScanning,
+  trustedDevices = [],
+  onConnectTrustedDevice,
+  onRemoveTrustedDevice,
+  onOpenArchive,
+  onPairOffline,
+  onAirGapTransfer
+}: LandingPageProps) {
   const [hoveredFeature, setHoveredFeature] = useState<number | null>(null);
   const [showPremiumNotification, setShowPremiumNotification] = useState(false);
 
@@ -103,6 +121,41 @@ export function LandingPage({ onStartHosting, onStartScanning }: LandingPageProp
               </Button>
             </div>
 
+            {(onOpenArchive || onPairOffline || onAirGapTransfer) && (
+              <div className="-mt-8 mb-12 flex flex-col sm:flex-row justify-center items-center">
+                {onPairOffline && (
+                  <Button variant="link" onClick={onPairOffline} className="text-blue-700">
+                    <WifiOff className="w-4 h-4 mr-2" />
+                    Pair without a server
+                  </Button>
+                )}
+                {onAirGapTransfer && (
+                  <Button variant="link" onClick={onAirGapTransfer} className="text-blue-700">
+                    <Unplug className="w-4 h-4 mr-2" />
+                    Send a file without a network
+                  </Button>
+                )}
+                {onOpenArchive && (
+                  <Button variant="link" onClick={onOpenArchive} className="text-blue-700">
+                    <FileArchive className="w-4 h-4 mr-2" />
+                    Open a saved chat archive
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {/* Trusted Devices: reconnect without scanning */}
+            {trustedDevices.length > 0 && (
+              <div className="max-w-md mx-auto mb-12 p-4 bg-white/80 backdrop-blur-sm rounded-xl border border-white/50 text-left">
+                <h2 className="text-sm font-semibold text-gray-900 mb-3">Your trusted devices</h2>
+                <TrustedDeviceList
+                  devices={trustedDevices}
+                  onConnect={onConnectTrustedDevice}
+                  onRemove={onRemoveTrustedDevice}
+                />
+              </div>
+            )}
+
             {/* Quick Stats */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-6 max-w-4xl mx-auto">
               {stats.map((stat, index) => (
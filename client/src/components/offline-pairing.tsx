@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Camera, Loader2, QrCode, ScanLine, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { AnimatedQrCode } from './animated-qr-code';
+import { useQrFrameScanner } from '../hooks/use-qr-frame-scanner';
+
+interface OfflinePairingProps {
+  // Host: start a session; resolves to the offer's frames, or null if it failed
+  onHost: () => Promise<string[] | null>;
+  // Guest: answer a scanned offer; resolves to the answer's frames
+  onOfferScanned: (data: Uint8Array) => Promise<string[] | null>;
+  // Host: finish pairing with the scanned answer
+  onAnswerScanned: (data: Uint8Array) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+type Step = 'choose' | 'host-offer' | 'host-scan' | 'guest-scan' | 'guest-answer';
+
+/**
+ * Pair two devices with no server at all, e.g. on an isolated LAN: the
+ * host shows its offer as an animated QR code, the guest scans it and
+ * shows its answer the same way, and the host scans that back.
+ */
+export function OfflinePairing({ onHost, onOfferScanned, onAnswerScanned, onCancel }: OfflinePairingProps) {
+  const [step, setStep] = useState<Step>('choose');
+  const [frames, setFrames] = useState<string[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const scanner = useQrFrameScanner();
+
+  const isScanStep = step === 'host-scan' || step === 'guest-scan';
+
+  useEffect(() => {
+    if (isScanStep) {
+      scanner.startScanning();
+    }
+  }, [isScanStep]);
+
+  // Every frame is in: hand the data over, or scan again if it was no good
+  useEffect(() => {
+    const data = scanner.data;
+    if (!data) return;
+
+    setIsWorking(true);
+    (async () => {
+      if (step === 'guest-scan') {
+        const answer = await onOfferScanned(data);
+        if (answer) {
+          setFrames(answer);
+          setStep('guest-answer');
+          return;
+        }
+      } else if (step === 'host-scan' && await onAnswerScanned(data)) {
+        return;
+      }
+      scanner.startScanning();
+    })().finally(() => setIsWorking(false));
+  }, [scanner.data]);
+
+  const handleHost = async () => {
+    setIsWorking(true);
+    try {
+      const offer = await onHost();
+      if (offer) {
+        setFrames(offer);
+        setStep('host-offer');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCancel = () => {
+    scanner.stopScanning();
+    onCancel();
+  };
+
+  const { received, total } = scanner.progress;
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-primary text-white p-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+              <WifiOff className="text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold">Pair Without a Server</h2>
+              <p className="text-blue-100 text-sm">
+                Both devices show and scan each other's codes; nothing goes over the internet
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {step === 'choose' && (
+            <div className="grid gap-3 sm:grid-cols-2">
+              <Button onClick={handleHost} disabled={isWorking} className="h-auto py-4 flex-col">
+                {isWorking ? <Loader2 className="w-6 h-6 mb-2 animate-spin" /> : <QrCode className="w-6 h-6 mb-2" />}
+                Show a code
+                <span className="text-xs font-normal opacity-80">This device hosts</span>
+              </Button>
+              <Button variant="outline" onClick={() => setStep('guest-scan')} disabled={isWorking} className="h-auto py-4 flex-col">
+                <Camera className="w-6 h-6 mb-2" />
+                Scan a code
+                <span className="text-xs font-normal opacity-80">The other device hosts</span>
+              </Button>
+            </div>
+          )}
+
+          {(step === 'host-offer' || step === 'guest-answer') && frames && (
+            <div className="text-center space-y-4">
+              <p className="text-sm text-gray-600">
+                {step === 'host-offer'
+                  ? '1. Scan this code with the other device, holding it steady until every part is read.'
+                  : '2. Let the host scan this code. The connection starts as soon as it has every part.'}
+              </p>
+              <AnimatedQrCode frames={frames} className="max-w-xs mx-auto" />
+              {step === 'host-offer' ? (
+                <Button onClick={() => setStep('host-scan')}>
+                  <ScanLine className="w-4 h-4 mr-2" />
+                  Scan their answer
+                </Button>
+              ) : (
+                <p className="flex items-center justify-center text-sm text-gray-500">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Waiting for the host to connect
+                </p>
+              )}
+            </div>
+          )}
+
+          {isScanStep && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600 text-center">
+                {step === 'guest-scan'
+                  ? "1. Point the camera at the host's animated code."
+                  : '2. Point the camera at the code the other device shows now.'}
+              </p>
+              <div className="relative bg-black rounded-lg overflow-hidden aspect-video">
+                <video ref={scanner.videoRef} className="w-full h-full object-cover" playsInline muted />
+                {(scanner.isLoading || isWorking) && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+                    <Loader2 className="w-8 h-8 text-white animate-spin" />
+                  </div>
+                )}
+              </div>
+              <Progress value={total > 0 ? (received / total) * 100 : 0} className="h-2" />
+              <p className="text-xs text-gray-500 text-center">
+                {total > 0 ? `Read ${received} of ${total} parts` : 'Looking for a code...'}
+              </p>
+              {scanner.error && (
+                <p className="text-sm text-red-600 text-center">{scanner.error}</p>
+              )}
+            </div>
+          )}
+
+          <Button variant="ghost" onClick={handleCancel} className="w-full">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
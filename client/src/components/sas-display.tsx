@@ -0,0 +1,26 @@
+import type { ShortAuthString } from '../types';
+
+interface SasDisplayProps {
+  sas: ShortAuthString;
+  compact?: boolean;
+}
+
+export function SasDisplay({ sas, compact = false }: SasDisplayProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap justify-center gap-2">
+        {sas.emoji.map((emoji, index) => (
+          <div key={index} className="flex flex-col items-center w-12">
+            <span className={compact ? 'text-xl' : 'text-2xl'} role="img" aria-label={emoji.name}>
+              {emoji.symbol}
+            </span>
+            {!compact && (
+              <span className="text-[10px] text-muted-foreground leading-tight text-center">{emoji.name}</span>
+            )}
+          </div>
+        ))}
+      </div>
+      <p className="text-center font-mono text-sm tracking-widest text-gray-700">{sas.decimal}</p>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Camera } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { parseQRUrl, isQRExpired } from '../lib/qr-utils';
+import type { QRData } from '../types';
 
 // Import html5-qrcode types
 declare global {
@@ -13,11 +14,13 @@ declare global {
 }
 
 interface ScanningInterfaceProps {
-  onQRScanned: (sessionId: string, hostPublicKey: string) => void;
+  onQRScanned: (qrData: QRData) => void;
+  onJoinWithPassphrase: (sessionId: string, passphrase: string) => void;
 }
 
-export function ScanningInterface({ onQRScanned }: ScanningInterfaceProps) {
+export function ScanningInterface({ onQRScanned, onJoinWithPassphrase }: ScanningInterfaceProps) {
   const [manualSessionId, setManualSessionId] = useState('');
+  const [passphrase, setPassphrase] = useState('');
   const [isScanning, setIsScanning] = useState(false);
   const [qrData, setQrData] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
@@ -76,11 +79,11 @@ export function ScanningInterface({ onQRScanned }: ScanningInterfaceProps) {
       redirectedRef.current = true;
       
       // Immediately proceed with in-app join flow
-      onQRScanned(parsed.sessionId, parsed.hostPublicKey);
+      onQRScanned(parsed);
     } catch (error) {
       console.error('Error handling QR code:', error);
       // Fallback to internal flow
-      onQRScanned(parsed.sessionId, parsed.hostPublicKey);
+      onQRScanned(parsed);
     }
   };
 
@@ -210,11 +213,22 @@ export function ScanningInterface({ onQRScanned }: ScanningInterfaceProps) {
   };
 
   const handleConnectManually = () => {
-    if (manualSessionId.trim()) {
-      onQRScanned(manualSessionId.trim(), '');
+    const input = manualSessionId.trim();
+    if (!input) return;
+    
+    // A pasted join link carries the pairing secret; a bare session ID
+    // needs the host's passphrase instead
+    const parsed = parseQRUrl(input);
+    if (parsed) {
+      onQRScanned(parsed);
+    } else if (passphrase.trim()) {
+      onJoinWithPassphrase(input, passphrase);
     }
   };
 
+  const isManualLink = parseQRUrl(manualSessionId.trim()) !== null;
+  const canConnectManually = manualSessionId.trim() !== '' && (isManualLink || passphrase.trim() !== '');
+
   // Auto-start scanning when library is loaded
   useEffect(() => {
     if (libraryLoaded && !isScanning && !redirectedRef.current) {
@@ -236,7 +250,7 @@ export function ScanningInterface({ onQRScanned }: ScanningInterfaceProps) {
     if (processedQRRef.current === qrData.sessionId) return;
     processedQRRef.current = qrData.sessionId;
     console.log('[Scan] QR parsed, invoking onQRScanned for session:', qrData.sessionId);
-    onQRScanned(qrData.sessionId, qrData.hostPublicKey);
+    onQRScanned(qrData);
   }, [qrData, isScanning, onQRScanned]);
 
   // Cleanup on unmount
@@ -399,25 +413,40 @@ export function ScanningInterface({ onQRScanned }: ScanningInterfaceProps) {
           
           {/* Manual Input Alternative */}
           <div className="border-t border-gray-200 pt-6">
-            <p className="text-sm text-muted text-center mb-4">Or enter session ID manually:</p>
+            <p className="text-sm text-muted text-center mb-4">Or paste the session link, or enter the session ID and the host's passphrase:</p>
             
-            <div className="flex space-x-3">
+            <div className="flex flex-col sm:flex-row gap-3">
               <Input
                 type="text" 
-                placeholder="Enter session ID..." 
+                placeholder="Session link or ID..." 
                 value={manualSessionId}
                 onChange={(e) => setManualSessionId(e.target.value)}
                 className="flex-1 font-mono text-sm"
                 onKeyDown={(e) => {
-                  if (e.key === 'Enter' && manualSessionId.trim()) {
+                  if (e.key === 'Enter' && canConnectManually) {
                     handleConnectManually();
                   }
                 }}
               />
+              {!isManualLink && (
+                <Input
+                  type="text"
+                  placeholder="Passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className="sm:w-40 text-sm"
+                  autoComplete="off"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && canConnectManually) {
+                      handleConnectManually();
+                    }
+                  }}
+                />
+              )}
               <Button 
                 onClick={handleConnectManually}
                 className="bg-secondary text-white hover:bg-green-600"
-                disabled={!manualSessionId.trim()}
+                disabled={!canConnectManually}
               >
                 Connect
               </Button>
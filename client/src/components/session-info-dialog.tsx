@@ -0,0 +1,150 @@
+import { Info, ShieldCheck, ShieldAlert, Smartphone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { Separator } from '@/components/ui/separator';
+import { LEGACY_PROTOCOL_VERSION, type NegotiatedProtocol } from '@shared/protocol';
+import { SasDisplay } from './sas-display';
+import type { KeyAgreementSuite, ShortAuthString, VerificationStatus } from '../types';
+
+interface SessionInfoDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId?: string;
+  protocol: NegotiatedProtocol | null;
+  keySuite: KeyAgreementSuite | null;
+  sas: ShortAuthString | null;
+  verificationStatus: VerificationStatus;
+  onConfirmVerification: () => void;
+  onRejectVerification: () => void;
+  isPeerTrusted?: boolean;
+  onRememberDevice?: () => void;
+}
+
+const KEY_SUITE_LABELS: Record<KeyAgreementSuite, string> = {
+  'ecdh-p256': 'ECDH P-256',
+  'ecdh-p256+mlkem768': 'ECDH P-256 + ML-KEM-768 (post-quantum hybrid)'
+};
+
+export function SessionInfoDialog({
+  isOpen,
+  onClose,
+  sessionId,
+  protocol,
+  keySuite,
+  sas,
+  verificationStatus,
+  onConfirmVerification,
+  onRejectVerification,
+  isPeerTrusted = false,
+  onRememberDevice
+}: SessionInfoDialogProps) {
+  const isVerified = verificationStatus === 'verified';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px] max-h-[80vh] overflow-y-auto p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base sm:text-lg">
+            <Info className="h-5 w-5" />
+            Session Information
+          </DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            Details of the current peer-to-peer session
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Session ID</dt>
+            <dd className="font-mono break-all">{sessionId || 'Unknown'}</dd>
+            <dt className="text-muted-foreground">Encryption</dt>
+            <dd>AES-256-GCM</dd>
+            <dt className="text-muted-foreground">Key agreement</dt>
+            <dd>{keySuite ? KEY_SUITE_LABELS[keySuite] : 'Negotiating...'}</dd>
+            <dt className="text-muted-foreground">Connection</dt>
+            <dd>P2P WebRTC</dd>
+            <dt className="text-muted-foreground">Protocol</dt>
+            <dd>
+              {protocol ? `Version ${protocol.version}` : 'Negotiating...'}
+              {protocol?.version === LEGACY_PROTOCOL_VERSION && ' (old app, keys not confirmed)'}
+            </dd>
+          </dl>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-base font-medium">Security code</h3>
+              {isVerified ? (
+                <span className="flex items-center gap-1 text-xs text-green-700">
+                  <ShieldCheck className="w-4 h-4" />
+                  Verified
+                </span>
+              ) : (
+                <span className="flex items-center gap-1 text-xs text-amber-600">
+                  <ShieldAlert className="w-4 h-4" />
+                  Unverified
+                </span>
+              )}
+            </div>
+            {sas ? (
+              <>
+                <SasDisplay sas={sas} />
+                <p className="text-xs sm:text-sm text-muted-foreground">
+                  Compare these with the other device, in person or over a call.
+                  If they differ, someone may be intercepting the session.
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Waiting for the key exchange to finish...</p>
+            )}
+          </div>
+
+          {isVerified && onRememberDevice && (
+            <>
+              <Separator />
+
+              <div className="space-y-3">
+                <h3 className="text-base font-medium">Trusted device</h3>
+                {isPeerTrusted ? (
+                  <p className="text-xs sm:text-sm text-muted-foreground">
+                    This device is remembered. Reconnect to it from your trusted devices without scanning.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-xs sm:text-sm text-muted-foreground">
+                      Remember each other to reconnect later without a QR code.
+                      Both devices need to choose this.
+                    </p>
+                    <Button variant="outline" onClick={onRememberDevice} className="w-full">
+                      <Smartphone className="w-4 h-4 mr-2" />
+                      Remember this device
+                    </Button>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {sas && !isVerified && (
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={onRejectVerification} className="text-red-600">
+              They don't match
+            </Button>
+            <Button onClick={onConfirmVerification}>
+              They match
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,39 +19,31 @@ import {
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
-import type { AppSettings } from '../types';
+import { TrustedDeviceList } from './trusted-device-list';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from '../lib/settings';
+import type { AppSettings, TrustedDevice } from '../types';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
+  trustedDevices?: TrustedDevice[];
+  onRemoveTrustedDevice?: (device: TrustedDevice) => void;
 }
 
-export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
-  const [settings, setSettings] = useState<AppSettings>({
-    autoClear: true,
-    requireHttps: true,
-    darkMode: false,
-    showTyping: true
-  });
+export function SettingsModal({ isOpen, onClose, trustedDevices = [], onRemoveTrustedDevice }: SettingsModalProps) {
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   
   const { toast } = useToast();
 
   // Load settings from localStorage on mount
   useEffect(() => {
-    const saved = localStorage.getItem('pairqr-settings');
-    if (saved) {
-      try {
-        setSettings(JSON.parse(saved));
-      } catch (error) {
-        console.error('Failed to load settings:', error);
-      }
-    }
+    setSettings(loadSettings());
   }, []);
 
   const updateSetting = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
     const newSettings = { ...settings, [key]: value };
     setSettings(newSettings);
-    localStorage.setItem('pairqr-settings', JSON.stringify(newSettings));
+    saveSettings(newSettings);
   };
 
   const exportSettings = () => {
@@ -80,9 +72,9 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
       const reader = new FileReader();
       reader.onload = (e) => {
         try {
-          const imported = JSON.parse(e.target?.result as string);
+          const imported = { ...DEFAULT_SETTINGS, ...JSON.parse(e.target?.result as string) };
           setSettings(imported);
-          localStorage.setItem('pairqr-settings', JSON.stringify(imported));
+          saveSettings(imported);
           toast({
             title: "Settings Imported",
             description: "Settings have been successfully imported",
@@ -101,14 +93,8 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   };
 
   const resetSettings = () => {
-    const defaultSettings: AppSettings = {
-      autoClear: true,
-      requireHttps: true,
-      darkMode: false,
-      showTyping: true
-    };
-    setSettings(defaultSettings);
-    localStorage.setItem('pairqr-settings', JSON.stringify(defaultSettings));
+    setSettings(DEFAULT_SETTINGS);
+    saveSettings(DEFAULT_SETTINGS);
     toast({
       title: "Settings Reset",
       description: "All settings have been reset to defaults",
@@ -188,11 +174,34 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                   onCheckedChange={(checked) => updateSetting('darkMode', checked)}
                 />
               </div>
+
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label htmlFor="allow-legacy-peers">Allow old app versions</Label>
+                  <p className="text-xs sm:text-sm text-muted-foreground">
+                    Connect to devices running the first version of the app. They can't confirm
+                    the session keys, so compare the security code before trusting them
+                  </p>
+                </div>
+                <Switch
+                  id="allow-legacy-peers"
+                  checked={settings.allowLegacyPeers}
+                  onCheckedChange={(checked) => updateSetting('allowLegacyPeers', checked)}
+                />
+              </div>
             </div>
           </div>
 
           <Separator />
 
+          {/* Trusted Devices */}
+          <div className="space-y-4">
+            <h3 className="text-base sm:text-lg font-medium">Trusted Devices</h3>
+            <TrustedDeviceList devices={trustedDevices} onRemove={onRemoveTrustedDevice} />
+          </div>
+
+          <Separator />
+
           {/* Data */}
           <div className="space-y-4">
             <h3 className="text-base sm:text-lg font-medium">Data</h3>
@@ -0,0 +1,62 @@
+import { Link2, Smartphone, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { TrustedDevice } from '../types';
+
+interface TrustedDeviceListProps {
+  devices: TrustedDevice[];
+  onConnect?: (device: TrustedDevice) => void;
+  onRemove?: (device: TrustedDevice) => void;
+}
+
+function formatLastSeen(device: TrustedDevice): string {
+  const timestamp = device.lastConnectedAt ?? device.pairedAt;
+  return new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export function TrustedDeviceList({ devices, onConnect, onRemove }: TrustedDeviceListProps) {
+  if (devices.length === 0) {
+    return (
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        No trusted devices yet. After verifying a session's security code, choose
+        "Remember this device" in the session information to reconnect without scanning.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {devices.map(device => (
+        <li key={device.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+          <div className="flex items-center gap-3 min-w-0">
+            <Smartphone className="w-4 h-4 text-muted-foreground shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{device.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {device.lastConnectedAt ? 'Last connected' : 'Paired'} {formatLastSeen(device)}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            {onConnect && (
+              <Button size="sm" variant="outline" onClick={() => onConnect(device)}>
+                <Link2 className="w-4 h-4 mr-1" />
+                Connect
+              </Button>
+            )}
+            {onRemove && (
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => onRemove(device)}
+                className="text-destructive hover:text-destructive"
+                title="Forget this device"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState, useCallback } from 'react';
+import { useCamera } from './use-camera';
+import { useQrDecodeLoop } from './use-qr-scanner';
+import { QrFrameCollector, type FrameCollector } from '../lib/qr-frames';
+
+// Animated codes change every few hundred milliseconds; this catches each
+// one more than once without decoding every video frame
+const SCAN_INTERVAL_MS = 100;
+
+/**
+ * Scan an animated QR code with the camera until the collector has all it
+ * needs. By default that is every frame of a PQR1 loop. Decoding runs on
+ * the bundled jsQR, so it works with no network at all.
+ */
+export function useQrFrameScanner(createCollector: () => FrameCollector = () => new QrFrameCollector()) {
+  const { videoRef, isLoading, error, startCamera, stopCamera } = useCamera();
+  const [isScanning, setIsScanning] = useState(false);
+  const [progress, setProgress] = useState({ received: 0, total: 0 });
+  const [data, setData] = useState<Uint8Array | null>(null);
+
+  const [collector] = useState(createCollector);
+
+  const decodeLoop = useQrDecodeLoop(videoRef, (text) => {
+    if (!collector.add(text)) return false;
+
+    setProgress({ received: collector.received, total: collector.total });
+    const result = collector.result();
+    if (!result) return false;
+
+    setIsScanning(false);
+    stopCamera();
+    setData(result);
+    return true;
+  }, { intervalMs: SCAN_INTERVAL_MS, inversionAttempts: 'dontInvert' });
+
+  const stopScanning = useCallback(() => {
+    decodeLoop.stop();
+    setIsScanning(false);
+    stopCamera();
+  }, [decodeLoop.stop, stopCamera]);
+
+  const startScanning = useCallback(async () => {
+    collector.reset();
+    setProgress({ received: 0, total: 0 });
+    setData(null);
+
+    await startCamera();
+    setIsScanning(true);
+    decodeLoop.start();
+  }, [collector, startCamera, decodeLoop.start]);
+
+  return {
+    videoRef,
+    isLoading,
+    isScanning,
+    progress,
+    data,
+    error,
+    startScanning,
+    stopScanning
+  };
+}
@@ -4,84 +4,116 @@ import { parseQRUrl, isQRExpired } from '../lib/qr-utils';
 import jsQR from 'jsqr';
 import type { QRData } from '../types';
 
-// QR Scanner implementation using jsQR library
-export function useQRScanner(videoRef?: RefObject<HTMLVideoElement>) {
-  const cameraHook = useCamera();
-  const { isInitialized, isLoading, error: cameraError, startCamera, stopCamera } = cameraHook;
-  
-  // Use provided videoRef or fallback to camera hook's videoRef
-  const actualVideoRef = videoRef || cameraHook.videoRef;
-  const [isScanning, setIsScanning] = useState(false);
-  const [qrData, setQrData] = useState<QRData | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  
-  const scanIntervalRef = useRef<number | null>(null);
+export interface QrDecodeOptions {
+  intervalMs: number;
+  // Also looking for light-on-dark codes takes twice as long per frame
+  inversionAttempts: 'attemptBoth' | 'dontInvert';
+}
+
+/**
+ * Decode the video's current frame with the bundled jsQR every
+ * `intervalMs` while started, and pass each code's text to `onCode`. The
+ * loop stops itself when `onCode` returns true.
+ */
+export function useQrDecodeLoop(
+  videoRef: RefObject<HTMLVideoElement>,
+  onCode: (text: string) => boolean,
+  { intervalMs, inversionAttempts }: QrDecodeOptions
+) {
+  const intervalRef = useRef<number | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // The latest callback, without restarting the loop when it changes
+  const onCodeRef = useRef(onCode);
+  onCodeRef.current = onCode;
 
-  const stopScanning = useCallback(() => {
-    setIsScanning(false);
-    
-    if (scanIntervalRef.current) {
-      clearInterval(scanIntervalRef.current);
-      scanIntervalRef.current = null;
+  const stop = useCallback(() => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
     }
   }, []);
 
-  const scanFrame = useCallback(() => {
-    if (!actualVideoRef.current || !isInitialized || !isScanning) {
-      return;
-    }
-    
-    const video = actualVideoRef.current;
-    
+  const decodeFrame = useCallback(() => {
+    const video = videoRef.current;
+
     // Check if video has valid dimensions and is playing
-    if (video.videoWidth === 0 || video.videoHeight === 0 || video.paused || video.readyState < 2) {
+    if (!video || video.videoWidth === 0 || video.videoHeight === 0 || video.paused || video.readyState < 2) {
       return;
     }
-    
-    const canvas = canvasRef.current || document.createElement('canvas');
+
+    const canvas = canvasRef.current ?? document.createElement('canvas');
     canvasRef.current = canvas;
-    
-    const context = canvas.getContext('2d');
-    if (!context) {
-      return;
-    }
-    
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return;
+
     canvas.width = video.videoWidth;
     canvas.height = video.videoHeight;
-    
+
     try {
       context.drawImage(video, 0, 0, canvas.width, canvas.height);
       const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-      
-      // Use jsQR with optimized settings for better real-time detection
-      const code = jsQR(imageData.data, imageData.width, imageData.height, {
-        inversionAttempts: "attemptBoth",
-      });
-      
-      if (code && code.data) {
-        console.log('QR Code detected:', code.data);
-        const parsed = parseQRUrl(code.data);
-        
-        if (parsed && !isQRExpired(parsed)) {
-          console.log('Valid QR code found:', parsed);
-          setQrData(parsed);
-          stopScanning(); // Auto-stop scanning when valid QR is found
-          return; // Exit early to prevent multiple detections
-        } else if (parsed && isQRExpired(parsed)) {
-          setError('QR code has expired. Please request a new one.');
-          stopScanning();
-          return;
-        } else {
-          // Invalid QR format - continue scanning
-          console.log('Invalid QR code format, continuing scan...');
-        }
+      const code = jsQR(imageData.data, imageData.width, imageData.height, { inversionAttempts });
+
+      if (code?.data && onCodeRef.current(code.data)) {
+        stop();
       }
     } catch (error) {
       console.error('QR scanning error:', error);
       // Continue scanning despite errors
     }
-  }, [isInitialized, isScanning, actualVideoRef, stopScanning]);
+  }, [videoRef, inversionAttempts, stop]);
+
+  const start = useCallback(() => {
+    stop();
+    intervalRef.current = window.setInterval(decodeFrame, intervalMs);
+  }, [decodeFrame, intervalMs, stop]);
+
+  // Cleanup on unmount
+  useEffect(() => stop, [stop]);
+
+  return { start, stop };
+}
+
+// QR Scanner implementation using jsQR library
+export function useQRScanner(videoRef?: RefObject<HTMLVideoElement>) {
+  const cameraHook = useCamera();
+  const { isInitialized, isLoading, error: cameraError, startCamera, stopCamera } = cameraHook;
+  
+  // Use provided videoRef or fallback to camera hook's videoRef
+  const actualVideoRef = videoRef || cameraHook.videoRef;
+  const [isScanning, setIsScanning] = useState(false);
+  const [qrData, setQrData] = useState<QRData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCode = (text: string): boolean => {
+    console.log('QR Code detected:', text);
+    const parsed = parseQRUrl(text);
+    
+    if (parsed && !isQRExpired(parsed)) {
+      console.log('Valid QR code found:', parsed);
+      setQrData(parsed);
+      setIsScanning(false); // Auto-stop scanning when valid QR is found
+      return true;
+    } else if (parsed && isQRExpired(parsed)) {
+      setError('QR code has expired. Please request a new one.');
+      setIsScanning(false);
+      return true;
+    }
+    // Invalid QR format - continue scanning
+    console.log('Invalid QR code format, continuing scan...');
+    return false;
+  };
+
+  // ~30 FPS, trying inverted codes too, for smooth detection
+  const decodeLoop = useQrDecodeLoop(actualVideoRef, handleCode, {
+    intervalMs: 33,
+    inversionAttempts: 'attemptBoth'
+  });
+
+  const stopScanning = useCallback(() => {
+    setIsScanning(false);
+    decodeLoop.stop();
+  }, [decodeLoop.stop]);
 
   const startScanning = useCallback(async () => {
     try {
@@ -96,16 +128,11 @@ export function useQRScanner(videoRef?: RefObject<HTMLVideoElement>) {
       }
       
       setIsScanning(true);
-      
-      // Start scanning frames at optimal frequency for real-time detection
-      if (scanIntervalRef.current) {
-        clearInterval(scanIntervalRef.current);
-      }
-      scanIntervalRef.current = window.setInterval(scanFrame, 33); // ~30 FPS for smooth detection
+      decodeLoop.start();
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Failed to start scanning');
     }
-  }, [isInitialized, startCamera, scanFrame]);
+  }, [isInitialized, startCamera, decodeLoop.start]);
 
   const resetScanner = useCallback(() => {
     stopScanning();
@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { listTrustedDevices, removeTrustedDevice } from '../lib/identity';
+import { PresenceManager } from '../lib/presence';
+import type { QRData, TrustedDevice, TrustedInvite } from '../types';
+
+export function useTrustedDevices() {
+  const [devices, setDevices] = useState<TrustedDevice[]>([]);
+  // Latest invite from a trusted device, until the user accepts or dismisses it
+  const [incomingInvite, setIncomingInvite] = useState<TrustedInvite | null>(null);
+
+  const presenceRef = useRef<PresenceManager | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listTrustedDevices());
+    } catch (error) {
+      // Private browsing modes may not offer IndexedDB
+      console.warn('Trusted devices unavailable:', error);
+      setDevices([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Only stay reachable while there is someone who could invite us
+  const hasDevices = devices.length > 0;
+  useEffect(() => {
+    if (!hasDevices) return;
+
+    const presence = new PresenceManager();
+    presenceRef.current = presence;
+    presence.onInvite = setIncomingInvite;
+    presence.start().catch((error) => {
+      console.warn('Failed to start presence:', error);
+    });
+
+    return () => {
+      presence.stop();
+      presenceRef.current = null;
+    };
+  }, [hasDevices]);
+
+  const remove = useCallback(async (id: string) => {
+    await removeTrustedDevice(id);
+    await refresh();
+  }, [refresh]);
+
+  const invite = useCallback(async (device: TrustedDevice, session: QRData, pairingSecret: string, guestToken: string) => {
+    if (!presenceRef.current) {
+      return false;
+    }
+    return await presenceRef.current.invite(device, session, pairingSecret, guestToken);
+  }, []);
+
+  const dismissInvite = useCallback(() => {
+    setIncomingInvite(null);
+  }, []);
+
+  return {
+    devices,
+    incomingInvite,
+    refresh,
+    remove,
+    invite,
+    dismissInvite
+  };
+}
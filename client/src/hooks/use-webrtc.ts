@@ -1,7 +1,21 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { WebRTCManager } from '../lib/webrtc';
-import { generateSecureUUID } from '../lib/uuid';
-import type { ConnectionState, Message } from '../types';
+import { HOST_PEER_ID, WebRTCManager } from '../lib/webrtc';
+import { getIdentity, identityIdFor, saveTrustedDevice, trustedPairingSecret } from '../lib/identity';
+import type { PickedFolder } from '../lib/file-tree';
+import type { NegotiatedProtocol } from '@shared/protocol';
+import type {
+  ConnectionState,
+  FileBatch,
+  FileDestination,
+  FileTransfer,
+  KeyAgreementSuite,
+  Message,
+  PeerIdentity,
+  PeerInfo,
+  ShortAuthString,
+  TrustedDevice,
+  VerificationStatus
+} from '../types';
 
 export function useWebRTC() {
   const [connectionState, setConnectionState] = useState<ConnectionState>({
@@ -10,8 +24,42 @@ export function useWebRTC() {
   });
   const [messages, setMessages] = useState<Message[]>([]);
   const [error, setError] = useState<string | null>(null);
+  // Incoming files waiting for the user to accept or decline them
+  const [pendingTransfers, setPendingTransfers] = useState<FileTransfer[]>([]);
+  // Everyone we're connected to: the host for a guest, every guest for the host
+  const [peers, setPeers] = useState<PeerInfo[]>([]);
+  const [protocols, setProtocols] = useState<Record<string, NegotiatedProtocol>>({});
+  const [typingPeers, setTypingPeers] = useState<string[]>([]);
+  const [peerEndedSession, setPeerEndedSession] = useState(false);
+  const [shortAuthStrings, setShortAuthStrings] = useState<Record<string, ShortAuthString>>({});
+  // Each peer stays 'unverified' until the user confirms the codes match on both devices
+  const [verifications, setVerifications] = useState<Record<string, VerificationStatus>>({});
+  // Identities peers sent when their users chose to remember this device
+  const [peerIdentities, setPeerIdentities] = useState<Record<string, PeerIdentity>>({});
+  const [isPeerTrusted, setIsPeerTrusted] = useState(false);
+  const [keySuite, setKeySuite] = useState<KeyAgreementSuite | null>(null);
+  const [maxGuests, setMaxGuestsState] = useState(1);
+  // Host: the secret for the QR code's fragment; replaced each time a guest uses it
+  const [pairingSecret, setPairingSecret] = useState<string | null>(null);
   
   const webrtcRef = useRef<WebRTCManager | null>(null);
+  // Set for sessions with an already trusted device, whose identity keys
+  // authenticate the exchange in place of the security code
+  const trustedDeviceRef = useRef<TrustedDevice | null>(null);
+  const rememberRequestedRef = useRef(false);
+  const verificationsRef = useRef<Record<string, VerificationStatus>>({});
+  verificationsRef.current = verifications;
+  
+  // The peer the single-peer views (security code banner, session info) are
+  // about: a guest's host, or the first guest the host hasn't verified yet
+  const focusPeerId = connectionState.isHost
+    ? (peers.find(peer => shortAuthStrings[peer.id] && verifications[peer.id] !== 'verified') ?? peers[0])?.id ?? null
+    : HOST_PEER_ID;
+  const shortAuthString = focusPeerId ? shortAuthStrings[focusPeerId] ?? null : null;
+  const verificationStatus: VerificationStatus = focusPeerId ? verifications[focusPeerId] ?? 'unverified' : 'unverified';
+  const peerProtocol = focusPeerId ? protocols[focusPeerId] ?? null : null;
+  const peerIdentity = focusPeerId ? peerIdentities[focusPeerId] ?? null : null;
+  const isPeerTyping = typingPeers.length > 0;
 
   useEffect(() => {
     return () => {
@@ -19,41 +67,214 @@ export function useWebRTC() {
     };
   }, []);
 
-  const initializeHost = useCallback(async (sessionId: string) => {
+  const upsertFileMessage = useCallback((transfer: FileTransfer) => {
+    if (transfer.status !== 'offered') {
+      setPendingTransfers(prev => prev.filter(t => t.id !== transfer.id));
+    }
+    
+    // Files that belong to a folder batch update their row inside the batch message
+    if (transfer.batchId) {
+      setMessages(prev => prev.map(m => m.id === transfer.batchId && m.batch ? {
+        ...m,
+        batch: {
+          ...m.batch,
+          files: m.batch.files.map(f => f.id === transfer.id ? { ...f, ...transfer } : f)
+        }
+      } : m));
+      return;
+    }
+    
+    setMessages(prev => {
+      const index = prev.findIndex(m => m.id === transfer.id);
+      if (index === -1) {
+        return [...prev, {
+          id: transfer.id,
+          content: transfer.name,
+          timestamp: Date.now(),
+          isLocal: transfer.direction === 'outgoing',
+          encrypted: true,
+          file: transfer
+        }];
+      }
+      const next = [...prev];
+      next[index] = { ...next[index], file: transfer };
+      return next;
+    });
+  }, []);
+
+  const trustPeer = useCallback(async (identity: PeerIdentity) => {
+    // The routing ID is recomputed, not taken from the peer
+    const id = await identityIdFor(identity.publicKey);
+    await saveTrustedDevice({
+      id,
+      name: identity.name,
+      publicKey: identity.publicKey,
+      pairedAt: Date.now(),
+      lastConnectedAt: Date.now()
+    });
+    setIsPeerTrusted(true);
+  }, []);
+
+  const bindManagerEvents = useCallback((manager: WebRTCManager) => {
+    // Once a session has been connected, losing the link means the manager is
+    // rebuilding it rather than the session being over
+    const lostStatus = (prev: ConnectionState['status']): ConnectionState['status'] =>
+      prev === 'connected' || prev === 'reconnecting' ? 'reconnecting' : 'disconnected';
+    
+    // Other peers that are still up keep the session connected
+    const othersConfirmed = (peerId: string) =>
+      manager.getPeers().some(peer => peer.id !== peerId && peer.isConfirmed);
+    
+    manager.onConnectionStateChange = (state, peerId) => {
+      if (othersConfirmed(peerId)) return;
+      setConnectionState(prev => ({
+        ...prev,
+        // 'connected' waits for key confirmation, not just ICE
+        status: state === 'connected' && manager.isSessionConfirmed(peerId) ? 'connected' :
+                state === 'failed' || state === 'disconnected' ? lostStatus(prev.status) :
+                state === 'closed' ? 'disconnected' :
+                prev.status === 'reconnecting' ? 'reconnecting' : 'connecting'
+      }));
+    };
+    
+    manager.onSessionConfirmed = (peerId) => {
+      setConnectionState(prev => ({ ...prev, status: 'connected' }));
+      setKeySuite(manager.getKeySuite(peerId));
+      
+      const trustedDevice = trustedDeviceRef.current;
+      if (trustedDevice) {
+        saveTrustedDevice({ ...trustedDevice, lastConnectedAt: Date.now() }).catch(() => undefined);
+      }
+    };
+    
+    manager.onDataChannelClose = (peerId) => {
+      if (othersConfirmed(peerId)) return;
+      setConnectionState(prev => ({ ...prev, status: lostStatus(prev.status) }));
+    };
+    
+    manager.onPeersChange = setPeers;
+    manager.onPairingSecretChange = setPairingSecret;
+    
+    manager.onMessage = (message) => {
+      setTypingPeers(prev => prev.filter(id => id !== message.peerId));
+      setMessages(prev => [...prev, message]);
+    };
+    
+    manager.onFileTransfer = upsertFileMessage;
+    
+    manager.onBatchStart = (batch: FileBatch) => {
+      setMessages(prev => [...prev, {
+        id: batch.id,
+        content: batch.name,
+        timestamp: Date.now(),
+        isLocal: batch.direction === 'outgoing',
+        encrypted: true,
+        batch
+      }]);
+    };
+    
+    manager.onProtocolNegotiated = (protocol, peerId) => {
+      setProtocols(prev => ({ ...prev, [peerId]: protocol }));
+    };
+    
+    manager.onShortAuthString = (sas, peerId) => {
+      setShortAuthStrings(prev => ({ ...prev, [peerId]: sas }));
+      setVerifications(prev => ({ ...prev, [peerId]: trustedDeviceRef.current ? 'verified' : 'unverified' }));
+    };
+    
+    manager.onPeerIdentity = (identity, peerId) => {
+      setPeerIdentities(prev => ({ ...prev, [peerId]: identity }));
+      // Saved only if our user asked to remember the peer too, and only
+      // over a session whose security code was checked
+      if (rememberRequestedRef.current && verificationsRef.current[peerId] === 'verified') {
+        trustPeer(identity).catch((error) => {
+          setError(error instanceof Error ? error.message : 'Failed to remember device');
+        });
+      }
+    };
+    
+    manager.onPeerTyping = (isTyping, peerId) => {
+      setTypingPeers(prev => isTyping
+        ? prev.includes(peerId) ? prev : [...prev, peerId]
+        : prev.filter(id => id !== peerId));
+    };
+    
+    manager.onMessageDelivered = (messageId: string) => {
+      setMessages(prev => prev.map(m => m.id === messageId ? { ...m, delivered: true } : m));
+    };
+    
+    manager.onPeerEndedSession = () => {
+      setPeerEndedSession(true);
+    };
+    
+    manager.onIncomingTransfer = (transfer: FileTransfer) => {
+      setPendingTransfers(prev => [...prev.filter(t => t.id !== transfer.id), transfer]);
+    };
+    
+    manager.onError = (error) => {
+      setError(error.message);
+      setConnectionState(prev => ({ ...prev, status: 'error' }));
+    };
+  }, [upsertFileMessage, trustPeer]);
+
+  /**
+   * Host a session. With a trusted device, the pairing secret is derived
+   * from both identity keys instead of being random, so the device can join
+   * from an invite without scanning anything.
+   */
+  const initializeHost = useCallback(async (sessionId: string, trustedDevice?: TrustedDevice) => {
     try {
       setError(null);
       setConnectionState(prev => ({ ...prev, status: 'connecting', isHost: true }));
       
       const manager = new WebRTCManager();
       webrtcRef.current = manager;
+      trustedDeviceRef.current = trustedDevice ?? null;
+      setIsPeerTrusted(!!trustedDevice);
       
-      // Setup event handlers
-      manager.onConnectionStateChange = (state) => {
-        setConnectionState(prev => ({
-          ...prev,
-          status: state === 'connected' ? 'connected' : 
-                  state === 'failed' || state === 'disconnected' ? 'disconnected' : 'connecting'
-        }));
-      };
+      bindManagerEvents(manager);
       
-      manager.onDataChannelOpen = () => {
-        setConnectionState(prev => ({ ...prev, status: 'connected' }));
-      };
+      const pairingSecret = trustedDevice
+        ? await trustedPairingSecret(await getIdentity(), trustedDevice, sessionId)
+        : undefined;
+      const publicKey = await manager.initializeHost(sessionId, pairingSecret);
       
-      manager.onDataChannelClose = () => {
-        setConnectionState(prev => ({ ...prev, status: 'disconnected' }));
-      };
+      setConnectionState(prev => ({
+        ...prev,
+        peer: manager,
+        session: { id: sessionId } as any
+      }));
       
-      manager.onMessage = (message) => {
-        setMessages(prev => [...prev, message]);
-      };
+      return { publicKey, pairingSecret: manager.getPairingSecret()! };
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to initialize host');
+      setConnectionState(prev => ({ ...prev, status: 'error' }));
+      throw error;
+    }
+  }, [bindManagerEvents]);
+
+  const joinSession = useCallback(async (
+    sessionId: string,
+    hostPublicKey: string,
+    pairingSecret: string,
+    joinToken: string,
+    trustedDevice?: TrustedDevice
+  ) => {
+    try {
+      setError(null);
+      setConnectionState(prev => ({ ...prev, status: 'connecting', isHost: false }));
       
-      manager.onError = (error) => {
-        setError(error.message);
-        setConnectionState(prev => ({ ...prev, status: 'error' }));
-      };
+      const manager = new WebRTCManager();
+      webrtcRef.current = manager;
+      trustedDeviceRef.current = trustedDevice ?? null;
+      setIsPeerTrusted(!!trustedDevice);
       
-      const publicKey = await manager.initializeHost(sessionId);
+      bindManagerEvents(manager);
+      
+      const clientPublicKey = await manager.initializeClient(sessionId, hostPublicKey, pairingSecret, joinToken);
+      
+      // Send client's public key to the host via WebSocket for key exchange
+      await manager.sendKeyExchange(clientPublicKey);
       
       setConnectionState(prev => ({
         ...prev,
@@ -61,52 +282,58 @@ export function useWebRTC() {
         session: { id: sessionId } as any
       }));
       
-      return publicKey;
+      return clientPublicKey;
     } catch (error) {
-      setError(error instanceof Error ? error.message : 'Failed to initialize host');
+      setError(error instanceof Error ? error.message : 'Failed to join session');
       setConnectionState(prev => ({ ...prev, status: 'error' }));
       throw error;
     }
-  }, []);
+  }, [bindManagerEvents]);
 
-  const joinSession = useCallback(async (sessionId: string, hostPublicKey: string) => {
+  const joinSessionWithPassphrase = useCallback(async (sessionId: string, passphrase: string, joinToken: string) => {
     try {
       setError(null);
       setConnectionState(prev => ({ ...prev, status: 'connecting', isHost: false }));
       
       const manager = new WebRTCManager();
       webrtcRef.current = manager;
+      trustedDeviceRef.current = null;
       
-      // Setup event handlers
-      manager.onConnectionStateChange = (state) => {
-        setConnectionState(prev => ({
-          ...prev,
-          status: state === 'connected' ? 'connected' : 
-                  state === 'failed' || state === 'disconnected' ? 'disconnected' : 'connecting'
-        }));
-      };
+      bindManagerEvents(manager);
       
-      manager.onDataChannelOpen = () => {
-        setConnectionState(prev => ({ ...prev, status: 'connected' }));
-      };
+      const { publicKey } = await manager.initializeClientWithPassphrase(sessionId, passphrase, joinToken);
+      await manager.sendKeyExchange(publicKey);
       
-      manager.onDataChannelClose = () => {
-        setConnectionState(prev => ({ ...prev, status: 'disconnected' }));
-      };
+      setConnectionState(prev => ({
+        ...prev,
+        peer: manager,
+        session: { id: sessionId } as any
+      }));
       
-      manager.onMessage = (message) => {
-        setMessages(prev => [...prev, message]);
-      };
+      return publicKey;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to join session');
+      setConnectionState(prev => ({ ...prev, status: 'error' }));
+      throw error;
+    }
+  }, [bindManagerEvents]);
+
+  /**
+   * Host without a server: returns the frames of the offer to show as an
+   * animated QR code. The guest's answer goes to acceptOfflineAnswer.
+   */
+  const initializeOfflineHost = useCallback(async (sessionId: string) => {
+    try {
+      setError(null);
+      setConnectionState(prev => ({ ...prev, status: 'connecting', isHost: true }));
       
-      manager.onError = (error) => {
-        setError(error.message);
-        setConnectionState(prev => ({ ...prev, status: 'error' }));
-      };
+      const manager = new WebRTCManager();
+      webrtcRef.current = manager;
+      trustedDeviceRef.current = null;
       
-      const clientPublicKey = await manager.initializeClient(sessionId, hostPublicKey);
+      bindManagerEvents(manager);
       
-      // Send client's public key to the host via WebSocket for key exchange
-      manager.sendKeyExchange(clientPublicKey);
+      const frames = await manager.initializeOfflineHost(sessionId);
       
       setConnectionState(prev => ({
         ...prev,
@@ -114,12 +341,73 @@ export function useWebRTC() {
         session: { id: sessionId } as any
       }));
       
-      return clientPublicKey;
+      return frames;
     } catch (error) {
-      setError(error instanceof Error ? error.message : 'Failed to join session');
+      setError(error instanceof Error ? error.message : 'Failed to initialize host');
       setConnectionState(prev => ({ ...prev, status: 'error' }));
       throw error;
     }
+  }, [bindManagerEvents]);
+
+  // Host: a wrong or unreadable answer leaves the offer standing for another scan
+  const acceptOfflineAnswer = useCallback(async (data: Uint8Array) => {
+    if (!webrtcRef.current) {
+      throw new Error('WebRTC manager not initialized');
+    }
+    
+    await webrtcRef.current.acceptOfflineAnswer(data);
+  }, []);
+
+  // Guest without a server: answers a scanned offer; returns the answer's frames
+  const joinOfflineSession = useCallback(async (data: Uint8Array) => {
+    try {
+      setError(null);
+      setConnectionState(prev => ({ ...prev, status: 'connecting', isHost: false }));
+      
+      const manager = new WebRTCManager();
+      webrtcRef.current = manager;
+      trustedDeviceRef.current = null;
+      
+      bindManagerEvents(manager);
+      
+      const { sessionId, frames } = await manager.initializeOfflineClient(data);
+      
+      setConnectionState(prev => ({
+        ...prev,
+        peer: manager,
+        session: { id: sessionId } as any
+      }));
+      
+      return frames;
+    } catch (error) {
+      // A code that isn't a usable offer just means scanning again
+      webrtcRef.current?.disconnect();
+      webrtcRef.current = null;
+      setConnectionState(prev => ({ ...prev, status: 'disconnected' }));
+      throw error;
+    }
+  }, [bindManagerEvents]);
+
+  // Host: lets the signaling socket join once the server has the session
+  const setHostJoinToken = useCallback((token: string) => {
+    webrtcRef.current?.setJoinToken(token);
+  }, []);
+
+  const setJoinPassphrase = useCallback((passphrase: string | null) => {
+    webrtcRef.current?.setJoinPassphrase(passphrase);
+  }, []);
+
+  // Host only, before a guest has started connecting
+  const setPostQuantum = useCallback((enabled: boolean) => {
+    return webrtcRef.current?.setPostQuantum(enabled) ?? false;
+  }, []);
+
+  const setMaxGuests = useCallback((count: number) => {
+    const changed = webrtcRef.current?.setMaxGuests(count) ?? false;
+    if (changed) {
+      setMaxGuestsState(count);
+    }
+    return changed;
   }, []);
 
   const completeConnection = useCallback(async (peerPublicKey: string) => {
@@ -136,23 +424,16 @@ export function useWebRTC() {
     }
   }, []);
 
-  const sendMessage = useCallback(async (content: string) => {
+  // Without a recipient, messages and files go to every connected peer
+  const sendMessage = useCallback(async (content: string, to?: string) => {
     try {
       if (!webrtcRef.current) {
         throw new Error('WebRTC manager not initialized');
       }
       
-      await webrtcRef.current.sendMessage(content);
+      const localMessage = await webrtcRef.current.sendMessage(content, to);
       
       // Add local message to state
-      const localMessage: Message = {
-        id: generateSecureUUID(),
-        content,
-        timestamp: Date.now(),
-        isLocal: true,
-        encrypted: true
-      };
-      
       setMessages(prev => [...prev, localMessage]);
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Failed to send message');
@@ -160,6 +441,106 @@ export function useWebRTC() {
     }
   }, []);
 
+  const sendFile = useCallback(async (file: File, to?: string) => {
+    try {
+      if (!webrtcRef.current) {
+        throw new Error('WebRTC manager not initialized');
+      }
+      
+      // Progress and completion reach the message list through onFileTransfer
+      await webrtcRef.current.sendFile(file, to);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to send file');
+      throw error;
+    }
+  }, []);
+
+  const sendFolder = useCallback(async (folder: PickedFolder, to?: string) => {
+    try {
+      if (!webrtcRef.current) {
+        throw new Error('WebRTC manager not initialized');
+      }
+      
+      await webrtcRef.current.sendFolder(folder, to);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to send folder');
+      throw error;
+    }
+  }, []);
+
+  const acceptFile = useCallback(async (transferId: string, destination: FileDestination) => {
+    if (!webrtcRef.current) {
+      throw new Error('WebRTC manager not initialized');
+    }
+    
+    // False when the save picker was dismissed; the file stays on offer
+    return await webrtcRef.current.acceptIncomingFile(transferId, destination);
+  }, []);
+
+  const declineFile = useCallback(async (transferId: string) => {
+    await webrtcRef.current?.declineIncomingFile(transferId);
+  }, []);
+
+  const setBatchStatus = useCallback((batchId: string, status: FileBatch['status']) => {
+    setMessages(prev => prev.map(m => m.id === batchId && m.batch ? {
+      ...m,
+      batch: { ...m.batch, status }
+    } : m));
+  }, []);
+
+  const acceptBatch = useCallback(async (batchId: string, destination: FileDestination) => {
+    if (!webrtcRef.current) {
+      throw new Error('WebRTC manager not initialized');
+    }
+    
+    // False when the save picker was dismissed; the folder stays on offer
+    const accepted = await webrtcRef.current.acceptIncomingBatch(batchId, destination);
+    if (accepted) {
+      setBatchStatus(batchId, 'accepted');
+    }
+    return accepted;
+  }, [setBatchStatus]);
+
+  const declineBatch = useCallback(async (batchId: string) => {
+    setBatchStatus(batchId, 'declined');
+    await webrtcRef.current?.declineIncomingBatch(batchId);
+  }, [setBatchStatus]);
+
+  const confirmVerification = useCallback(() => {
+    if (focusPeerId) {
+      setVerifications(prev => ({ ...prev, [focusPeerId]: 'verified' }));
+    }
+  }, [focusPeerId]);
+
+  // Host: drop one guest, leaving the others connected
+  const removePeer = useCallback((peerId: string) => {
+    webrtcRef.current?.removePeer(peerId);
+    setTypingPeers(prev => prev.filter(id => id !== peerId));
+  }, []);
+
+  /**
+   * Offer to remember the peer for quick reconnects. Each side sends its
+   * identity when its user asks, and saves the other's once it has both
+   * asked and received it, so trust is only ever mutual.
+   */
+  const rememberPeer = useCallback(async () => {
+    if (!webrtcRef.current || !focusPeerId) {
+      throw new Error('WebRTC manager not initialized');
+    }
+    if (peers.length > 1) {
+      throw new Error('Devices can only be remembered in one-to-one sessions');
+    }
+    if (verificationsRef.current[focusPeerId] !== 'verified') {
+      throw new Error('Verify the security code before remembering this device');
+    }
+    
+    rememberRequestedRef.current = true;
+    await webrtcRef.current.sendIdentity(await getIdentity(), focusPeerId);
+    if (peerIdentity) {
+      await trustPeer(peerIdentity);
+    }
+  }, [focusPeerId, peers.length, peerIdentity, trustPeer]);
+
   const sendTypingIndicator = useCallback((isTyping: boolean) => {
     webrtcRef.current?.sendTypingIndicator(isTyping);
   }, []);
@@ -167,11 +548,25 @@ export function useWebRTC() {
   const disconnect = useCallback(() => {
     webrtcRef.current?.disconnect();
     webrtcRef.current = null;
+    trustedDeviceRef.current = null;
+    rememberRequestedRef.current = false;
     setConnectionState({
       status: 'disconnected',
       isHost: false
     });
     setMessages([]);
+    setPendingTransfers([]);
+    setPeers([]);
+    setProtocols({});
+    setTypingPeers([]);
+    setPeerEndedSession(false);
+    setShortAuthStrings({});
+    setVerifications({});
+    setPeerIdentities({});
+    setIsPeerTrusted(false);
+    setKeySuite(null);
+    setMaxGuestsState(1);
+    setPairingSecret(null);
     setError(null);
   }, []);
 
@@ -182,11 +577,42 @@ export function useWebRTC() {
   return {
     connectionState,
     messages,
+    pendingTransfers,
+    peers,
+    focusPeerId,
+    verifications,
+    maxGuests,
+    pairingSecret,
+    peerProtocol,
+    isPeerTyping,
+    peerEndedSession,
+    shortAuthString,
+    verificationStatus,
+    peerIdentity,
+    isPeerTrusted,
+    keySuite,
     error,
     initializeHost,
     joinSession,
+    joinSessionWithPassphrase,
+    initializeOfflineHost,
+    acceptOfflineAnswer,
+    joinOfflineSession,
+    setHostJoinToken,
+    setJoinPassphrase,
+    setPostQuantum,
+    setMaxGuests,
     completeConnection,
     sendMessage,
+    sendFile,
+    sendFolder,
+    acceptFile,
+    declineFile,
+    acceptBatch,
+    declineBatch,
+    confirmVerification,
+    removePeer,
+    rememberPeer,
     sendTypingIndicator,
     disconnect,
     clearMessages
@@ -0,0 +1,84 @@
+import { derivePasswordKey, PBKDF2_ITERATIONS } from './crypto';
+import { formatFileSize } from './file-transfer';
+
+/**
+ * Files sent to a device with no network, as a fountain-coded QR stream.
+ * Anyone who can see the screen can film the stream, so the file goes out
+ * encrypted under a password the receiver types in:
+ *
+ *   [1 version][16 salt][12 IV][AES-256-GCM ciphertext]
+ *
+ * with the header as associated data. The plaintext is
+ *   [4 info length][info JSON: name and type][file bytes]
+ */
+
+const SEALED_VERSION = 1;
+const SALT_SIZE = 16;
+const IV_SIZE = 12;
+const HEADER_SIZE = 1 + SALT_SIZE + IV_SIZE;
+
+// Each 200 bytes is another frame someone has to hold a camera up to
+export const MAX_AIR_GAP_FILE_SIZE = 32 * 1024;
+export const MIN_AIR_GAP_PASSWORD_LENGTH = 8;
+
+interface SealedFileInfo {
+  name: string;
+  type: string;
+}
+
+export async function sealFile(file: File, password: string): Promise<Uint8Array> {
+  if (file.size > MAX_AIR_GAP_FILE_SIZE) {
+    throw new Error(`Files sent this way can be at most ${formatFileSize(MAX_AIR_GAP_FILE_SIZE)}`);
+  }
+  if (password.length < MIN_AIR_GAP_PASSWORD_LENGTH) {
+    throw new Error(`Passwords need at least ${MIN_AIR_GAP_PASSWORD_LENGTH} characters`);
+  }
+
+  const info: SealedFileInfo = { name: file.name, type: file.type };
+  const infoBytes = new TextEncoder().encode(JSON.stringify(info));
+  const infoLength = new Uint8Array(4);
+  new DataView(infoLength.buffer).setUint32(0, infoBytes.length);
+  const plaintext = await new Blob([infoLength, infoBytes, file]).arrayBuffer();
+
+  const header = new Uint8Array(HEADER_SIZE);
+  header[0] = SEALED_VERSION;
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_SIZE));
+  header.set(salt, 1);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE));
+  header.set(iv, 1 + SALT_SIZE);
+
+  const key = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: header }, key, plaintext);
+
+  const sealed = new Uint8Array(HEADER_SIZE + ciphertext.byteLength);
+  sealed.set(header);
+  sealed.set(new Uint8Array(ciphertext), HEADER_SIZE);
+  return sealed;
+}
+
+// Decrypt what a QR stream added up to
+export async function openSealedFile(data: Uint8Array, password: string): Promise<File> {
+  if (data.length < HEADER_SIZE || data[0] !== SEALED_VERSION) {
+    throw new Error("That stream isn't a file from this version of PairQR");
+  }
+
+  const header = data.subarray(0, HEADER_SIZE);
+  const salt = header.slice(1, 1 + SALT_SIZE);
+  const iv = header.slice(1 + SALT_SIZE);
+
+  let plaintext: Uint8Array;
+  try {
+    const key = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS);
+    plaintext = new Uint8Array(await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: header },
+      key,
+      data.subarray(HEADER_SIZE)
+    ));
+  } catch {
+    throw new Error('Wrong password, or the stream was damaged');
+  }
+
+  const infoLength = new DataView(plaintext.buffer).getUint32(0);
+  const info = JSON.parse(new TextDecoder().decode(plaintext.subarray(4, 4 + infoLength))) as SealedFileInfo;
+  return new File([plaintext.slice(4 + infoLength)], info.name, { type: info.type });
+}
@@ -0,0 +1,300 @@
+import { derivePasswordKey, PBKDF2_ITERATIONS } from './crypto';
+import { formatFileSize } from './file-transfer';
+import type {
+  ArchivedAttachment,
+  ArchivedChat,
+  ArchivedMessage,
+  ChatExportFormat,
+  FileTransfer,
+  Message
+} from '../types';
+
+/**
+ * Chat exports. The plaintext formats are for sharing a transcript on
+ * purpose; the `.pairqr` archive keeps it encrypted at rest, attachments
+ * included, and is read back by the archive viewer without any network.
+ *
+ * Archive layout:
+ *   [6 "PAIRQR"][1 version][16 salt][4 PBKDF2 iterations][12 IV][AES-256-GCM ciphertext]
+ * with the header as associated data. The plaintext is
+ *   [4 manifest length][manifest JSON][attachment bytes, back to back]
+ * where each included attachment in the manifest records its offset and
+ * length in the bytes that follow.
+ */
+
+const ARCHIVE_MAGIC = new TextEncoder().encode('PAIRQR');
+const ARCHIVE_VERSION = 1;
+const SALT_SIZE = 16;
+const IV_SIZE = 12;
+const HEADER_SIZE = ARCHIVE_MAGIC.length + 1 + SALT_SIZE + 4 + IV_SIZE;
+
+// Refuse archives that would make us spin for minutes before failing
+const MAX_PBKDF2_ITERATIONS = 10000000;
+
+export const ARCHIVE_EXTENSION = '.pairqr';
+export const MIN_ARCHIVE_PASSWORD_LENGTH = 8;
+
+interface ManifestAttachment extends Omit<ArchivedAttachment, 'url'> {
+  offset?: number;
+  length?: number;
+}
+
+interface ManifestMessage extends Omit<ArchivedMessage, 'attachments'> {
+  attachments?: ManifestAttachment[];
+}
+
+interface ArchiveManifest {
+  exportedAt: string;
+  messages: ManifestMessage[];
+}
+
+export interface ExportOptions {
+  // Archive only
+  password?: string;
+  includeFiles?: boolean;
+}
+
+function toAttachment(file: FileTransfer): ArchivedAttachment {
+  return {
+    name: file.name,
+    size: file.size,
+    mimeType: file.mimeType,
+    path: file.path,
+    url: file.status === 'complete' ? file.url : undefined
+  };
+}
+
+/**
+ * Messages as they go into an export. Attachment URLs point at the live
+ * session's object URLs, which only exist for files received into the
+ * browser; files sent or saved straight to disk are listed by name only.
+ */
+function toArchivedMessages(messages: Message[]): ArchivedMessage[] {
+  return messages.map(message => {
+    const attachments = message.file ? [toAttachment(message.file)]
+      : message.batch ? message.batch.files.map(toAttachment)
+      : undefined;
+    return {
+      id: message.id,
+      content: message.content,
+      timestamp: message.timestamp,
+      isLocal: message.isLocal,
+      attachments
+    };
+  });
+}
+
+function sender(message: ArchivedMessage): string {
+  return message.isLocal ? 'You' : 'Peer';
+}
+
+function attachmentLabel(attachment: ArchivedAttachment): string {
+  return `${attachment.path || attachment.name} (${formatFileSize(attachment.size)})`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toJson(chat: ArchivedChat): string {
+  const messages = chat.messages.map(({ attachments, ...message }) => ({
+    ...message,
+    attachments: attachments?.map(({ url, ...attachment }) => attachment)
+  }));
+  return JSON.stringify({ exportedAt: chat.exportedAt, messages }, null, 2);
+}
+
+function toMarkdown(chat: ArchivedChat): string {
+  const lines = ['# PairQR chat', '', `Exported ${new Date(chat.exportedAt).toLocaleString()}`, ''];
+  for (const message of chat.messages) {
+    lines.push(`**${sender(message)}** - ${new Date(message.timestamp).toLocaleString()}`, '');
+    if (message.attachments) {
+      lines.push(...message.attachments.map(attachment => `- Attachment: ${attachmentLabel(attachment)}`));
+    } else {
+      // Keep line breaks inside a message
+      lines.push(message.content.split('\n').join('  \n'));
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+function toHtml(chat: ArchivedChat): string {
+  const rows = chat.messages.map(message => {
+    const body = message.attachments
+      ? `<ul>${message.attachments.map(a => `<li>Attachment: ${escapeHtml(attachmentLabel(a))}</li>`).join('')}</ul>`
+      : `<p>${escapeHtml(message.content).replace(/\n/g, '<br>')}</p>`;
+    return `<article class="${message.isLocal ? 'local' : 'remote'}">` +
+      `<header><strong>${sender(message)}</strong> <time>${escapeHtml(new Date(message.timestamp).toLocaleString())}</time></header>` +
+      `${body}</article>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>PairQR chat</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #111827; }
+article { margin: 0.75rem 0; padding: 0.75rem 1rem; border-radius: 0.75rem; background: #f3f4f6; }
+article.local { background: #dbeafe; }
+header { font-size: 0.8rem; color: #4b5563; }
+p, ul { margin: 0.25rem 0 0; word-wrap: break-word; }
+</style>
+</head>
+<body>
+<h1>PairQR chat</h1>
+<p>Exported ${escapeHtml(new Date(chat.exportedAt).toLocaleString())}</p>
+${rows}
+</body>
+</html>
+`;
+}
+
+async function createArchive(chat: ArchivedChat, password: string, includeFiles: boolean): Promise<Blob> {
+  const parts: BlobPart[] = [];
+  let offset = 0;
+
+  const messages: ManifestMessage[] = [];
+  for (const message of chat.messages) {
+    const attachments: ManifestAttachment[] | undefined = message.attachments ? [] : undefined;
+    for (const { url, ...attachment } of message.attachments ?? []) {
+      if (includeFiles && url) {
+        const bytes = await (await fetch(url)).arrayBuffer();
+        parts.push(bytes);
+        attachments!.push({ ...attachment, offset, length: bytes.byteLength });
+        offset += bytes.byteLength;
+      } else {
+        attachments!.push(attachment);
+      }
+    }
+    messages.push({ ...message, attachments });
+  }
+
+  const manifest: ArchiveManifest = { exportedAt: chat.exportedAt, messages };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const manifestLength = new Uint8Array(4);
+  new DataView(manifestLength.buffer).setUint32(0, manifestBytes.length);
+  const plaintext = await new Blob([manifestLength, manifestBytes, ...parts]).arrayBuffer();
+
+  const header = new Uint8Array(HEADER_SIZE);
+  const view = new DataView(header.buffer);
+  header.set(ARCHIVE_MAGIC);
+  header[ARCHIVE_MAGIC.length] = ARCHIVE_VERSION;
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_SIZE));
+  header.set(salt, ARCHIVE_MAGIC.length + 1);
+  view.setUint32(ARCHIVE_MAGIC.length + 1 + SALT_SIZE, PBKDF2_ITERATIONS);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE));
+  header.set(iv, HEADER_SIZE - IV_SIZE);
+
+  const key = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: header }, key, plaintext);
+  return new Blob([header, ciphertext], { type: 'application/octet-stream' });
+}
+
+/**
+ * Decrypt a `.pairqr` archive. Included attachments come back as object
+ * URLs; pass the result to `closeArchive` when done with it.
+ */
+export async function openArchive(file: Blob, password: string): Promise<ArchivedChat> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  if (data.length < HEADER_SIZE || !ARCHIVE_MAGIC.every((byte, i) => data[i] === byte)) {
+    throw new Error('Not a PairQR archive');
+  }
+  if (data[ARCHIVE_MAGIC.length] !== ARCHIVE_VERSION) {
+    throw new Error('This archive was made by a newer version of PairQR');
+  }
+
+  const header = data.subarray(0, HEADER_SIZE);
+  const salt = header.slice(ARCHIVE_MAGIC.length + 1, ARCHIVE_MAGIC.length + 1 + SALT_SIZE);
+  const iterations = new DataView(header.buffer, header.byteOffset).getUint32(ARCHIVE_MAGIC.length + 1 + SALT_SIZE);
+  const iv = header.slice(HEADER_SIZE - IV_SIZE);
+  if (iterations === 0 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error('Archive header is damaged');
+  }
+
+  let plaintext: Uint8Array;
+  try {
+    const key = await derivePasswordKey(password, salt, iterations);
+    plaintext = new Uint8Array(await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: header },
+      key,
+      data.subarray(HEADER_SIZE)
+    ));
+  } catch {
+    throw new Error('Wrong password, or the archive is damaged');
+  }
+
+  const manifestLength = new DataView(plaintext.buffer).getUint32(0);
+  const manifest = JSON.parse(new TextDecoder().decode(plaintext.subarray(4, 4 + manifestLength))) as ArchiveManifest;
+  const filesStart = 4 + manifestLength;
+
+  return {
+    exportedAt: manifest.exportedAt,
+    messages: manifest.messages.map(message => ({
+      ...message,
+      attachments: message.attachments?.map(({ offset, length, ...attachment }) => ({
+        ...attachment,
+        url: offset !== undefined && length !== undefined
+          ? URL.createObjectURL(new Blob(
+              [plaintext.slice(filesStart + offset, filesStart + offset + length)],
+              { type: attachment.mimeType }
+            ))
+          : undefined
+      }))
+    }))
+  };
+}
+
+export function closeArchive(chat: ArchivedChat): void {
+  chat.messages.forEach(message => {
+    message.attachments?.forEach(attachment => {
+      if (attachment.url) URL.revokeObjectURL(attachment.url);
+    });
+  });
+}
+
+export async function exportChat(
+  messages: Message[],
+  format: ChatExportFormat,
+  options: ExportOptions = {}
+): Promise<{ blob: Blob; fileName: string }> {
+  const chat: ArchivedChat = {
+    exportedAt: new Date().toISOString(),
+    messages: toArchivedMessages(messages)
+  };
+  const baseName = `pairqr-chat-${Date.now()}`;
+
+  switch (format) {
+    case 'json':
+      return { blob: new Blob([toJson(chat)], { type: 'application/json' }), fileName: `${baseName}.json` };
+    case 'markdown':
+      return { blob: new Blob([toMarkdown(chat)], { type: 'text/markdown' }), fileName: `${baseName}.md` };
+    case 'html':
+      return { blob: new Blob([toHtml(chat)], { type: 'text/html' }), fileName: `${baseName}.html` };
+    case 'archive':
+      if (!options.password || options.password.length < MIN_ARCHIVE_PASSWORD_LENGTH) {
+        throw new Error(`Archive passwords need at least ${MIN_ARCHIVE_PASSWORD_LENGTH} characters`);
+      }
+      return {
+        blob: await createArchive(chat, options.password, options.includeFiles ?? true),
+        fileName: `${baseName}${ARCHIVE_EXTENSION}`
+      };
+  }
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
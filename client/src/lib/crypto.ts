@@ -1,7 +1,176 @@
+import { ml_kem768 } from '@noble/post-quantum/ml-kem.js';
+import { ChainRatchet } from './ratchet';
+import { sasFromBytes } from './sas';
+import type { KeyAgreementSuite, ShortAuthString } from '../types';
+
+// Encode in slices: spreading a large buffer into String.fromCharCode
+// overflows the call stack
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+// Length-prefix every part so different splits can never hash the same
+function concatWithLengths(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + 4 + part.length, 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  for (const part of parts) {
+    view.setUint32(offset, part.length);
+    out.set(part, offset + 4);
+    offset += 4 + part.length;
+  }
+  return out;
+}
+
+/**
+ * One-time pairing secret. The host puts it in the QR link's fragment, which
+ * browsers never send to the server, so only someone who scanned the code
+ * can produce a key exchange the host will accept.
+ */
+export function generatePairingSecret(): string {
+  return encodePairingSecret(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+// URL-safe so it survives in a link without escaping
+export function encodePairingSecret(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600000;
+
+// AES-256-GCM key for data kept or carried under a password
+export async function derivePasswordKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password.normalize('NFKC')),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function pairingKey(secret: string, usage: KeyUsage): Promise<CryptoKey> {
+  const base64 = secret.replace(/-/g, '+').replace(/_/g, '/');
+  return crypto.subtle.importKey(
+    'raw',
+    base64ToBytes(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+function pairingTranscript(label: string, parts: string[]): Uint8Array {
+  const encoder = new TextEncoder();
+  return concatWithLengths([label, ...parts].map(part => encoder.encode(part)));
+}
+
+async function signWithPairingSecret(secret: string, label: string, parts: string[]): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', await pairingKey(secret, 'sign'), pairingTranscript(label, parts));
+  return bytesToBase64(new Uint8Array(mac));
+}
+
+async function verifyWithPairingSecret(secret: string, label: string, parts: string[], mac: string): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(
+      'HMAC',
+      await pairingKey(secret, 'verify'),
+      base64ToBytes(mac),
+      pairingTranscript(label, parts)
+    );
+  } catch {
+    // Malformed base64 and the like
+    return false;
+  }
+}
+
+export function signKeyExchange(secret: string, sessionId: string, clientPublicKey: string): Promise<string> {
+  return signWithPairingSecret(secret, 'PairQR-KE-v1', [sessionId, clientPublicKey]);
+}
+
+export function verifyKeyExchange(
+  secret: string,
+  sessionId: string,
+  clientPublicKey: string,
+  mac: string
+): Promise<boolean> {
+  return verifyWithPairingSecret(secret, 'PairQR-KE-v1', [sessionId, clientPublicKey], mac);
+}
+
+// A trusted device's invite vouches for the host key it carries
+export function signInvite(secret: string, sessionId: string, hostPublicKey: string): Promise<string> {
+  return signWithPairingSecret(secret, 'PairQR-Invite-v1', [sessionId, hostPublicKey]);
+}
+
+export function verifyInvite(secret: string, sessionId: string, hostPublicKey: string, mac: string): Promise<boolean> {
+  return verifyWithPairingSecret(secret, 'PairQR-Invite-v1', [sessionId, hostPublicKey], mac);
+}
+
+/**
+ * Everything both sides must agree on before frames flow. It is hashed into
+ * the handshake transcript, so a relayed key, a swapped role or a DTLS
+ * connection terminated by someone else yields different keys.
+ */
+export interface HandshakeContext {
+  sessionId: string;
+  isHost: boolean;
+  protocolVersion: number;
+  // `<algorithm> <hex>` from the SDP's a=fingerprint line
+  localFingerprint: string;
+  remoteFingerprint: string;
+}
+
+const HOST_TO_GUEST = 'host->guest';
+const GUEST_TO_HOST = 'guest->host';
+
+// ML-KEM-768 half of a hybrid key agreement. The host's public key is too
+// big for the QR code, so it travels with the WebRTC offer and the guest's
+// ciphertext with the answer; both go into the transcript.
+interface KemState {
+  publicKey: Uint8Array;
+  // Host only, until decapsulation
+  secretKey: Uint8Array | null;
+  ciphertext: Uint8Array | null;
+  // Until the session keys are derived
+  sharedSecret: Uint8Array | null;
+}
+
 export class CryptoManager {
   private keyPair: CryptoKeyPair | null = null;
   private sharedSecret: CryptoKey | null = null;
   private aesKey: CryptoKey | null = null;
+  private peerPublicKey: CryptoKey | null = null;
+  // Per-direction ratchets for binary frames; the static AES key above is
+  // only derived for chat with version 1 peers
+  private sendChain: ChainRatchet | null = null;
+  private receiveChain: ChainRatchet | null = null;
+  private sendConfirmKey: CryptoKey | null = null;
+  private receiveConfirmKey: CryptoKey | null = null;
+  private kem: KemState | null = null;
 
   async generateKeyPair(): Promise<CryptoKeyPair> {
     this.keyPair = await crypto.subtle.generateKey(
@@ -15,16 +184,28 @@ export class CryptoManager {
     return this.keyPair;
   }
 
+  /**
+   * Host: a manager for one more guest. It shares our key pair, which the
+   * QR code advertises, but derives its own keys with that guest.
+   */
+  forPeer(): CryptoManager {
+    if (!this.keyPair) throw new Error('No key pair available');
+
+    const peer = new CryptoManager();
+    peer.keyPair = this.keyPair;
+    return peer;
+  }
+
   async exportPublicKey(keyPair?: CryptoKeyPair): Promise<string> {
     const keys = keyPair || this.keyPair;
     if (!keys) throw new Error('No key pair available');
     
     const exported = await crypto.subtle.exportKey('spki', keys.publicKey);
-    return btoa(String.fromCharCode(...new Uint8Array(exported)));
+    return bytesToBase64(new Uint8Array(exported));
   }
 
   async importPublicKey(base64Key: string): Promise<CryptoKey> {
-    const keyData = Uint8Array.from(atob(base64Key), c => c.charCodeAt(0));
+    const keyData = base64ToBytes(base64Key);
     return await crypto.subtle.importKey(
       'spki',
       keyData,
@@ -32,7 +213,7 @@ export class CryptoManager {
         name: 'ECDH',
         namedCurve: 'P-256'
       },
-      false,
+      true, // exportable so it can be fed into the short authentication string
       []
     );
   }
@@ -40,6 +221,7 @@ export class CryptoManager {
   async deriveSharedSecret(peerPublicKey: CryptoKey): Promise<void> {
     if (!this.keyPair) throw new Error('No key pair available');
     
+    this.peerPublicKey = peerPublicKey;
     this.sharedSecret = await crypto.subtle.deriveKey(
       {
         name: 'ECDH',
@@ -50,10 +232,17 @@ export class CryptoManager {
         name: 'HKDF'
       },
       false,
-      ['deriveKey']
+      ['deriveKey', 'deriveBits']
     );
+  }
+
+  /**
+   * The fixed chat key version 1 peers derive. It can't be bound to anything,
+   * so it is only derived once the peer has negotiated version 1.
+   */
+  async deriveLegacyKey(): Promise<void> {
+    if (!this.sharedSecret) throw new Error('No shared secret available');
 
-    // Derive AES key from shared secret
     this.aesKey = await crypto.subtle.deriveKey(
       {
         name: 'HKDF',
@@ -71,6 +260,178 @@ export class CryptoManager {
     );
   }
 
+  /**
+   * Host: ask for a hybrid key agreement. Returns the ML-KEM-768 public key
+   * to send with the offer.
+   */
+  createKemKeyPair(): string {
+    const { publicKey, secretKey } = ml_kem768.keygen();
+    this.clearKem();
+    this.kem = { publicKey, secretKey, ciphertext: null, sharedSecret: null };
+    return bytesToBase64(publicKey);
+  }
+
+  getKemPublicKey(): string | null {
+    return this.kem ? bytesToBase64(this.kem.publicKey) : null;
+  }
+
+  // Guest: answer the host's KEM public key with a ciphertext for it. A
+  // repeated offer gets the same ciphertext again.
+  encapsulateKem(hostKemPublicKey: string): string {
+    const publicKey = base64ToBytes(hostKemPublicKey);
+    if (this.kem?.ciphertext && compareBytes(this.kem.publicKey, publicKey) === 0) {
+      return bytesToBase64(this.kem.ciphertext);
+    }
+    const { cipherText, sharedSecret } = ml_kem768.encapsulate(publicKey);
+    this.kem = { publicKey, secretKey: null, ciphertext: cipherText, sharedSecret };
+    return bytesToBase64(cipherText);
+  }
+
+  decapsulateKem(ciphertext: string): void {
+    if (!this.kem?.secretKey) throw new Error('No KEM key pair available');
+
+    const cipherText = base64ToBytes(ciphertext);
+    this.kem.sharedSecret = ml_kem768.decapsulate(cipherText, this.kem.secretKey);
+    this.kem.ciphertext = cipherText;
+    this.kem.secretKey.fill(0);
+    this.kem.secretKey = null;
+  }
+
+  // Host asked for a hybrid agreement and the guest hasn't answered it
+  isKemPending(): boolean {
+    return this.kem !== null && this.kem.ciphertext === null;
+  }
+
+  clearKem(): void {
+    this.kem?.secretKey?.fill(0);
+    this.kem?.sharedSecret?.fill(0);
+    this.kem = null;
+  }
+
+  getKeySuite(): KeyAgreementSuite {
+    return this.kem?.ciphertext ? 'ecdh-p256+mlkem768' : 'ecdh-p256';
+  }
+
+  // SHA-256 over the handshake, host's values first so both sides agree
+  private async transcriptHash(context: HandshakeContext): Promise<Uint8Array> {
+    if (!this.keyPair || !this.peerPublicKey) throw new Error('Key exchange not complete');
+
+    const ownKey = new Uint8Array(await crypto.subtle.exportKey('spki', this.keyPair.publicKey));
+    const peerKey = new Uint8Array(await crypto.subtle.exportKey('spki', this.peerPublicKey));
+    const [hostKey, guestKey] = context.isHost ? [ownKey, peerKey] : [peerKey, ownKey];
+    const [hostFingerprint, guestFingerprint] = context.isHost
+      ? [context.localFingerprint, context.remoteFingerprint]
+      : [context.remoteFingerprint, context.localFingerprint];
+
+    const encoder = new TextEncoder();
+    const parts = [
+      encoder.encode('PairQR-Transcript-v1'),
+      encoder.encode(context.sessionId),
+      encoder.encode(String(context.protocolVersion)),
+      hostKey,
+      guestKey,
+      encoder.encode(hostFingerprint.toUpperCase()),
+      encoder.encode(guestFingerprint.toUpperCase())
+    ];
+    // Appended only for hybrid sessions, so classic transcripts are unchanged
+    if (this.kem?.ciphertext) {
+      parts.push(encoder.encode('ML-KEM-768'), this.kem.publicKey, this.kem.ciphertext);
+    }
+    const digest = await crypto.subtle.digest('SHA-256', concatWithLengths(parts));
+    return new Uint8Array(digest);
+  }
+
+  /**
+   * Derive the directional frame ratchets and key-confirmation keys, salted
+   * with the handshake transcript. Runs once per key exchange; the ECDH
+   * secret is dropped afterwards so the ratchets' starting point can never
+   * be derived again. Hybrid sessions key the ratchets from both the ECDH
+   * and the ML-KEM secret, so breaking either one alone isn't enough.
+   */
+  async deriveSessionKeys(context: HandshakeContext): Promise<void> {
+    if (!this.sharedSecret) throw new Error('No shared secret available');
+    if (this.isKemPending()) {
+      throw new Error("The other device didn't complete the post-quantum key agreement");
+    }
+
+    const salt = await this.transcriptHash(context);
+    const encoder = new TextEncoder();
+    const inputKey = await this.sessionInputKey();
+    const chainKey = async (direction: string) => new Uint8Array(await crypto.subtle.deriveBits(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(`PairQR-Chain-v1 ${direction}`) },
+      inputKey,
+      256
+    ));
+    const confirmKey = (direction: string) => crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(`PairQR-Confirm-v1 ${direction}`) },
+      inputKey,
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign', 'verify']
+    );
+
+    const [sending, receiving] = context.isHost ? [HOST_TO_GUEST, GUEST_TO_HOST] : [GUEST_TO_HOST, HOST_TO_GUEST];
+    this.sendChain = new ChainRatchet(await chainKey(sending));
+    this.receiveChain = new ChainRatchet(await chainKey(receiving));
+    this.sendConfirmKey = await confirmKey(sending);
+    this.receiveConfirmKey = await confirmKey(receiving);
+    this.sharedSecret = null;
+    this.aesKey = null;
+  }
+
+  // The ECDH secret alone, or concatenated with the ML-KEM one
+  private async sessionInputKey(): Promise<CryptoKey> {
+    const kemSecret = this.kem?.sharedSecret;
+    if (!kemSecret) return this.sharedSecret!;
+
+    const ecdhSecret = new Uint8Array(await crypto.subtle.deriveBits(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode('PairQR-Hybrid-v1 ecdh') },
+      this.sharedSecret!,
+      256
+    ));
+    const combined = new Uint8Array(ecdhSecret.length + kemSecret.length);
+    combined.set(ecdhSecret);
+    combined.set(kemSecret, ecdhSecret.length);
+    const key = await crypto.subtle.importKey('raw', combined, 'HKDF', false, ['deriveKey', 'deriveBits']);
+
+    ecdhSecret.fill(0);
+    combined.fill(0);
+    kemSecret.fill(0);
+    this.kem!.sharedSecret = null;
+    return key;
+  }
+
+  hasSessionKeys(): boolean {
+    return this.sendChain !== null && this.receiveChain !== null;
+  }
+
+  /**
+   * Proof that we hold our sending keys, bound to the current connection's
+   * transcript. Sent on every new data channel, so a reconnect over someone
+   * else's DTLS connection is caught as well.
+   */
+  async createKeyConfirmation(context: HandshakeContext): Promise<string> {
+    if (!this.sendConfirmKey) throw new Error('No session keys available');
+
+    const mac = await crypto.subtle.sign('HMAC', this.sendConfirmKey, await this.transcriptHash(context));
+    return bytesToBase64(new Uint8Array(mac));
+  }
+
+  async verifyKeyConfirmation(context: HandshakeContext, mac: string): Promise<boolean> {
+    if (!this.receiveConfirmKey) return false;
+
+    try {
+      return await crypto.subtle.verify(
+        'HMAC',
+        this.receiveConfirmKey,
+        base64ToBytes(mac),
+        await this.transcriptHash(context)
+      );
+    } catch {
+      return false;
+    }
+  }
+
   async encrypt(plaintext: string): Promise<{ ciphertext: string; nonce: string }> {
     if (!this.aesKey) throw new Error('No AES key available');
     
@@ -88,16 +449,16 @@ export class CryptoManager {
     );
 
     return {
-      ciphertext: btoa(String.fromCharCode(...new Uint8Array(ciphertext))),
-      nonce: btoa(String.fromCharCode(...nonce))
+      ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+      nonce: bytesToBase64(nonce)
     };
   }
 
   async decrypt(ciphertext: string, nonce: string): Promise<string> {
     if (!this.aesKey) throw new Error('No AES key available');
     
-    const ciphertextData = Uint8Array.from(atob(ciphertext), c => c.charCodeAt(0));
-    const nonceData = Uint8Array.from(atob(nonce), c => c.charCodeAt(0));
+    const ciphertextData = base64ToBytes(ciphertext);
+    const nonceData = base64ToBytes(nonce);
     
     const decrypted = await crypto.subtle.decrypt(
       {
@@ -112,13 +473,97 @@ export class CryptoManager {
     return decoder.decode(decrypted);
   }
 
+  // Counter nonces are safe: every frame key is used exactly once
+  private frameNonce(counter: number): Uint8Array {
+    const nonce = new Uint8Array(12);
+    new DataView(nonce.buffer).setUint32(8, counter);
+    return nonce;
+  }
+
+  private async frameKey(raw: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+    try {
+      return await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, [usage]);
+    } finally {
+      raw.fill(0);
+    }
+  }
+
+  /**
+   * Encrypt frame `counter` with the next key from the sending chain.
+   * Counters must increase; the key is gone once this returns.
+   */
+  async encryptFrame(
+    counter: number,
+    data: BufferSource,
+    additionalData: BufferSource
+  ): Promise<ArrayBuffer> {
+    if (!this.sendChain) throw new Error('No sending chain available');
+
+    const { key, commit } = this.sendChain.peek(counter);
+    commit();
+    return await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: this.frameNonce(counter), additionalData },
+      await this.frameKey(key, 'encrypt'),
+      data
+    );
+  }
+
+  // The receiving chain only advances once the frame has authenticated
+  async decryptFrame(
+    counter: number,
+    ciphertext: BufferSource,
+    additionalData: BufferSource
+  ): Promise<ArrayBuffer> {
+    if (!this.receiveChain) throw new Error('No receiving chain available');
+
+    const { key, commit } = this.receiveChain.peek(counter);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.frameNonce(counter), additionalData },
+      await this.frameKey(key, 'decrypt'),
+      ciphertext
+    );
+    commit();
+    return plaintext;
+  }
+
+  /**
+   * Derive the short authentication string for this exchange from both SPKI
+   * public keys and the session ID. The keys are sorted so both sides hash
+   * the same input without knowing which one is the host.
+   */
+  async getShortAuthString(sessionId: string): Promise<ShortAuthString> {
+    if (!this.keyPair || !this.peerPublicKey) throw new Error('Key exchange not complete');
+
+    const ownKey = new Uint8Array(await crypto.subtle.exportKey('spki', this.keyPair.publicKey));
+    const peerKey = new Uint8Array(await crypto.subtle.exportKey('spki', this.peerPublicKey));
+    const [first, second] = compareBytes(ownKey, peerKey) <= 0 ? [ownKey, peerKey] : [peerKey, ownKey];
+
+    const encoder = new TextEncoder();
+    const digest = await crypto.subtle.digest('SHA-256', concatWithLengths([
+      encoder.encode('PairQR-SAS-v1'),
+      encoder.encode(sessionId),
+      first,
+      second
+    ]));
+    return sasFromBytes(new Uint8Array(digest));
+  }
+
   cleanup(): void {
     this.keyPair = null;
     this.sharedSecret = null;
     this.aesKey = null;
+    this.peerPublicKey = null;
+    this.sendChain?.destroy();
+    this.receiveChain?.destroy();
+    this.sendChain = null;
+    this.receiveChain = null;
+    this.sendConfirmKey = null;
+    this.receiveConfirmKey = null;
+    this.clearKem();
   }
 
+  // Whether key agreement has run, whichever protocol then keys the session
   isReady(): boolean {
-    return this.aesKey !== null;
+    return this.sharedSecret !== null || this.aesKey !== null || this.hasSessionKeys();
   }
 }
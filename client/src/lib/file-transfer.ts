@@ -0,0 +1,970 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { generateSecureUUID, uuidToBytes, bytesToUuid } from './uuid';
+import { createZipStream, type ZipEntry } from './zip-stream';
+import { openDiskStream, saveStream, supportsStreamingToDisk } from './save-stream';
+import { safeRelativePath, type PickedFolder } from './file-tree';
+import {
+  isTransferStoreAvailable,
+  savePartial,
+  putChunk,
+  getStoredChunkIndices,
+  readStoredFile,
+  deletePartial
+} from './transfer-store';
+import type {
+  ChunkRange,
+  FileAckEnvelope,
+  FileCancelEnvelope,
+  FileEnvelope,
+  FileRequestEnvelope
+} from '@shared/protocol';
+import type { BatchManifest, FileBatch, FileDestination, FileManifest, FileTransfer } from '../types';
+
+// Plaintext bytes per chunk; keeps every sealed frame under the 16 KiB SCTP
+// message size that all browsers interoperate with, so chunks never fragment
+export const FILE_CHUNK_SIZE = 16 * 1024 - 64;
+
+// Chunk body inside a FileChunk frame: [16-byte transfer id][4-byte chunk index][data]
+const CHUNK_HEADER_SIZE = 20;
+
+// Pause sending above the high water mark, resume once the channel drains below the threshold
+const BUFFER_HIGH_WATER_MARK = 4 * 1024 * 1024;
+const BUFFER_LOW_THRESHOLD = 1024 * 1024;
+
+// Minimum delay between progress events so large files don't flood React with updates
+const PROGRESS_INTERVAL_MS = 200;
+
+// The receiver acknowledges after this many new chunks (and always on completion)
+const ACK_EVERY_CHUNKS = 32;
+
+interface OutgoingTransfer {
+  file: File;
+  manifest: FileManifest;
+  state: FileTransfer;
+  acked: Uint8Array;
+  ackedCount: number;
+  requested: boolean;
+  pending: number[];
+  pumping: boolean;
+  // Settles once the receiver has acknowledged every chunk (or cancelled)
+  done: Promise<void>;
+  resolveDone: () => void;
+  rejectDone: (error: Error) => void;
+}
+
+interface IncomingTransfer {
+  manifest: FileManifest;
+  received: Uint8Array;
+  receivedCount: number;
+  bytesReceived: number;
+  unacked: number;
+  lastProgressAt: number;
+  destination: FileDestination;
+  // Only used when IndexedDB is unavailable (e.g. some private browsing modes)
+  memoryChunks?: ArrayBuffer[];
+  // Set when streaming to disk: chunks are appended in order and hashed as they go
+  sink?: WritableStreamDefaultWriter<Uint8Array>;
+  hasher?: ReturnType<typeof sha256.create>;
+}
+
+// An accepted batch being written straight into a ZIP on disk
+interface ZipBatch {
+  // Per file not started yet: hands its bytes to the ZIP, or null to leave it out
+  sources: Map<string, (source: ReadableStream<Uint8Array> | null) => void>;
+  abort: AbortController;
+}
+
+export async function hashBlob(blob: Blob): Promise<string> {
+  const hash = sha256.create();
+  const reader = blob.stream().getReader();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hash.update(value);
+  }
+
+  return bytesToHex(hash.digest());
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+// Batch paths come from the peer and end up in ZIP archives: refuse the
+// whole batch if any of them could escape the folder
+function sanitizeBatchManifest(manifest: BatchManifest): BatchManifest | null {
+  const directories: string[] = [];
+  for (const directory of manifest.directories) {
+    const path = safeRelativePath(directory);
+    if (!path) return null;
+    directories.push(path);
+  }
+
+  const entries: BatchManifest['entries'] = [];
+  for (const entry of manifest.entries) {
+    const path = safeRelativePath(entry.path);
+    if (!path) return null;
+    entries.push({ ...entry, path });
+  }
+
+  return { ...manifest, directories, entries };
+}
+
+function batchFromManifest(manifest: BatchManifest, direction: FileBatch['direction']): FileBatch {
+  return {
+    id: manifest.batchId,
+    name: manifest.name,
+    direction,
+    totalSize: manifest.totalSize,
+    directories: manifest.directories,
+    files: manifest.entries.map(entry => ({
+      id: entry.transferId,
+      name: entry.path.split('/').pop() || entry.path,
+      size: entry.size,
+      mimeType: 'application/octet-stream',
+      direction,
+      status: 'preparing',
+      bytesTransferred: 0,
+      batchId: manifest.batchId,
+      path: entry.path
+    })),
+    status: direction === 'incoming' ? 'offered' : undefined
+  };
+}
+
+/**
+ * Stream every completed file of a received batch into a ZIP on disk,
+ * preserving the folder structure. Must be called from a user gesture.
+ */
+export async function saveBatchAsZip(batch: FileBatch): Promise<boolean> {
+  const entries: ZipEntry[] = [
+    ...batch.directories.map(path => ({ path })),
+    ...batch.files
+      .filter(file => file.status === 'complete' && file.url)
+      .map(file => ({
+        path: file.path || file.name,
+        open: async () => {
+          const response = await fetch(file.url!);
+          if (!response.body) throw new Error(`Cannot read ${file.name}`);
+          return response.body;
+        }
+      }))
+  ];
+
+  return await saveStream(() => createZipStream(entries), `${batch.name}.zip`, 'application/zip');
+}
+
+function chunkLength(manifest: FileManifest, index: number): number {
+  return Math.min(manifest.chunkSize, manifest.size - index * manifest.chunkSize);
+}
+
+// Collapse a per-chunk bitmap into ranges of chunks whose flag equals `value`
+function bitmapToRanges(bitmap: Uint8Array, value: number): ChunkRange[] {
+  const ranges: ChunkRange[] = [];
+  let start = -1;
+
+  for (let i = 0; i <= bitmap.length; i++) {
+    const matches = i < bitmap.length && bitmap[i] === value;
+    if (matches && start === -1) {
+      start = i;
+    } else if (!matches && start !== -1) {
+      ranges.push([start, i]);
+      start = -1;
+    }
+  }
+  return ranges;
+}
+
+export class FileTransferManager {
+  private outgoing = new Map<string, OutgoingTransfer>();
+  private incoming = new Map<string, IncomingTransfer>();
+  private objectUrls: string[] = [];
+  // Manifests the user hasn't accepted or declined yet
+  private offers = new Map<string, FileManifest>();
+  // Received batch manifests, with their paths checked
+  private batches = new Map<string, BatchManifest>();
+  private acceptedBatches = new Set<string>();
+  private zipBatches = new Map<string, ZipBatch>();
+  // Batch ID -> why its files are refused
+  private declinedBatches = new Map<string, string>();
+
+  public onTransferUpdate?: (transfer: FileTransfer) => void;
+  public onBatchStart?: (batch: FileBatch) => void;
+  // A single file is waiting for acceptFile/declineFile; batch files follow their batch
+  public onIncomingOffer?: (transfer: FileTransfer) => void;
+
+  constructor(
+    private getChannel: () => RTCDataChannel | null,
+    private sendEnvelope: (envelope: FileEnvelope) => Promise<void>,
+    // Seals and sends one chunk body as a FileChunk frame
+    private sendChunk: (body: Uint8Array) => Promise<void>
+  ) {}
+
+  async sendFile(
+    file: File,
+    options: { transferId?: string; batchId?: string; path?: string } = {}
+  ): Promise<string> {
+    const transferId = options.transferId || generateSecureUUID();
+    const state: FileTransfer = {
+      id: transferId,
+      name: file.name,
+      size: file.size,
+      mimeType: file.type || 'application/octet-stream',
+      direction: 'outgoing',
+      status: 'preparing',
+      bytesTransferred: 0,
+      batchId: options.batchId,
+      path: options.path
+    };
+    this.onTransferUpdate?.({ ...state });
+
+    try {
+      const manifest: FileManifest = {
+        transferId,
+        name: file.name,
+        size: file.size,
+        mimeType: state.mimeType,
+        sha256: await hashBlob(file),
+        chunkSize: FILE_CHUNK_SIZE,
+        totalChunks: Math.ceil(file.size / FILE_CHUNK_SIZE),
+        batchId: options.batchId,
+        path: options.path
+      };
+
+      let resolveDone!: () => void;
+      let rejectDone!: (error: Error) => void;
+      const done = new Promise<void>((resolve, reject) => {
+        resolveDone = resolve;
+        rejectDone = reject;
+      });
+      // Callers that don't wait for completion shouldn't see unhandled rejections
+      done.catch(() => undefined);
+
+      // Chunks only flow once the receiver answers with a file-request
+      // naming the ranges it still needs
+      this.outgoing.set(transferId, {
+        file,
+        manifest,
+        state,
+        acked: new Uint8Array(manifest.totalChunks),
+        ackedCount: 0,
+        requested: false,
+        pending: [],
+        pumping: false,
+        done,
+        resolveDone,
+        rejectDone
+      });
+
+      await this.sendEnvelope({ type: 'file-manifest', manifest });
+
+      state.status = 'offered';
+      this.onTransferUpdate?.({ ...state });
+    } catch (error) {
+      this.outgoing.delete(transferId);
+      state.status = 'failed';
+      state.error = error instanceof Error ? error.message : 'Transfer failed';
+      this.onTransferUpdate?.({ ...state });
+      throw error;
+    }
+
+    return transferId;
+  }
+
+  /**
+   * Send a whole folder: the tree manifest goes first so the receiver can
+   * show every entry up front, then files stream one after another.
+   */
+  async sendBatch(folder: PickedFolder): Promise<string> {
+    const batchId = generateSecureUUID();
+    const manifest: BatchManifest = {
+      batchId,
+      name: folder.name,
+      totalSize: folder.files.reduce((sum, { file }) => sum + file.size, 0),
+      directories: folder.directories,
+      entries: folder.files.map(({ file, path }) => ({
+        transferId: generateSecureUUID(),
+        path,
+        size: file.size
+      }))
+    };
+
+    this.onBatchStart?.(batchFromManifest(manifest, 'outgoing'));
+    await this.sendEnvelope({ type: 'file-batch', batch: manifest });
+
+    for (let i = 0; i < folder.files.length; i++) {
+      const { transferId, path } = manifest.entries[i];
+      try {
+        await this.sendFile(folder.files[i].file, { transferId, batchId, path });
+      } catch (error) {
+        // The channel is gone; mark what never started so the batch doesn't look stuck
+        for (const skipped of batchFromManifest(manifest, 'outgoing').files.slice(i + 1)) {
+          this.onTransferUpdate?.({ ...skipped, status: 'failed', error: 'Not sent' });
+        }
+        throw error;
+      }
+      // A failed file doesn't stop the rest of the folder
+      await this.outgoing.get(transferId)?.done.catch(() => undefined);
+    }
+
+    return batchId;
+  }
+
+  async handleEnvelope(envelope: FileEnvelope): Promise<void> {
+    switch (envelope.type) {
+      case 'file-batch': {
+        const batch = sanitizeBatchManifest(envelope.batch);
+        if (!batch) {
+          console.warn('Refusing folder with unsafe paths:', envelope.batch.name);
+          this.declinedBatches.set(envelope.batch.batchId, 'Folder contains unsafe file paths');
+          break;
+        }
+        this.batches.set(batch.batchId, batch);
+        this.onBatchStart?.(batchFromManifest(batch, 'incoming'));
+        break;
+      }
+      case 'file-manifest':
+        await this.handleManifest(envelope.manifest);
+        break;
+      case 'file-request':
+        await this.handleRequest(envelope);
+        break;
+      case 'file-ack':
+        this.handleAck(envelope);
+        break;
+      case 'file-cancel':
+        await this.handleCancel(envelope);
+        break;
+    }
+  }
+
+  /**
+   * Accept an offered file. With 'disk' the destination is opened first (a
+   * save picker or a streaming download), so this must run from a user
+   * gesture. Resolves to false if the user dismissed the picker, in which
+   * case the offer stays open.
+   */
+  async acceptFile(transferId: string, destination: FileDestination): Promise<boolean> {
+    const manifest = this.offers.get(transferId);
+    if (!manifest) {
+      throw new Error('This file is no longer on offer');
+    }
+
+    let sink: WritableStream<Uint8Array> | null = null;
+    if (destination === 'disk') {
+      if (!supportsStreamingToDisk()) {
+        throw new Error('This browser cannot save directly to disk');
+      }
+      sink = await openDiskStream(manifest.name, manifest.mimeType, manifest.size);
+      if (!sink) return false;
+    }
+
+    // The sender may have cancelled while the picker was open
+    if (!this.offers.delete(transferId)) {
+      await sink?.abort('Transfer cancelled').catch(() => undefined);
+      return false;
+    }
+
+    await this.startIncoming(manifest, destination, sink?.getWriter());
+    return true;
+  }
+
+  async declineFile(transferId: string): Promise<void> {
+    const manifest = this.offers.get(transferId);
+    if (!manifest) return;
+
+    this.offers.delete(transferId);
+    await this.rejectOffer(manifest, 'Declined by recipient');
+  }
+
+  /**
+   * Accept an offered folder. With 'disk' its files stream into a ZIP on
+   * disk as their chunks arrive, so this must run from a user gesture;
+   * resolves to false if the user dismissed the picker. With 'browser' the
+   * files go to browser storage and are zipped once they are all in.
+   */
+  async acceptBatch(batchId: string, destination: FileDestination): Promise<boolean> {
+    if (destination === 'disk') {
+      const batch = this.batches.get(batchId);
+      if (!batch) {
+        throw new Error('This folder is no longer on offer');
+      }
+      if (!supportsStreamingToDisk()) {
+        throw new Error('This browser cannot save directly to disk');
+      }
+      const sink = await openDiskStream(`${batch.name}.zip`, 'application/zip');
+      if (!sink) return false;
+      this.streamBatchToZip(batch, sink);
+    } else {
+      this.acceptedBatches.add(batchId);
+    }
+
+    for (const manifest of Array.from(this.offers.values())) {
+      if (manifest.batchId === batchId) {
+        this.offers.delete(manifest.transferId);
+        await this.startBatchFile(manifest);
+      }
+    }
+    return true;
+  }
+
+  async declineBatch(batchId: string): Promise<void> {
+    this.declinedBatches.set(batchId, 'Declined by recipient');
+    for (const manifest of Array.from(this.offers.values())) {
+      if (manifest.batchId === batchId) {
+        await this.declineFile(manifest.transferId);
+      }
+    }
+  }
+
+  // `body` is the decrypted payload of a FileChunk frame
+  async handleChunk(body: Uint8Array): Promise<void> {
+    if (body.byteLength < CHUNK_HEADER_SIZE) {
+      throw new Error('Malformed file chunk');
+    }
+
+    const transferId = bytesToUuid(body.subarray(0, 16));
+    const index = new DataView(body.buffer, body.byteOffset).getUint32(16);
+
+    const incoming = this.incoming.get(transferId);
+    if (!incoming) {
+      console.warn('Dropping chunk for unknown transfer:', transferId);
+      return;
+    }
+    if (index >= incoming.manifest.totalChunks || incoming.received[index]) {
+      return;
+    }
+    // A disk stream is append-only. The channel is ordered and requests
+    // always start at the first missing chunk, so anything else is stale.
+    if (incoming.sink && index !== incoming.receivedCount) {
+      return;
+    }
+
+    const plaintext = body.slice(CHUNK_HEADER_SIZE).buffer;
+    if (incoming.sink) {
+      const chunk = new Uint8Array(plaintext);
+      incoming.hasher!.update(chunk);
+      try {
+        await incoming.sink.write(chunk);
+      } catch (error) {
+        await this.abortIncoming(incoming, error instanceof Error ? error.message : 'Could not write to disk');
+        return;
+      }
+    } else if (incoming.memoryChunks) {
+      incoming.memoryChunks[index] = plaintext;
+    } else {
+      await putChunk(incoming.manifest.transferId, index, plaintext);
+    }
+
+    incoming.received[index] = 1;
+    incoming.receivedCount++;
+    incoming.bytesReceived += plaintext.byteLength;
+    incoming.unacked++;
+
+    const isComplete = incoming.receivedCount === incoming.manifest.totalChunks;
+    if (isComplete || incoming.unacked >= ACK_EVERY_CHUNKS) {
+      await this.sendAck(incoming);
+    }
+
+    if (isComplete) {
+      await this.finalize(incoming);
+    } else if (Date.now() - incoming.lastProgressAt >= PROGRESS_INTERVAL_MS) {
+      incoming.lastProgressAt = Date.now();
+      this.emitIncoming(incoming, 'transferring');
+    }
+  }
+
+  /**
+   * Called whenever the data channel (re)opens. Receivers ask again for
+   * whatever they are missing; senders re-announce manifests that never got
+   * an answer because the channel dropped first.
+   */
+  async resume(): Promise<void> {
+    for (const incoming of Array.from(this.incoming.values())) {
+      this.emitIncoming(incoming, 'transferring');
+      await this.sendRequest(incoming);
+    }
+
+    for (const outgoing of Array.from(this.outgoing.values())) {
+      if (!outgoing.requested) {
+        await this.sendEnvelope({ type: 'file-manifest', manifest: outgoing.manifest });
+      }
+    }
+  }
+
+  /**
+   * Called when the data channel drops. Nothing is discarded: outgoing files
+   * stay referenced and partial incoming data stays in IndexedDB.
+   */
+  pause(): void {
+    for (const outgoing of Array.from(this.outgoing.values())) {
+      outgoing.pending = [];
+      this.emitOutgoing(outgoing, 'paused');
+    }
+    for (const incoming of Array.from(this.incoming.values())) {
+      this.emitIncoming(incoming, 'paused');
+    }
+  }
+
+  cleanup(): void {
+    // Let a batch that is waiting on a file stop instead of hanging forever
+    this.outgoing.forEach(outgoing => outgoing.rejectDone(new Error('Session ended')));
+    this.outgoing.clear();
+    // Half-written disk files are discarded rather than left looking complete
+    this.incoming.forEach(incoming => {
+      incoming.sink?.abort('Session ended').catch(() => undefined);
+    });
+    this.incoming.clear();
+    this.offers.clear();
+    // Forgotten before they are aborted, so the abort isn't reported file by file
+    const zipBatches = Array.from(this.zipBatches.values());
+    this.zipBatches.clear();
+    zipBatches.forEach(zip => zip.abort.abort(new Error('Session ended')));
+    this.batches.clear();
+    this.acceptedBatches.clear();
+    this.declinedBatches.clear();
+    this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+    this.objectUrls = [];
+  }
+
+  private async handleManifest(received: FileManifest): Promise<void> {
+    let manifest = received;
+    const { transferId, batchId } = manifest;
+
+    // Re-announced after a reconnect: just ask for what is still missing
+    const existing = this.incoming.get(transferId);
+    if (existing) {
+      await this.sendRequest(existing);
+      return;
+    }
+    if (this.offers.has(transferId)) return;
+
+    if (batchId) {
+      const declined = this.declinedBatches.get(batchId);
+      if (declined) {
+        await this.rejectOffer(manifest, declined);
+        return;
+      }
+      // A batch file is saved under the path its checked batch manifest gave it
+      const entry = this.batches.get(batchId)?.entries.find(e => e.transferId === transferId);
+      if (!entry) {
+        await this.rejectOffer(manifest, 'Not part of an offered folder');
+        return;
+      }
+      manifest = { ...manifest, path: entry.path };
+    }
+
+    if (batchId && (this.acceptedBatches.has(batchId) || this.zipBatches.has(batchId))) {
+      await this.startBatchFile(manifest);
+      return;
+    }
+    this.offers.set(transferId, manifest);
+
+    // Nothing is requested or written until the user accepts
+    const offer = this.incomingState(manifest, 'offered', 0);
+    this.onTransferUpdate?.(offer);
+    if (!batchId) {
+      this.onIncomingOffer?.(offer);
+    }
+  }
+
+  // A file of an accepted batch: into its ZIP entry, or browser storage to be zipped later
+  private async startBatchFile(manifest: FileManifest): Promise<void> {
+    const zip = this.zipBatches.get(manifest.batchId!);
+    if (!zip) {
+      await this.startIncoming(manifest, 'browser');
+      return;
+    }
+
+    const provide = zip.sources.get(manifest.transferId);
+    if (!provide) {
+      await this.rejectOffer(manifest, 'Not part of an offered folder');
+      return;
+    }
+    zip.sources.delete(manifest.transferId);
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    provide(readable);
+    await this.startIncoming(manifest, 'disk', writable.getWriter());
+  }
+
+  /**
+   * Pipe a ZIP of the batch into `sink`. The sender sends files one after
+   * another, so each entry is read as its file arrives. If the ZIP can't be
+   * finished, files still to come are refused.
+   */
+  private streamBatchToZip(batch: BatchManifest, sink: WritableStream<Uint8Array>): void {
+    const zip: ZipBatch = { sources: new Map(), abort: new AbortController() };
+    const entries: ZipEntry[] = [
+      ...batch.directories.map(path => ({ path })),
+      ...batch.entries.map(entry => {
+        // Created up front: a file's manifest can arrive before the ZIP reaches its entry
+        const source = new Promise<ReadableStream<Uint8Array> | null>(resolve => {
+          zip.sources.set(entry.transferId, resolve);
+        });
+        return { path: entry.path, open: () => source };
+      })
+    ];
+    this.zipBatches.set(batch.batchId, zip);
+
+    createZipStream(entries).pipeTo(sink, { signal: zip.abort.signal })
+      .then(() => {
+        this.zipBatches.delete(batch.batchId);
+      })
+      .catch((error) => {
+        // Gone already if the session ended
+        if (this.zipBatches.get(batch.batchId) !== zip) return;
+        this.zipBatches.delete(batch.batchId);
+        this.failZipBatch(batch, zip, error instanceof Error ? error.message : String(error || 'Could not write the ZIP'))
+          .catch(() => undefined);
+      });
+  }
+
+  private async failZipBatch(batch: BatchManifest, zip: ZipBatch, reason: string): Promise<void> {
+    this.declinedBatches.set(batch.batchId, reason);
+
+    for (const file of batchFromManifest(batch, 'incoming').files) {
+      if (zip.sources.has(file.id)) {
+        this.onTransferUpdate?.({ ...file, status: 'failed', error: reason });
+      }
+    }
+    zip.sources.forEach(provide => provide(null));
+    zip.sources.clear();
+
+    for (const incoming of Array.from(this.incoming.values())) {
+      if (incoming.manifest.batchId === batch.batchId) {
+        await this.abortIncoming(incoming, reason);
+      }
+    }
+  }
+
+  private async startIncoming(
+    manifest: FileManifest,
+    destination: FileDestination,
+    sink?: WritableStreamDefaultWriter<Uint8Array>
+  ): Promise<void> {
+    const incoming: IncomingTransfer = {
+      manifest,
+      received: new Uint8Array(manifest.totalChunks),
+      receivedCount: 0,
+      bytesReceived: 0,
+      unacked: 0,
+      lastProgressAt: 0,
+      destination
+    };
+
+    if (sink) {
+      incoming.sink = sink;
+      incoming.hasher = sha256.create();
+      this.incoming.set(manifest.transferId, incoming);
+      this.emitIncoming(incoming, 'transferring');
+      await this.sendRequest(incoming);
+      return;
+    }
+
+    let stored: number[] = [];
+    try {
+      if (!isTransferStoreAvailable()) throw new Error('IndexedDB unavailable');
+      await savePartial({
+        transferId: manifest.transferId,
+        sha256: manifest.sha256,
+        name: manifest.name,
+        size: manifest.size,
+        updatedAt: Date.now()
+      }, transferId => this.incoming.has(transferId));
+      stored = await getStoredChunkIndices(manifest.transferId);
+    } catch (error) {
+      console.warn('Partial file storage unavailable, receiving in memory:', error);
+      incoming.memoryChunks = new Array(manifest.totalChunks);
+    }
+
+    // Chunks left over from an earlier, interrupted attempt at the same file
+    for (const index of stored) {
+      if (index < manifest.totalChunks && !incoming.received[index]) {
+        incoming.received[index] = 1;
+        incoming.receivedCount++;
+        incoming.bytesReceived += chunkLength(manifest, index);
+      }
+    }
+
+    this.incoming.set(manifest.transferId, incoming);
+    this.emitIncoming(incoming, 'transferring');
+
+    if (incoming.receivedCount === manifest.totalChunks) {
+      await this.sendAck(incoming);
+      await this.finalize(incoming);
+    } else {
+      await this.sendRequest(incoming);
+    }
+  }
+
+  private async handleRequest(request: FileRequestEnvelope): Promise<void> {
+    const outgoing = this.outgoing.get(request.transferId);
+    if (!outgoing) {
+      await this.sendEnvelope({
+        type: 'file-cancel',
+        transferId: request.transferId,
+        reason: 'The sender no longer has this file'
+      });
+      return;
+    }
+
+    outgoing.requested = true;
+    outgoing.pending = [];
+    for (const [start, end] of request.ranges) {
+      for (let index = Math.max(0, start); index < Math.min(end, outgoing.manifest.totalChunks); index++) {
+        if (!outgoing.acked[index]) {
+          outgoing.pending.push(index);
+        }
+      }
+    }
+
+    this.emitOutgoing(outgoing, 'transferring');
+
+    // Don't hold up the receive queue while the file streams out
+    if (!outgoing.pumping) {
+      this.pump(outgoing).catch((error) => {
+        console.error('File send error:', error);
+      });
+    }
+  }
+
+  private handleAck(ack: FileAckEnvelope): void {
+    const outgoing = this.outgoing.get(ack.transferId);
+    if (!outgoing) return;
+
+    for (const [start, end] of ack.ranges) {
+      for (let index = Math.max(0, start); index < Math.min(end, outgoing.manifest.totalChunks); index++) {
+        if (!outgoing.acked[index]) {
+          outgoing.acked[index] = 1;
+          outgoing.ackedCount++;
+          outgoing.state.bytesTransferred += chunkLength(outgoing.manifest, index);
+        }
+      }
+    }
+
+    if (outgoing.ackedCount === outgoing.manifest.totalChunks) {
+      this.outgoing.delete(ack.transferId);
+      outgoing.state.bytesTransferred = outgoing.manifest.size;
+      this.emitOutgoing(outgoing, 'complete');
+      outgoing.resolveDone();
+    } else {
+      this.emitOutgoing(outgoing, outgoing.state.status);
+    }
+  }
+
+  private async handleCancel(cancel: FileCancelEnvelope): Promise<void> {
+    const offer = this.offers.get(cancel.transferId);
+    if (offer) {
+      this.offers.delete(cancel.transferId);
+      this.onTransferUpdate?.(this.incomingState(offer, 'failed', 0, { error: cancel.reason }));
+    }
+
+    const incoming = this.incoming.get(cancel.transferId);
+    if (incoming) {
+      this.incoming.delete(cancel.transferId);
+      if (incoming.sink) {
+        await incoming.sink.abort(cancel.reason).catch(() => undefined);
+      } else if (!incoming.memoryChunks) {
+        await deletePartial(incoming.manifest.transferId).catch(() => undefined);
+      }
+      this.emitIncoming(incoming, 'failed', { error: cancel.reason });
+    }
+
+    const outgoing = this.outgoing.get(cancel.transferId);
+    if (outgoing) {
+      this.outgoing.delete(cancel.transferId);
+      outgoing.state.error = cancel.reason;
+      this.emitOutgoing(outgoing, 'failed');
+      outgoing.rejectDone(new Error(cancel.reason));
+    }
+  }
+
+  private async pump(outgoing: OutgoingTransfer): Promise<void> {
+    outgoing.pumping = true;
+    const idBytes = uuidToBytes(outgoing.manifest.transferId);
+
+    try {
+      while (outgoing.pending.length > 0) {
+        const channel = this.getChannel();
+        if (!channel || channel.readyState !== 'open') {
+          // The receiver asks for the remainder once the channel is back
+          this.emitOutgoing(outgoing, 'paused');
+          return;
+        }
+
+        const index = outgoing.pending.shift()!;
+        if (outgoing.acked[index]) continue;
+
+        const start = index * outgoing.manifest.chunkSize;
+        const data = await outgoing.file.slice(start, start + outgoing.manifest.chunkSize).arrayBuffer();
+
+        const body = new Uint8Array(CHUNK_HEADER_SIZE + data.byteLength);
+        body.set(idBytes, 0);
+        new DataView(body.buffer).setUint32(16, index);
+        body.set(new Uint8Array(data), CHUNK_HEADER_SIZE);
+
+        try {
+          await this.waitForDrain(channel);
+          await this.sendChunk(body);
+        } catch {
+          this.emitOutgoing(outgoing, 'paused');
+          return;
+        }
+      }
+    } finally {
+      outgoing.pumping = false;
+    }
+  }
+
+  private async sendRequest(incoming: IncomingTransfer): Promise<void> {
+    await this.sendEnvelope({
+      type: 'file-request',
+      transferId: incoming.manifest.transferId,
+      ranges: bitmapToRanges(incoming.received, 0)
+    });
+  }
+
+  private async sendAck(incoming: IncomingTransfer): Promise<void> {
+    incoming.unacked = 0;
+    await this.sendEnvelope({
+      type: 'file-ack',
+      transferId: incoming.manifest.transferId,
+      ranges: bitmapToRanges(incoming.received, 1)
+    });
+  }
+
+  private async rejectOffer(manifest: FileManifest, reason: string): Promise<void> {
+    this.onTransferUpdate?.(this.incomingState(manifest, 'failed', 0, { error: reason }));
+    await this.sendEnvelope({ type: 'file-cancel', transferId: manifest.transferId, reason });
+  }
+
+  // Stop a transfer we can no longer store and tell the sender why
+  private async abortIncoming(incoming: IncomingTransfer, reason: string): Promise<void> {
+    this.incoming.delete(incoming.manifest.transferId);
+    await incoming.sink?.abort(reason).catch(() => undefined);
+    this.emitIncoming(incoming, 'failed', { error: reason });
+
+    await this.sendEnvelope({ type: 'file-cancel', transferId: incoming.manifest.transferId, reason })
+      .catch(() => undefined);
+  }
+
+  private async finalize(incoming: IncomingTransfer): Promise<void> {
+    const { manifest } = incoming;
+    this.incoming.delete(manifest.transferId);
+
+    if (incoming.sink) {
+      // The bytes are already on disk; only the running hash is left to check
+      if (incoming.bytesReceived !== manifest.size || bytesToHex(incoming.hasher!.digest()) !== manifest.sha256) {
+        await incoming.sink.abort('Integrity check failed').catch(() => undefined);
+        this.emitIncoming(incoming, 'failed', { error: 'Integrity check failed' });
+        return;
+      }
+
+      try {
+        await incoming.sink.close();
+      } catch (error) {
+        this.emitIncoming(incoming, 'failed', {
+          error: error instanceof Error ? error.message : 'Could not write to disk'
+        });
+        return;
+      }
+      this.emitIncoming(incoming, 'complete');
+      return;
+    }
+
+    const blob = incoming.memoryChunks
+      ? new Blob(incoming.memoryChunks, { type: manifest.mimeType })
+      : await readStoredFile(manifest.transferId, manifest.mimeType);
+
+    if (incoming.memoryChunks) {
+      incoming.memoryChunks = undefined;
+    } else {
+      await deletePartial(manifest.transferId).catch(() => undefined);
+    }
+
+    if (blob.size !== manifest.size || await hashBlob(blob) !== manifest.sha256) {
+      this.emitIncoming(incoming, 'failed', { error: 'Integrity check failed' });
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    this.objectUrls.push(url);
+    this.emitIncoming(incoming, 'complete', { url });
+  }
+
+  private emitOutgoing(outgoing: OutgoingTransfer, status: FileTransfer['status']): void {
+    outgoing.state.status = status;
+    this.onTransferUpdate?.({ ...outgoing.state });
+  }
+
+  private emitIncoming(
+    incoming: IncomingTransfer,
+    status: FileTransfer['status'],
+    extra: Partial<FileTransfer> = {}
+  ): void {
+    const { manifest } = incoming;
+    this.onTransferUpdate?.(this.incomingState(
+      manifest,
+      status,
+      status === 'complete' ? manifest.size : incoming.bytesReceived,
+      { destination: incoming.destination, ...extra }
+    ));
+  }
+
+  private incomingState(
+    manifest: FileManifest,
+    status: FileTransfer['status'],
+    bytesTransferred: number,
+    extra: Partial<FileTransfer> = {}
+  ): FileTransfer {
+    return {
+      id: manifest.transferId,
+      name: manifest.name,
+      size: manifest.size,
+      mimeType: manifest.mimeType,
+      direction: 'incoming',
+      status,
+      bytesTransferred,
+      batchId: manifest.batchId,
+      path: manifest.path,
+      ...extra
+    };
+  }
+
+  private waitForDrain(channel: RTCDataChannel): Promise<void> {
+    if (channel.bufferedAmount <= BUFFER_HIGH_WATER_MARK) {
+      return Promise.resolve();
+    }
+
+    channel.bufferedAmountLowThreshold = BUFFER_LOW_THRESHOLD;
+
+    return new Promise((resolve, reject) => {
+      const onLow = () => {
+        cleanup();
+        resolve();
+      };
+      const onClose = () => {
+        cleanup();
+        reject(new Error('Data channel closed during transfer'));
+      };
+      const cleanup = () => {
+        channel.removeEventListener('bufferedamountlow', onLow);
+        channel.removeEventListener('close', onClose);
+      };
+
+      channel.addEventListener('bufferedamountlow', onLow);
+      channel.addEventListener('close', onClose);
+    });
+  }
+}
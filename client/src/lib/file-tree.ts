@@ -0,0 +1,122 @@
+/**
+ * Helpers for turning picked or dropped folders into a flat list of files
+ * with their paths relative to the folder root.
+ */
+
+export interface PickedFile {
+  file: File;
+  path: string;
+}
+
+export interface PickedFolder {
+  name: string;
+  files: PickedFile[];
+  // Every directory in the tree, including empty ones, relative to the root
+  directories: string[];
+}
+
+/**
+ * A peer-supplied path as a safe relative path, or null if it could escape
+ * the folder it is extracted into (Zip Slip). Absolute paths, drive letters,
+ * backslashes and `..` segments are refused; `.` and empty segments dropped.
+ */
+export function safeRelativePath(path: string): string | null {
+  if (path.startsWith('/') || path.includes('\\') || path.includes('\0')) return null;
+  const segments = path.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.some(segment => segment === '..' || /^[A-Za-z]:/.test(segment))) {
+    return null;
+  }
+  return segments.join('/');
+}
+
+function parentDirectories(path: string): string[] {
+  const parts = path.split('/').slice(0, -1);
+  return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+}
+
+// Files from an <input webkitdirectory> carry their path in webkitRelativePath
+export function folderFromFileList(fileList: FileList | File[]): PickedFolder | null {
+  const files = Array.from(fileList);
+  if (files.length === 0) return null;
+
+  const rootName = (files[0].webkitRelativePath || files[0].name).split('/')[0];
+  const directories = new Set<string>();
+  const picked = files.map((file) => {
+    const path = file.webkitRelativePath || `${rootName}/${file.name}`;
+    parentDirectories(path).forEach(dir => directories.add(dir));
+    return { file, path };
+  });
+
+  return { name: rootName, files: picked, directories: Array.from(directories).sort() };
+}
+
+function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  // readEntries returns results in batches until it yields an empty one
+  return new Promise((resolve, reject) => {
+    const readBatch = () => {
+      reader.readEntries((batch) => {
+        if (batch.length === 0) {
+          resolve(entries);
+        } else {
+          entries.push(...batch);
+          readBatch();
+        }
+      }, reject);
+    };
+    readBatch();
+  });
+}
+
+function entryToFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function walkDirectory(root: FileSystemDirectoryEntry): Promise<PickedFolder> {
+  const folder: PickedFolder = { name: root.name, files: [], directories: [root.name] };
+  const queue: Array<{ entry: FileSystemDirectoryEntry; path: string }> = [{ entry: root, path: root.name }];
+
+  while (queue.length > 0) {
+    const { entry, path } = queue.shift()!;
+    for (const child of await readAllEntries(entry)) {
+      const childPath = `${path}/${child.name}`;
+      if (child.isDirectory) {
+        folder.directories.push(childPath);
+        queue.push({ entry: child as FileSystemDirectoryEntry, path: childPath });
+      } else if (child.isFile) {
+        folder.files.push({ file: await entryToFile(child as FileSystemFileEntry), path: childPath });
+      }
+    }
+  }
+
+  folder.directories.sort();
+  return folder;
+}
+
+/**
+ * Split a drop into loose files and whole folders. Must be called
+ * synchronously from the drop handler: DataTransferItems are only readable
+ * while the event is being dispatched.
+ */
+export async function readDroppedItems(
+  items: DataTransferItemList
+): Promise<{ files: File[]; folders: PickedFolder[] }> {
+  const entries = Array.from(items)
+    .filter(item => item.kind === 'file')
+    .map(item => ({ entry: item.webkitGetAsEntry?.() ?? null, file: item.getAsFile() }));
+
+  const files: File[] = [];
+  const folders: PickedFolder[] = [];
+
+  for (const { entry, file } of entries) {
+    if (entry?.isDirectory) {
+      folders.push(await walkDirectory(entry as FileSystemDirectoryEntry));
+    } else if (file) {
+      files.push(file);
+    }
+  }
+
+  return { files, folders };
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { FountainEncoder, FountainFrameCollector, MAX_FOUNTAIN_DATA, isFountainFrame } from './fountain';
+
+// Three full blocks and a partial one
+const DATA_LENGTH = 3 * 200 + 37;
+
+function testData(length: number, salt = 0): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 31 + salt) % 256);
+}
+
+// Feeds frames the camera "sees" until the collector is done; gives up well
+// past the overhead an LT code needs
+function scan(
+  encoder: FountainEncoder,
+  collector: FountainFrameCollector,
+  sees: (frameNumber: number) => boolean = () => true
+): number {
+  let shown = 0;
+  while (!collector.isComplete()) {
+    if (shown > 50 * encoder.blockCount) throw new Error('Stream never completed');
+    const frame = encoder.nextFrame();
+    if (sees(shown++)) collector.add(frame);
+  }
+  return shown;
+}
+
+describe('FountainFrameCollector', () => {
+  it('rebuilds data ending in a partial block', () => {
+    const data = testData(DATA_LENGTH);
+    const encoder = new FountainEncoder(data);
+    const collector = new FountainFrameCollector();
+    expect(encoder.blockCount).toBe(4);
+
+    scan(encoder, collector);
+    expect(collector.total).toBe(4);
+    expect(collector.received).toBe(4);
+    expect(collector.result()).toEqual(data);
+  });
+
+  it('rebuilds data when most frames are missed', () => {
+    const data = testData(20 * 200 + 1);
+    const encoder = new FountainEncoder(data);
+    const collector = new FountainFrameCollector();
+
+    // Two frames in three never make it
+    scan(encoder, collector, frameNumber => frameNumber % 3 === 0);
+    expect(collector.result()).toEqual(data);
+  });
+
+  it('ignores frames it has already seen', () => {
+    const encoder = new FountainEncoder(testData(DATA_LENGTH));
+    const collector = new FountainFrameCollector();
+    const frame = encoder.nextFrame();
+
+    expect(collector.add(frame)).toBe(true);
+    const received = collector.received;
+    expect(collector.add(frame)).toBe(false);
+    expect(collector.received).toBe(received);
+  });
+
+  it('keeps progress below the total until the data is back', () => {
+    const data = testData(10 * 200);
+    const encoder = new FountainEncoder(data);
+    const collector = new FountainFrameCollector();
+
+    let last = 0;
+    while (!collector.isComplete()) {
+      expect(collector.result()).toBeNull();
+      collector.add(encoder.nextFrame());
+      expect(collector.received).toBeGreaterThanOrEqual(last);
+      expect(collector.received).toBeLessThanOrEqual(collector.total);
+      last = collector.received;
+    }
+    expect(collector.received).toBe(10);
+  });
+
+  it('starts over when a new stream appears mid-scan', () => {
+    const first = new FountainEncoder(testData(DATA_LENGTH, 1));
+    const secondData = testData(DATA_LENGTH, 2);
+    const second = new FountainEncoder(secondData);
+    const collector = new FountainFrameCollector();
+
+    collector.add(first.nextFrame());
+    collector.add(first.nextFrame());
+
+    scan(second, collector);
+    expect(collector.result()).toEqual(secondData);
+  });
+
+  it('rejects frames that are not fountain frames or are malformed', () => {
+    const collector = new FountainFrameCollector();
+    const frame = new FountainEncoder(testData(DATA_LENGTH)).nextFrame();
+    const [prefix, streamId, length, seed] = frame.split(':');
+
+    expect(collector.add('PQR1:abc:0:1:AAAA')).toBe(false);
+    expect(collector.add(`${prefix}:${streamId}:${length}:${seed}:AAAA`)).toBe(false);
+    expect(collector.add(frame.replace(`:${length}:`, `:${MAX_FOUNTAIN_DATA + 1}:`))).toBe(false);
+    expect(collector.total).toBe(0);
+  });
+
+  it('forgets the stream on reset', () => {
+    const encoder = new FountainEncoder(testData(DATA_LENGTH));
+    const collector = new FountainFrameCollector();
+    const frame = encoder.nextFrame();
+    scan(encoder, collector);
+
+    collector.reset();
+    expect(collector.isComplete()).toBe(false);
+    expect(collector.total).toBe(0);
+    // A frame seen before counts again
+    expect(collector.add(frame)).toBe(true);
+  });
+});
+
+describe('FountainEncoder', () => {
+  it('refuses empty and oversized data', () => {
+    expect(() => new FountainEncoder(new Uint8Array(0))).toThrow();
+    expect(() => new FountainEncoder(new Uint8Array(MAX_FOUNTAIN_DATA + 1))).toThrow();
+  });
+
+  it('makes frames the scanner recognises', () => {
+    const frame = new FountainEncoder(testData(DATA_LENGTH)).nextFrame();
+    expect(isFountainFrame(frame)).toBe(true);
+    expect(isFountainFrame('PQR1:abc')).toBe(false);
+  });
+});
@@ -0,0 +1,250 @@
+import { base64ToBytes, bytesToBase64, encodePairingSecret } from './crypto';
+import type { FrameCollector } from './qr-frames';
+
+/**
+ * Fountain-coded QR streams, using an LT code. The data is cut into equal
+ * blocks and every frame carries the XOR of a few of them, picked by the
+ * frame's seed. The sender can show new frames forever, and the receiver
+ * rebuilds the data from any set of them that is slightly larger than the
+ * block count. Frames the camera misses never have to come around again:
+ *
+ *   PQF1:<stream ID>:<data length>:<seed>:<base64 block>
+ */
+
+const FRAME_PREFIX = 'PQF1';
+
+// Base64 makes this 268 characters a frame, about what a PQR1 frame holds
+const BLOCK_SIZE = 200;
+
+// Far past anything worth filming a screen for
+export const MAX_FOUNTAIN_DATA = 64 * 1024;
+
+// Luby's robust soliton parameters: c and δ
+const SOLITON_C = 0.1;
+const SOLITON_DELTA = 0.5;
+
+const FRAME_PATTERN = /^PQF1:([A-Za-z0-9_-]{1,16}):(\d{1,9}):(\d{1,10}):([A-Za-z0-9+/=]+)$/;
+
+interface PendingFrame {
+  // Blocks still XORed into the data
+  blocks: Set<number>;
+  data: Uint8Array;
+}
+
+// mulberry32: tiny and identical everywhere, which is all the two sides
+// need to agree on which blocks a seed stands for
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Cumulative robust soliton distribution over degrees 1..blockCount
+function robustSoliton(blockCount: number): number[] {
+  const k = blockCount;
+  const r = SOLITON_C * Math.log(k / SOLITON_DELTA) * Math.sqrt(k);
+  const spike = Math.min(k, Math.max(1, Math.floor(k / r)));
+  const weights = Array.from({ length: k }, (_, i) => {
+    const degree = i + 1;
+    const ideal = degree === 1 ? 1 / k : 1 / (degree * (degree - 1));
+    let robust = 0;
+    if (degree < spike) {
+      robust = r / (degree * k);
+    } else if (degree === spike) {
+      // Negative for a handful of blocks, where the spike isn't needed
+      robust = Math.max(0, r * Math.log(r / SOLITON_DELTA) / k);
+    }
+    return ideal + robust;
+  });
+
+  const sum = weights.reduce((total, weight) => total + weight, 0);
+  let cumulative = 0;
+  return weights.map(weight => (cumulative += weight / sum));
+}
+
+// The blocks a frame's seed stands for
+function blocksForSeed(seed: number, distribution: number[]): number[] {
+  const random = seededRandom(seed);
+  const roll = random();
+  let degree = 1;
+  while (degree < distribution.length && distribution[degree - 1] < roll) {
+    degree++;
+  }
+
+  const blocks = new Set<number>();
+  while (blocks.size < degree) {
+    blocks.add(Math.floor(random() * distribution.length));
+  }
+  return Array.from(blocks);
+}
+
+function xorInto(target: Uint8Array, source: Uint8Array): void {
+  for (let i = 0; i < target.length; i++) {
+    target[i] ^= source[i];
+  }
+}
+
+export class FountainEncoder {
+  private readonly streamId = encodePairingSecret(crypto.getRandomValues(new Uint8Array(6)));
+  private readonly dataLength: number;
+  private readonly blocks: Uint8Array[];
+  private readonly distribution: number[];
+  private seed = crypto.getRandomValues(new Uint32Array(1))[0];
+
+  constructor(data: Uint8Array) {
+    if (data.length === 0 || data.length > MAX_FOUNTAIN_DATA) {
+      throw new Error('Too much data for a QR stream');
+    }
+    this.dataLength = data.length;
+    // The last block is zero-padded; the receiver trims it by the length
+    this.blocks = Array.from({ length: Math.ceil(data.length / BLOCK_SIZE) }, (_, i) => {
+      const block = new Uint8Array(BLOCK_SIZE);
+      block.set(data.subarray(i * BLOCK_SIZE, (i + 1) * BLOCK_SIZE));
+      return block;
+    });
+    this.distribution = robustSoliton(this.blocks.length);
+  }
+
+  // The fewest frames that could possibly rebuild the data
+  get blockCount(): number {
+    return this.blocks.length;
+  }
+
+  // The stream never ends; every call makes a frame not sent before
+  nextFrame(): string {
+    const seed = this.seed;
+    this.seed = (this.seed + 1) >>> 0;
+
+    const data = new Uint8Array(BLOCK_SIZE);
+    for (const index of blocksForSeed(seed, this.distribution)) {
+      xorInto(data, this.blocks[index]);
+    }
+    return `${FRAME_PREFIX}:${this.streamId}:${this.dataLength}:${seed}:${bytesToBase64(data)}`;
+  }
+}
+
+export function isFountainFrame(text: string): boolean {
+  return text.startsWith(`${FRAME_PREFIX}:`);
+}
+
+/**
+ * Rebuilds a stream by peeling: a frame down to one unknown block is that
+ * block, and every block found is XORed out of the frames still waiting on
+ * it, which may free up more. Progress counts blocks recovered.
+ */
+export class FountainFrameCollector implements FrameCollector {
+  private streamId: string | null = null;
+  private dataLength = 0;
+  private distribution: number[] = [];
+  private blocks: Array<Uint8Array | undefined> = [];
+  private recoveredCount = 0;
+  private seeds = new Set<number>();
+  // Frames with two or more unknown blocks, listed under each of them
+  private waiting: PendingFrame[][] = [];
+
+  add(text: string): boolean {
+    const match = FRAME_PATTERN.exec(text);
+    if (!match) return false;
+
+    const [, streamId, lengthText, seedText, payload] = match;
+    const dataLength = parseInt(lengthText);
+    const seed = parseInt(seedText);
+    if (dataLength < 1 || dataLength > MAX_FOUNTAIN_DATA || seed > 0xffffffff) return false;
+
+    let data: Uint8Array;
+    try {
+      data = base64ToBytes(payload);
+    } catch {
+      return false;
+    }
+    if (data.length !== BLOCK_SIZE) return false;
+
+    if (streamId !== this.streamId || dataLength !== this.dataLength) {
+      this.start(streamId, dataLength);
+    }
+    if (this.seeds.has(seed)) return false;
+    this.seeds.add(seed);
+
+    const frame: PendingFrame = { blocks: new Set(), data };
+    for (const index of blocksForSeed(seed, this.distribution)) {
+      const block = this.blocks[index];
+      if (block) {
+        xorInto(data, block);
+      } else {
+        frame.blocks.add(index);
+      }
+    }
+    this.peel(frame);
+    return true;
+  }
+
+  get received(): number {
+    return this.recoveredCount;
+  }
+
+  get total(): number {
+    return this.blocks.length;
+  }
+
+  isComplete(): boolean {
+    return this.blocks.length > 0 && this.recoveredCount === this.blocks.length;
+  }
+
+  result(): Uint8Array | null {
+    if (!this.isComplete()) return null;
+    const data = new Uint8Array(this.blocks.length * BLOCK_SIZE);
+    this.blocks.forEach((block, i) => data.set(block!, i * BLOCK_SIZE));
+    return data.slice(0, this.dataLength);
+  }
+
+  reset(): void {
+    this.streamId = null;
+    this.dataLength = 0;
+    this.distribution = [];
+    this.blocks = [];
+    this.recoveredCount = 0;
+    this.seeds.clear();
+    this.waiting = [];
+  }
+
+  private start(streamId: string, dataLength: number): void {
+    const blockCount = Math.ceil(dataLength / BLOCK_SIZE);
+    this.reset();
+    this.streamId = streamId;
+    this.dataLength = dataLength;
+    this.distribution = robustSoliton(blockCount);
+    this.blocks = new Array(blockCount).fill(undefined);
+    this.waiting = Array.from({ length: blockCount }, () => []);
+  }
+
+  private peel(frame: PendingFrame): void {
+    const ready = [frame];
+    while (ready.length > 0) {
+      const current = ready.pop()!;
+      if (current.blocks.size > 1) {
+        current.blocks.forEach(index => this.waiting[index].push(current));
+        continue;
+      }
+
+      // Nothing left unknown in it, or another frame got there first
+      const [index] = Array.from(current.blocks);
+      if (index === undefined || this.blocks[index]) continue;
+
+      this.blocks[index] = current.data;
+      this.recoveredCount++;
+      for (const other of this.waiting[index]) {
+        // It was waiting here too, back when it had more unknowns
+        if (other === current) continue;
+        other.blocks.delete(index);
+        xorInto(other.data, current.data);
+        if (other.blocks.size === 1) ready.push(other);
+      }
+      this.waiting[index] = [];
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { CryptoManager } from './crypto';
+import { FRAME_VERSION, FrameCodec, FrameError, FrameReassembler, FrameType, fragmentFrame } from './framing';
+
+// A stand-in for a sealed frame: real header, arbitrary body
+function fakeFrame(seq: number, length: number): Uint8Array {
+  const frame = new Uint8Array(length);
+  frame[0] = FRAME_VERSION;
+  frame[1] = FrameType.FileChunk;
+  new DataView(frame.buffer).setUint32(2, seq);
+  for (let i = 6; i < length; i++) frame[i] = i % 251;
+  return frame;
+}
+
+function fragment(seq: number, index: number, count: number, piece: Uint8Array): ArrayBuffer {
+  const bytes = new Uint8Array(10 + piece.byteLength);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = FRAME_VERSION;
+  bytes[1] = FrameType.Fragment;
+  view.setUint32(2, seq);
+  view.setUint16(6, index);
+  view.setUint16(8, count);
+  bytes.set(piece, 10);
+  return bytes.buffer;
+}
+
+// Host and guest with session keys from a real key agreement
+async function pairedCodecs(): Promise<[FrameCodec, FrameCodec]> {
+  const host = new CryptoManager();
+  const guest = new CryptoManager();
+  await host.generateKeyPair();
+  await guest.generateKeyPair();
+  await host.deriveSharedSecret(await host.importPublicKey(await guest.exportPublicKey()));
+  await guest.deriveSharedSecret(await guest.importPublicKey(await host.exportPublicKey()));
+
+  const hostFingerprint = 'sha-256 AA:BB';
+  const guestFingerprint = 'sha-256 CC:DD';
+  await host.deriveSessionKeys({
+    sessionId: 'session', isHost: true, protocolVersion: 2,
+    localFingerprint: hostFingerprint, remoteFingerprint: guestFingerprint
+  });
+  await guest.deriveSessionKeys({
+    sessionId: 'session', isHost: false, protocolVersion: 2,
+    localFingerprint: guestFingerprint, remoteFingerprint: hostFingerprint
+  });
+  return [new FrameCodec(host), new FrameCodec(guest)];
+}
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+const toBuffer = (bytes: Uint8Array) =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+describe('FrameCodec', () => {
+  it('opens what the other side sealed', async () => {
+    const [host, guest] = await pairedCodecs();
+    const frame = await host.seal(FrameType.Envelope, text('hello'));
+
+    const opened = await guest.open(frame);
+    expect(opened.type).toBe(FrameType.Envelope);
+    expect(opened.seq).toBe(0);
+    expect(new TextDecoder().decode(opened.plaintext)).toBe('hello');
+  });
+
+  it('rejects a replayed frame', async () => {
+    const [host, guest] = await pairedCodecs();
+    const frame = await host.seal(FrameType.Envelope, text('once'));
+    await guest.open(frame);
+    await expect(guest.open(frame)).rejects.toThrow(FrameError);
+  });
+
+  it('skips over lost frames but rejects them if they turn up late', async () => {
+    const [host, guest] = await pairedCodecs();
+    const frames = [];
+    for (let i = 0; i < 4; i++) {
+      frames.push(await host.seal(FrameType.FileChunk, text(`chunk ${i}`)));
+    }
+
+    expect(new TextDecoder().decode((await guest.open(frames[3])).plaintext)).toBe('chunk 3');
+    await expect(guest.open(frames[1])).rejects.toThrow('out-of-order');
+  });
+
+  it('rejects a relabelled frame without moving the receiving chain', async () => {
+    const [host, guest] = await pairedCodecs();
+    const frame = await host.seal(FrameType.Envelope, text('typed'));
+    const relabelled = frame.slice();
+    relabelled[1] = FrameType.FileChunk;
+
+    await expect(guest.open(relabelled)).rejects.toThrow();
+    expect((await guest.open(frame)).type).toBe(FrameType.Envelope);
+  });
+
+  it('keeps each direction on its own chain', async () => {
+    const [host, guest] = await pairedCodecs();
+    const fromHost = await host.seal(FrameType.Envelope, text('to guest'));
+    // Only the guest can open the host's frames
+    await expect(host.open(fromHost)).rejects.toThrow();
+
+    const fromGuest = await guest.seal(FrameType.Envelope, text('to host'));
+    expect(new TextDecoder().decode((await host.open(fromGuest)).plaintext)).toBe('to host');
+  });
+});
+
+describe('fragmentFrame', () => {
+  it('leaves frames that fit in one message alone', () => {
+    const frame = fakeFrame(1, 100);
+    expect(fragmentFrame(frame, 100)).toEqual([frame]);
+  });
+
+  it('splits larger frames into messages no bigger than the limit', () => {
+    const fragments = fragmentFrame(fakeFrame(1, 1000), 110);
+    expect(fragments).toHaveLength(10);
+    fragments.forEach(piece => expect(piece.byteLength).toBeLessThanOrEqual(110));
+  });
+
+  it('refuses frames that need more than 65535 fragments', () => {
+    // One byte per fragment
+    expect(() => fragmentFrame(fakeFrame(1, 0x10000), 11)).toThrow(FrameError);
+    expect(fragmentFrame(fakeFrame(1, 0xffff), 11)).toHaveLength(0xffff);
+  });
+});
+
+describe('FrameReassembler', () => {
+  it('passes unfragmented frames straight through', () => {
+    const frame = fakeFrame(1, 50);
+    expect(new FrameReassembler().push(toBuffer(frame))).toEqual(frame);
+  });
+
+  it('rebuilds a frame from fragments in any order, ignoring duplicates', () => {
+    const frame = fakeFrame(7, 1000);
+    const fragments = fragmentFrame(frame, 110).map(toBuffer);
+    const reassembler = new FrameReassembler();
+
+    const order = [3, 0, 9, 3, 1, 8, 2, 7, 0, 4, 6];
+    order.forEach(index => expect(reassembler.push(fragments[index])).toBeNull());
+    expect(reassembler.push(fragments[5])).toEqual(frame);
+  });
+
+  it('keeps interleaved frames apart', () => {
+    const first = fakeFrame(1, 300);
+    const second = fakeFrame(2, 300);
+    const a = fragmentFrame(first, 110).map(toBuffer);
+    const b = fragmentFrame(second, 110).map(toBuffer);
+    const reassembler = new FrameReassembler();
+
+    expect(reassembler.push(a[0])).toBeNull();
+    expect(reassembler.push(b[0])).toBeNull();
+    expect(reassembler.push(b[1])).toBeNull();
+    expect(reassembler.push(a[1])).toBeNull();
+    expect(reassembler.push(b[2])).toEqual(second);
+    expect(reassembler.push(a[2])).toEqual(first);
+  });
+
+  it('rejects malformed fragments', () => {
+    const reassembler = new FrameReassembler();
+    const piece = new Uint8Array(4);
+    expect(() => reassembler.push(fragment(1, 0, 0, piece))).toThrow('Malformed fragment');
+    expect(() => reassembler.push(fragment(1, 2, 2, piece))).toThrow('Malformed fragment');
+    expect(() => reassembler.push(new Uint8Array([FRAME_VERSION, FrameType.Fragment, 0, 0, 0, 1, 0, 0]).buffer))
+      .toThrow('Fragment too short');
+  });
+
+  it('rejects fragments that disagree on the fragment count', () => {
+    const reassembler = new FrameReassembler();
+    reassembler.push(fragment(1, 0, 3, new Uint8Array(4)));
+    expect(() => reassembler.push(fragment(1, 1, 4, new Uint8Array(4)))).toThrow('Fragment count mismatch');
+  });
+
+  it('drops everything once partial frames pass 64 MiB', () => {
+    const reassembler = new FrameReassembler();
+    const piece = new Uint8Array(1024 * 1024);
+    // First halves of 64 different frames fill the buffer exactly
+    for (let seq = 0; seq < 64; seq++) {
+      expect(reassembler.push(fragment(seq, 0, 2, piece))).toBeNull();
+    }
+    expect(() => reassembler.push(fragment(64, 0, 2, piece))).toThrow('Reassembly buffer full');
+
+    // Nothing from before survives, and there is room again
+    expect(reassembler.push(fragment(0, 1, 2, piece))).toBeNull();
+    expect(reassembler.push(fragment(0, 0, 2, piece))).toHaveLength(2 * piece.byteLength);
+  });
+});
@@ -0,0 +1,224 @@
+import { CryptoManager } from './crypto';
+
+/**
+ * Binary frames for the data channel.
+ *
+ * Every message is one encrypted frame:
+ *
+ *   [1 version][1 type][4 sequence][ciphertext + 16-byte tag]
+ *
+ * The sequence number picks the frame's key from the sender's ratchet (see
+ * ratchet.ts) and doubles as the nonce. The version, type and sequence
+ * number are authenticated as AES-GCM additional data, so a frame can't be
+ * replayed or relabelled as another type. Frames larger than the channel's
+ * max message size are split into fragments:
+ *
+ *   [1 version][1 FRAGMENT][4 sequence of the whole frame][2 index][2 count][bytes]
+ *
+ * and reassembled before decryption.
+ */
+
+// Version 1 frames carried a random nonce and used one static session key
+export const FRAME_VERSION = 2;
+
+export const FrameType = {
+  // JSON-encoded PeerEnvelope (shared/protocol.ts)
+  Envelope: 0x01,
+  // Raw file chunk body, kept out of JSON to avoid re-encoding
+  FileChunk: 0x03,
+  Fragment: 0x7f
+} as const;
+
+export type FrameType = typeof FrameType[keyof typeof FrameType];
+
+const HEADER_SIZE = 6;
+const TAG_SIZE = 16;
+const FRAGMENT_HEADER_SIZE = 10;
+const MAX_FRAGMENTS = 0xffff;
+
+// Never put more than this in a single SCTP message, whatever the peer
+// advertises: one huge message blocks every other frame behind it
+export const MAX_FRAME_SIZE = 64 * 1024;
+
+// Upper bound on partially reassembled data held at once
+const MAX_REASSEMBLY_BYTES = 64 * 1024 * 1024;
+
+export class FrameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameError';
+  }
+}
+
+function frameHeader(type: FrameType, seq: number): Uint8Array {
+  const header = new Uint8Array(HEADER_SIZE);
+  const view = new DataView(header.buffer);
+  header[0] = FRAME_VERSION;
+  header[1] = type;
+  view.setUint32(2, seq);
+  return header;
+}
+
+/**
+ * Seals and opens frames with the session's ratchets, keeping the
+ * per-direction sequence numbers. Sequence numbers carry on across
+ * reconnects, since a key is never derived twice. Frames must be sealed and
+ * sent one at a time so they leave in sequence order; the receiver rejects
+ * anything not newer than the last frame it accepted.
+ */
+export class FrameCodec {
+  private sendSeq = 0;
+  private lastReceivedSeq = -1;
+
+  constructor(private crypto: CryptoManager) {}
+
+  async seal(type: FrameType, plaintext: Uint8Array): Promise<Uint8Array> {
+    if (this.sendSeq > 0xffffffff) {
+      throw new FrameError('Sequence numbers exhausted; start a new session');
+    }
+
+    const seq = this.sendSeq++;
+    const header = frameHeader(type, seq);
+    const ciphertext = await this.crypto.encryptFrame(seq, plaintext, header);
+
+    const frame = new Uint8Array(HEADER_SIZE + ciphertext.byteLength);
+    frame.set(header, 0);
+    frame.set(new Uint8Array(ciphertext), HEADER_SIZE);
+    return frame;
+  }
+
+  async open(frame: Uint8Array): Promise<{ type: FrameType; seq: number; plaintext: Uint8Array }> {
+    if (frame.byteLength < HEADER_SIZE + TAG_SIZE) {
+      throw new FrameError('Frame too short');
+    }
+    if (frame[0] !== FRAME_VERSION) {
+      throw new FrameError(`Unsupported frame version ${frame[0]}`);
+    }
+
+    const type = frame[1] as FrameType;
+    const seq = new DataView(frame.buffer, frame.byteOffset).getUint32(2);
+    if (seq <= this.lastReceivedSeq) {
+      throw new FrameError(`Replayed or out-of-order frame ${seq}`);
+    }
+
+    const plaintext = await this.crypto.decryptFrame(
+      seq,
+      frame.subarray(HEADER_SIZE),
+      frame.subarray(0, HEADER_SIZE)
+    );
+    // Only advance once the frame has authenticated
+    this.lastReceivedSeq = seq;
+    return { type, seq, plaintext: new Uint8Array(plaintext) };
+  }
+
+  // Only together with a fresh key exchange: counters restart with the ratchets
+  reset(): void {
+    this.sendSeq = 0;
+    this.lastReceivedSeq = -1;
+  }
+}
+
+// Split a sealed frame into pieces that each fit in one channel message
+export function fragmentFrame(frame: Uint8Array, maxMessageSize: number): Uint8Array[] {
+  if (frame.byteLength <= maxMessageSize) {
+    return [frame];
+  }
+
+  const pieceSize = maxMessageSize - FRAGMENT_HEADER_SIZE;
+  const count = Math.ceil(frame.byteLength / pieceSize);
+  if (count > MAX_FRAGMENTS) {
+    throw new FrameError('Message too large to send');
+  }
+
+  const seq = new DataView(frame.buffer, frame.byteOffset).getUint32(2);
+  const fragments: Uint8Array[] = [];
+  for (let index = 0; index < count; index++) {
+    const piece = frame.subarray(index * pieceSize, (index + 1) * pieceSize);
+    const fragment = new Uint8Array(FRAGMENT_HEADER_SIZE + piece.byteLength);
+    const view = new DataView(fragment.buffer);
+    fragment[0] = FRAME_VERSION;
+    fragment[1] = FrameType.Fragment;
+    view.setUint32(2, seq);
+    view.setUint16(6, index);
+    view.setUint16(8, count);
+    fragment.set(piece, FRAGMENT_HEADER_SIZE);
+    fragments.push(fragment);
+  }
+  return fragments;
+}
+
+interface PartialFrame {
+  parts: Array<Uint8Array | undefined>;
+  received: number;
+  bytes: number;
+}
+
+/**
+ * Collects fragments until a whole frame is present. Unfragmented frames
+ * pass straight through.
+ */
+export class FrameReassembler {
+  private partials = new Map<number, PartialFrame>();
+  private bufferedBytes = 0;
+
+  push(data: ArrayBuffer): Uint8Array | null {
+    const bytes = new Uint8Array(data);
+    if (bytes.byteLength < HEADER_SIZE || bytes[1] !== FrameType.Fragment) {
+      return bytes;
+    }
+    if (bytes.byteLength < FRAGMENT_HEADER_SIZE) {
+      throw new FrameError('Fragment too short');
+    }
+
+    const view = new DataView(data);
+    const seq = view.getUint32(2);
+    const index = view.getUint16(6);
+    const count = view.getUint16(8);
+    if (count === 0 || index >= count) {
+      throw new FrameError('Malformed fragment');
+    }
+
+    let partial = this.partials.get(seq);
+    if (!partial) {
+      partial = { parts: new Array(count), received: 0, bytes: 0 };
+      this.partials.set(seq, partial);
+    }
+    if (partial.parts.length !== count) {
+      throw new FrameError('Fragment count mismatch');
+    }
+    if (partial.parts[index]) {
+      return null;
+    }
+
+    const piece = bytes.slice(FRAGMENT_HEADER_SIZE);
+    if (this.bufferedBytes + piece.byteLength > MAX_REASSEMBLY_BYTES) {
+      this.reset();
+      throw new FrameError('Reassembly buffer full');
+    }
+    partial.parts[index] = piece;
+    partial.received++;
+    partial.bytes += piece.byteLength;
+    this.bufferedBytes += piece.byteLength;
+
+    if (partial.received < count) {
+      return null;
+    }
+
+    this.partials.delete(seq);
+    this.bufferedBytes -= partial.bytes;
+
+    const frame = new Uint8Array(partial.bytes);
+    let offset = 0;
+    for (const part of partial.parts) {
+      frame.set(part!, offset);
+      offset += part!.byteLength;
+    }
+    return frame;
+  }
+
+  // Fragments never span a data channel, so drop them when it closes
+  reset(): void {
+    this.partials.clear();
+    this.bufferedBytes = 0;
+  }
+}
@@ -0,0 +1,63 @@
+import { apiRequest } from './queryClient';
+import type { IceConfig } from '@shared/ice';
+
+/**
+ * STUN/TURN servers for new peer connections, from the signaling server.
+ * Its TURN credentials expire, so the answer is only reused until halfway
+ * to when they do.
+ */
+
+// Before the server has answered nothing may connect: relay only, with no
+// relay to use, so no candidate can reveal either device's address
+export const UNCONFIGURED_RTC_CONFIGURATION: RTCConfiguration = {
+  iceServers: [],
+  iceTransportPolicy: 'relay'
+};
+
+// Serverless pairing has nobody to ask and likely no internet to reach STUN
+// with; host candidates are enough between devices on one network
+export const OFFLINE_RTC_CONFIGURATION: RTCConfiguration = { iceServers: [] };
+
+// Never fetch more often than this, however short-lived the credentials
+const MIN_REFRESH_INTERVAL_MS = 30 * 1000;
+
+export interface RtcSettings {
+  configuration: RTCConfiguration;
+  // Fetch again from then on, while the credentials still work
+  refreshAt: number;
+}
+
+let cached: RtcSettings | null = null;
+
+/**
+ * The server only answers session members, who show the join token they
+ * hold. If it can't be asked, the last answer is reused even once its TURN
+ * credentials are stale, since its relay-only policy still has to hold;
+ * with no answer at all there is no way to tell whether the admin requires
+ * relaying, so this throws rather than connect directly.
+ */
+export async function getRtcConfiguration(joinToken: string | null): Promise<RtcSettings> {
+  if (cached && cached.refreshAt > Date.now()) {
+    return cached;
+  }
+  try {
+    const response = await apiRequest(
+      'GET',
+      '/api/ice-servers',
+      undefined,
+      joinToken ? { Authorization: `Bearer ${joinToken}` } : undefined
+    );
+    const config: IceConfig = await response.json();
+    const now = Date.now();
+    cached = {
+      configuration: { iceServers: config.iceServers, iceTransportPolicy: config.iceTransportPolicy },
+      // Halfway to expiry, so connections have time to switch credentials
+      refreshAt: now + Math.max(MIN_REFRESH_INTERVAL_MS, (config.expiresAt - now) / 2)
+    };
+    return cached;
+  } catch (error) {
+    console.warn('Failed to fetch ICE servers:', error);
+    if (cached) return cached;
+    throw new Error("Couldn't get connection settings from the server");
+  }
+}
@@ -0,0 +1,215 @@
+import { base64ToBytes, bytesToBase64, encodePairingSecret } from './crypto';
+import type { PeerIdentity, TrustedDevice } from '../types';
+
+/**
+ * Long-term device identity and the devices it trusts.
+ *
+ * The identity is an ECDH P-256 key pair created on first use. Its private
+ * key is stored as a non-extractable CryptoKey in IndexedDB, so script can
+ * use it but never read it out. Two devices that trust each other derive a
+ * shared secret from their identity keys, which stands in for the QR code's
+ * pairing secret when one invites the other to a session.
+ */
+
+const DB_NAME = 'pairqr-identity';
+const DB_VERSION = 1;
+const IDENTITY_STORE = 'identity';
+const TRUSTED_STORE = 'trusted';
+const SELF_KEY = 'self';
+
+interface StoredIdentity {
+  privateKey: CryptoKey;
+  publicKey: string;
+}
+
+export interface DeviceIdentity extends PeerIdentity {
+  privateKey: CryptoKey;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let identityPromise: Promise<DeviceIdentity> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(IDENTITY_STORE)) {
+          db.createObjectStore(IDENTITY_STORE);
+        }
+        if (!db.objectStoreNames.contains(TRUSTED_STORE)) {
+          db.createObjectStore(TRUSTED_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+// Routing ID for invites; the signaling server derives the same one from
+// the public key we prove we own
+export async function identityIdFor(publicKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', base64ToBytes(publicKey));
+  return encodePairingSecret(new Uint8Array(digest));
+}
+
+export function defaultDeviceName(): string {
+  const ua = navigator.userAgent;
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser';
+  const platform = /Android/.test(ua) ? 'Android'
+    : /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Mac OS X/.test(ua) ? 'macOS'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'unknown device';
+  return `${browser} on ${platform}`;
+}
+
+async function loadOrCreateIdentity(): Promise<DeviceIdentity> {
+  const db = await openDatabase();
+  let stored = await requestToPromise(
+    db.transaction(IDENTITY_STORE).objectStore(IDENTITY_STORE).get(SELF_KEY)
+  ) as StoredIdentity | undefined;
+
+  if (!stored) {
+    const keyPair = await crypto.subtle.generateKey(
+      { name: 'ECDH', namedCurve: 'P-256' },
+      false, // the private key never leaves the browser
+      ['deriveBits']
+    );
+    const spki = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+    stored = { privateKey: keyPair.privateKey, publicKey: bytesToBase64(new Uint8Array(spki)) };
+    await requestToPromise(
+      db.transaction(IDENTITY_STORE, 'readwrite').objectStore(IDENTITY_STORE).put(stored, SELF_KEY)
+    );
+  }
+
+  return {
+    id: await identityIdFor(stored.publicKey),
+    name: defaultDeviceName(),
+    publicKey: stored.publicKey,
+    privateKey: stored.privateKey
+  };
+}
+
+export function getIdentity(): Promise<DeviceIdentity> {
+  if (!identityPromise) {
+    identityPromise = loadOrCreateIdentity().catch((error) => {
+      identityPromise = null;
+      throw error;
+    });
+  }
+  return identityPromise;
+}
+
+export async function listTrustedDevices(): Promise<TrustedDevice[]> {
+  const db = await openDatabase();
+  const devices = await requestToPromise(
+    db.transaction(TRUSTED_STORE).objectStore(TRUSTED_STORE).getAll()
+  ) as TrustedDevice[];
+  return devices.sort((a, b) => (b.lastConnectedAt ?? b.pairedAt) - (a.lastConnectedAt ?? a.pairedAt));
+}
+
+export async function getTrustedDevice(id: string): Promise<TrustedDevice | undefined> {
+  const db = await openDatabase();
+  return await requestToPromise(
+    db.transaction(TRUSTED_STORE).objectStore(TRUSTED_STORE).get(id)
+  ) as TrustedDevice | undefined;
+}
+
+export async function saveTrustedDevice(device: TrustedDevice): Promise<void> {
+  const db = await openDatabase();
+  await requestToPromise(
+    db.transaction(TRUSTED_STORE, 'readwrite').objectStore(TRUSTED_STORE).put(device)
+  );
+}
+
+export async function removeTrustedDevice(id: string): Promise<void> {
+  const db = await openDatabase();
+  await requestToPromise(
+    db.transaction(TRUSTED_STORE, 'readwrite').objectStore(TRUSTED_STORE).delete(id)
+  );
+}
+
+/**
+ * Pairing secret for one session with a trusted device. Both sides get the
+ * same value from their own private key and the other's public key; nobody
+ * else can compute it.
+ */
+export async function trustedPairingSecret(
+  identity: DeviceIdentity,
+  device: TrustedDevice,
+  sessionId: string
+): Promise<string> {
+  const peerKey = await crypto.subtle.importKey(
+    'spki',
+    base64ToBytes(device.publicKey),
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    []
+  );
+  const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, identity.privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveBits']);
+
+  const encoder = new TextEncoder();
+  const [first, second] = [identity.id, device.id].sort();
+  const secret = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: encoder.encode(`${first}|${second}`),
+      info: encoder.encode(`PairQR-Trust-v1 ${sessionId}`)
+    },
+    hkdfKey,
+    256
+  );
+  return encodePairingSecret(new Uint8Array(secret));
+}
+
+/**
+ * Answer the signaling server's identity challenge: a MAC over its nonce,
+ * keyed by ECDH between our identity key and its one-off key. It shows the
+ * server we own the identity whose invites we ask for.
+ */
+export async function proveIdentity(identity: DeviceIdentity, nonce: string, serverKey: string): Promise<string> {
+  const peerKey = await crypto.subtle.importKey(
+    'spki',
+    base64ToBytes(serverKey),
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    []
+  );
+  const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, identity.privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+  const macKey = await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode('PairQR-Identity-Proof-v1')
+    },
+    hkdfKey,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign']
+  );
+  const mac = await crypto.subtle.sign('HMAC', macKey, base64ToBytes(nonce));
+  return bytesToBase64(new Uint8Array(mac));
+}
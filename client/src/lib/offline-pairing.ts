@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { encodeQrFrames } from './qr-frames';
+
+/**
+ * What serverless pairing puts in its animated QR codes. The host's offer
+ * carries everything a guest would otherwise get from the QR link and the
+ * signaling server; the guest's answer carries its MACed key exchange.
+ * Both are deflated JSON, and each session description already holds all
+ * of its ICE candidates.
+ */
+
+const PAIRING_VERSION = 1;
+
+const text = z.string().min(1).max(64 * 1024);
+
+const offlineOfferSchema = z.object({
+  v: z.literal(PAIRING_VERSION),
+  type: z.literal('offer'),
+  sessionId: text,
+  hostPublicKey: text,
+  pairingSecret: text,
+  sdp: text,
+  kemPublicKey: text.optional()
+});
+
+const offlineAnswerSchema = z.object({
+  v: z.literal(PAIRING_VERSION),
+  type: z.literal('answer'),
+  sessionId: text,
+  clientPublicKey: text,
+  mac: text,
+  sdp: text,
+  kemCiphertext: text.optional()
+});
+
+const offlinePairingSchema = z.discriminatedUnion('type', [offlineOfferSchema, offlineAnswerSchema]);
+
+export type OfflineOffer = z.infer<typeof offlineOfferSchema>;
+export type OfflineAnswer = z.infer<typeof offlineAnswerSchema>;
+export type OfflinePairingMessage = OfflineOffer | OfflineAnswer;
+
+async function pipeBytes(data: Uint8Array, transform: GenericTransformStream): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// The QR frames to show for an offer or answer
+export async function encodeOfflinePairing(
+  message: Omit<OfflineOffer, 'v'> | Omit<OfflineAnswer, 'v'>
+): Promise<string[]> {
+  const json = new TextEncoder().encode(JSON.stringify({ v: PAIRING_VERSION, ...message }));
+  return encodeQrFrames(await pipeBytes(json, new CompressionStream('deflate-raw')));
+}
+
+// Read what the frames of an offer or answer added up to
+export async function decodeOfflinePairing(data: Uint8Array): Promise<OfflinePairingMessage> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(await pipeBytes(data, new DecompressionStream('deflate-raw'))));
+  } catch {
+    throw new Error("That code isn't a PairQR pairing code");
+  }
+  const result = offlinePairingSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error('That pairing code is incomplete or from another version of PairQR');
+  }
+  return result.data;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { p256 } from '@noble/curves/nist.js';
+import { PakeAttemptBudget, PakeError, Spake2, confirmationsMatch, normalizePassphrase } from './pake';
+
+const SESSION_ID = 'session-1';
+const HOST_KEY = 'host-public-key';
+
+function run(guestPassphrase: string, hostPassphrase: string, hostKeyForGuest = HOST_KEY) {
+  const guest = new Spake2('guest', SESSION_ID, guestPassphrase);
+  const host = new Spake2('host', SESSION_ID, hostPassphrase);
+  return {
+    guest: guest.finish(host.message, hostKeyForGuest),
+    host: host.finish(guest.message, HOST_KEY)
+  };
+}
+
+describe('Spake2', () => {
+  it('agrees on a pairing secret and confirmation with the same passphrase', () => {
+    const { guest, host } = run('purple monkey dishwasher', 'purple monkey dishwasher');
+    expect(guest.pairingSecret).toEqual(host.pairingSecret);
+    expect(guest.pairingSecret).toHaveLength(32);
+    expect(confirmationsMatch(guest.hostConfirmation, host.hostConfirmation)).toBe(true);
+  });
+
+  it('ignores case and spacing in the passphrase', () => {
+    const { guest, host } = run('  Purple   Monkey dishwasher ', 'purple monkey dishwasher');
+    expect(guest.pairingSecret).toEqual(host.pairingSecret);
+  });
+
+  it('disagrees when the passphrases differ', () => {
+    const { guest, host } = run('purple monkey dishwasher', 'purple monkey dishwasherr');
+    expect(guest.pairingSecret).not.toEqual(host.pairingSecret);
+    expect(confirmationsMatch(guest.hostConfirmation, host.hostConfirmation)).toBe(false);
+  });
+
+  it('binds the host public key, so a swapped key fails confirmation', () => {
+    const { guest, host } = run('passphrase', 'passphrase', 'attacker-public-key');
+    expect(confirmationsMatch(guest.hostConfirmation, host.hostConfirmation)).toBe(false);
+  });
+
+  it('binds the session ID', () => {
+    const guest = new Spake2('guest', 'session-1', 'passphrase');
+    const host = new Spake2('host', 'session-2', 'passphrase');
+    expect(guest.finish(host.message, HOST_KEY).pairingSecret)
+      .not.toEqual(host.finish(guest.message, HOST_KEY).pairingSecret);
+  });
+
+  it('uses fresh randomness for every run', () => {
+    const first = new Spake2('guest', SESSION_ID, 'passphrase');
+    const second = new Spake2('guest', SESSION_ID, 'passphrase');
+    expect(first.message).not.toEqual(second.message);
+  });
+
+  it('rejects messages that are not curve points', () => {
+    const guest = new Spake2('guest', SESSION_ID, 'passphrase');
+    expect(() => guest.finish(new Uint8Array(65).fill(1), HOST_KEY)).toThrow(PakeError);
+    expect(() => guest.finish(new Uint8Array(0), HOST_KEY)).toThrow(PakeError);
+  });
+
+  it('gets a different secret from a stray curve point', () => {
+    // The generator decodes fine; only the derived secret gives it away
+    const guest = new Spake2('guest', SESSION_ID, 'passphrase');
+    const host = new Spake2('host', SESSION_ID, 'passphrase');
+    const result = guest.finish(p256.Point.BASE.toBytes(false), HOST_KEY);
+    expect(result.pairingSecret).not.toEqual(host.finish(guest.message, HOST_KEY).pairingSecret);
+  });
+});
+
+describe('normalizePassphrase', () => {
+  it('folds case, width and whitespace', () => {
+    expect(normalizePassphrase('  Ｈello\tWORLD  ')).toBe('hello world');
+  });
+});
+
+describe('PakeAttemptBudget', () => {
+  it('cuts passphrase runs off after the limit', () => {
+    const budget = new PakeAttemptBudget(3);
+    expect([1, 2, 3, 4, 5].map(() => budget.spend())).toEqual([true, true, true, false, false]);
+  });
+
+  it('gives back runs that turned out to be right guesses', () => {
+    const budget = new PakeAttemptBudget(2);
+    budget.spend();
+    budget.spend();
+    budget.refund();
+    expect(budget.spend()).toBe(true);
+    expect(budget.spend()).toBe(false);
+  });
+
+  it('starts over with a new passphrase', () => {
+    const budget = new PakeAttemptBudget(1);
+    budget.spend();
+    budget.reset();
+    expect(budget.spend()).toBe(true);
+  });
+});
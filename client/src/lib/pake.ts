@@ -0,0 +1,151 @@
+import { p256 } from '@noble/curves/nist.js';
+import { bytesToNumberBE, concatBytes, equalBytes, numberToBytesBE, numberToBytesLE } from '@noble/curves/utils.js';
+import { hkdf } from '@noble/hashes/hkdf.js';
+import { hmac } from '@noble/hashes/hmac.js';
+import { sha256, sha512 } from '@noble/hashes/sha2.js';
+
+/**
+ * SPAKE2 (RFC 9382) over P-256, for joining by session ID and a spoken
+ * passphrase instead of a QR code.
+ *
+ * Each run lets someone who doesn't know the passphrase test exactly one
+ * guess, online, so the host caps the number of runs. Whoever relays the
+ * messages, the signaling server included, learns nothing it could check
+ * guesses against offline.
+ */
+
+export type PakeRole = 'guest' | 'host';
+
+const Point = p256.Point;
+const ORDER = Point.Fn.ORDER;
+
+// RFC 9382 section 6 constants for P-256; nobody knows their discrete logs
+const M = Point.fromHex('02886e2f97ace46e55ba9dd7242579f2993b64e16ef3dcab95afd497333d8fa12f');
+const N = Point.fromHex('03d8bbd6c639c62937b04d997f38c3770719c629d7014d49a24b4f98baa1292b49');
+
+export class PakeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PakeError';
+  }
+}
+
+// Spoken passphrases vary in case and spacing; neither should matter
+export function normalizePassphrase(passphrase: string): string {
+  return passphrase.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function lengthPrefixed(...parts: Uint8Array[]): Uint8Array {
+  return concatBytes(...parts.flatMap(part => [numberToBytesLE(part.length, 8), part]));
+}
+
+function passwordScalar(sessionId: string, passphrase: string): bigint {
+  const encoder = new TextEncoder();
+  const digest = sha512(lengthPrefixed(
+    encoder.encode('PairQR-SPAKE2-v1'),
+    encoder.encode(sessionId),
+    encoder.encode(normalizePassphrase(passphrase))
+  ));
+  return bytesToNumberBE(digest) % ORDER;
+}
+
+function randomScalar(): bigint {
+  return bytesToNumberBE(p256.utils.randomSecretKey()) % ORDER;
+}
+
+export interface PakeResult {
+  // Proves to the guest that the host knew the passphrase
+  hostConfirmation: Uint8Array;
+  // Shared secret both sides use in place of the QR code's pairing secret
+  pairingSecret: Uint8Array;
+}
+
+/**
+ * One side of one SPAKE2 run. Send `message` to the peer, then call
+ * `finish` with theirs. The host's public key is bound into the transcript,
+ * so the guest knows the key it receives is the one the host chose.
+ */
+export class Spake2 {
+  private readonly w: bigint;
+  private readonly scalar: bigint;
+  readonly message: Uint8Array;
+
+  constructor(private readonly role: PakeRole, private readonly sessionId: string, passphrase: string) {
+    this.w = passwordScalar(sessionId, passphrase);
+    this.scalar = randomScalar();
+    const blind = role === 'guest' ? M : N;
+    this.message = Point.BASE.multiply(this.scalar).add(blind.multiply(this.w)).toBytes(false);
+  }
+
+  finish(peerMessage: Uint8Array, hostPublicKey: string): PakeResult {
+    let peerPoint;
+    try {
+      peerPoint = Point.fromBytes(peerMessage);
+    } catch {
+      throw new PakeError('Invalid passphrase exchange message');
+    }
+
+    const peerBlind = this.role === 'guest' ? N : M;
+    const shared = peerPoint.subtract(peerBlind.multiply(this.w)).multiply(this.scalar);
+    if (shared.equals(Point.ZERO)) {
+      throw new PakeError('Invalid passphrase exchange message');
+    }
+
+    const [guestMessage, hostMessage] = this.role === 'guest'
+      ? [this.message, peerMessage]
+      : [peerMessage, this.message];
+    const encoder = new TextEncoder();
+    const transcript = lengthPrefixed(
+      encoder.encode('guest'),
+      encoder.encode('host'),
+      guestMessage,
+      hostMessage,
+      shared.toBytes(false),
+      numberToBytesBE(this.w, 32),
+      encoder.encode(this.sessionId),
+      encoder.encode(hostPublicKey)
+    );
+
+    const hash = sha256(transcript);
+    const ke = hash.subarray(0, 16);
+    const ka = hash.subarray(16);
+    const hostConfirmKey = hkdf(sha256, ka, undefined, encoder.encode('ConfirmationKeys host'), 32);
+
+    return {
+      hostConfirmation: hmac(sha256, hostConfirmKey, transcript),
+      pairingSecret: hkdf(sha256, ke, undefined, encoder.encode('PairQR pairing secret'), 32)
+    };
+  }
+}
+
+// Constant-time for equal lengths
+export function confirmationsMatch(expected: Uint8Array, received: Uint8Array): boolean {
+  return equalBytes(expected, received);
+}
+
+/**
+ * The host's limit on passphrase runs. Every run may be a stranger's guess,
+ * except one whose secret a guest's key exchange then verified.
+ */
+export class PakeAttemptBudget {
+  private used = 0;
+
+  constructor(private readonly max: number) {}
+
+  // Count a run; false once the budget is spent, and passphrase joins
+  // should stop
+  spend(): boolean {
+    if (this.used >= this.max) return false;
+    this.used++;
+    return true;
+  }
+
+  // That run was a right guess
+  refund(): void {
+    this.used = Math.max(0, this.used - 1);
+  }
+
+  reset(): void {
+    this.used = 0;
+  }
+}
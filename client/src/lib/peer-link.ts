@@ -0,0 +1,888 @@
+import { CryptoManager, type HandshakeContext } from './crypto';
+import { FileTransferManager } from './file-transfer';
+import { FrameCodec, FrameReassembler, FrameType, MAX_FRAME_SIZE, fragmentFrame } from './framing';
+import type { PickedFolder } from './file-tree';
+import {
+  createHello,
+  isFileEnvelope,
+  isHelloMessage,
+  isPeerEnvelope,
+  negotiateProtocol,
+  supportsEnvelope,
+  LEGACY_PROTOCOL_VERSION,
+  type HelloMessage,
+  type NegotiatedProtocol,
+  type PeerEnvelope
+} from '@shared/protocol';
+import type { FileBatch, FileDestination, FileTransfer, Message, PeerIdentity, PeerInfo } from '../types';
+
+// Peers that haven't said hello by then are treated as protocol version 1,
+// if the user allows those at all
+const HELLO_TIMEOUT_MS = 3000;
+// How long an ICE restart gets before the connection is rebuilt instead
+const ICE_RESTART_TIMEOUT_MS = 10000;
+// Without trickling, how long a description waits for its ICE candidates
+const ICE_GATHERING_TIMEOUT_MS = 5000;
+
+// `<algorithm> <hex>` from the first a=fingerprint line of an SDP
+function sdpFingerprint(sdp: string | undefined): string {
+  const match = sdp?.match(/^a=fingerprint:(\S+) (\S+)\s*$/m);
+  if (!match) {
+    throw new Error('Session description has no DTLS fingerprint');
+  }
+  return `${match[1].toLowerCase()} ${match[2].toUpperCase()}`;
+}
+
+// Resolves once every candidate is in the local description, or gathering
+// has taken too long to wait for the rest
+function iceGatheringComplete(peer: RTCPeerConnection): Promise<void> {
+  if (peer.iceGatheringState === 'complete') return Promise.resolve();
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timeout);
+      peer.removeEventListener('icegatheringstatechange', onChange);
+      resolve();
+    };
+    const onChange = () => {
+      if (peer.iceGatheringState === 'complete') done();
+    };
+    const timeout = setTimeout(done, ICE_GATHERING_TIMEOUT_MS);
+    peer.addEventListener('icegatheringstatechange', onChange);
+  });
+}
+
+export interface PeerLinkOptions {
+  sessionId: string;
+  isHost: boolean;
+  // Whether signaling can go out right now; offers wait until it can
+  canSignal: () => boolean;
+  // Deliver a signaling message to this peer through the server
+  signal: (message: object) => void;
+  // ICE servers and policy for each new RTCPeerConnection
+  rtcConfiguration: () => RTCConfiguration;
+  // Send ICE candidates as they are found. Otherwise offers and answers go
+  // out once they hold every candidate, for signaling that carries one
+  // description each way and nothing else
+  trickleIce: boolean;
+  // Whether the user opted in to version 1 peers, which can't confirm keys
+  allowLegacyPeers: () => boolean;
+}
+
+/**
+ * Everything about one remote device: its RTCPeerConnection and data
+ * channel, the keys derived with it, the protocol the two of us settled on
+ * and the file transfers in flight. A guest has one link, to the host; the
+ * host has one per guest.
+ */
+export class PeerLink {
+  private peer: RTCPeerConnection | null = null;
+  private dataChannel: RTCDataChannel | null = null;
+  private fileTransfers: FileTransferManager;
+  private frames: FrameCodec;
+  private reassembler = new FrameReassembler();
+  private receiveQueue: Promise<void> = Promise.resolve();
+  // Frames are sealed and sent one at a time so sequence numbers go out in order
+  private sendQueue: Promise<void> = Promise.resolve();
+  private localHello: HelloMessage = createHello();
+  // Settled per data channel by the hello exchange
+  private protocol: NegotiatedProtocol | null = null;
+  private protocolWaiters: Array<{ resolve: (protocol: NegotiatedProtocol) => void; reject: (error: Error) => void }> = [];
+  private helloTimeout: ReturnType<typeof setTimeout> | null = null;
+  // Transcript inputs for the current data channel, set once negotiated
+  private handshake: HandshakeContext | null = null;
+  private sessionConfirmed = false;
+  // Envelopes other than key-confirm wait for these
+  private confirmWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  private pendingOffer = false;
+  // Perfect negotiation: either side may offer, and when both do at once the
+  // guest (polite) rolls its offer back while the host ignores the guest's
+  private makingOffer = false;
+  private ignoreOffer = false;
+  private settingRemoteAnswer = false;
+  // Candidates that arrived before the description they belong to
+  private pendingCandidates: RTCIceCandidateInit[] = [];
+  private iceRestartTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  public onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
+  public onDataChannelOpen?: () => void;
+  public onDataChannelClose?: () => void;
+  public onMessage?: (message: Message) => void;
+  public onFileTransfer?: (transfer: FileTransfer) => void;
+  public onBatchStart?: (batch: FileBatch) => void;
+  public onIncomingTransfer?: (transfer: FileTransfer) => void;
+  public onProtocolNegotiated?: (protocol: NegotiatedProtocol) => void;
+  public onSessionConfirmed?: () => void;
+  public onPeerTyping?: (isTyping: boolean) => void;
+  public onMessageDelivered?: (messageId: string) => void;
+  public onPeerEndedSession?: () => void;
+  public onPeerIdentity?: (identity: PeerIdentity) => void;
+  public onError?: (error: Error) => void;
+
+  constructor(
+    readonly id: string,
+    readonly name: string,
+    readonly crypto: CryptoManager,
+    private options: PeerLinkOptions
+  ) {
+    this.frames = new FrameCodec(crypto);
+    this.fileTransfers = new FileTransferManager(
+      () => this.dataChannel,
+      (envelope) => this.sendEnvelope(envelope),
+      (body) => this.sendFrame(FrameType.FileChunk, body)
+    );
+    this.fileTransfers.onTransferUpdate = (transfer) => {
+      this.onFileTransfer?.({ ...transfer, peerId: this.id });
+    };
+    this.fileTransfers.onBatchStart = (batch) => {
+      this.onBatchStart?.({ ...batch, peerId: this.id });
+    };
+    this.fileTransfers.onIncomingOffer = (transfer) => {
+      this.onIncomingTransfer?.({ ...transfer, peerId: this.id });
+    };
+  }
+
+  getInfo(): PeerInfo {
+    return {
+      id: this.id,
+      name: this.name,
+      connectionState: this.peer?.connectionState ?? null,
+      isConfirmed: this.sessionConfirmed
+    };
+  }
+
+  start(): void {
+    this.peer = new RTCPeerConnection(this.options.rtcConfiguration());
+
+    this.setupPeerConnectionHandlers();
+
+    if (this.options.isHost) {
+      // The host owns the data channel
+      this.dataChannel = this.peer.createDataChannel('messages', {
+        ordered: true
+      });
+      this.setupDataChannelHandlers();
+    } else {
+      // Handle incoming data channel
+      this.peer.ondatachannel = (event) => {
+        this.dataChannel = event.channel;
+        this.setupDataChannelHandlers();
+      };
+    }
+  }
+
+  private teardownPeerConnection(): void {
+    // Detach handlers first so closing doesn't report a drop we caused ourselves
+    if (this.dataChannel) {
+      this.dataChannel.onopen = null;
+      this.dataChannel.onclose = null;
+      this.dataChannel.onmessage = null;
+      this.dataChannel.close();
+    }
+    if (this.peer) {
+      this.peer.onconnectionstatechange = null;
+      this.peer.onicecandidate = null;
+      this.peer.onnegotiationneeded = null;
+      this.peer.ondatachannel = null;
+      this.peer.close();
+    }
+    if (this.iceRestartTimeout) {
+      clearTimeout(this.iceRestartTimeout);
+      this.iceRestartTimeout = null;
+    }
+    this.dataChannel = null;
+    this.peer = null;
+    this.makingOffer = false;
+    this.ignoreOffer = false;
+    this.pendingCandidates = [];
+  }
+
+  /**
+   * Replace a failed RTCPeerConnection (e.g. after a Wi-Fi to LTE switch)
+   * with a fresh one. Session keys are kept, so paused file transfers pick
+   * up where they left off once the new data channel opens.
+   */
+  async restart(): Promise<void> {
+    this.fileTransfers.pause();
+    this.teardownPeerConnection();
+    this.start();
+
+    if (this.options.isHost) {
+      await this.sendOffer();
+    }
+  }
+
+  /**
+   * Try to find a new network path for the connection we have, keeping its
+   * DTLS session and data channel. The connection is rebuilt if the data
+   * channel is gone already, or if the restart doesn't connect in time.
+   */
+  private async recover(): Promise<void> {
+    if (this.dataChannel?.readyState !== 'open' || this.iceRestartTimeout) {
+      await this.restart();
+      return;
+    }
+    this.iceRestartTimeout = setTimeout(() => {
+      this.iceRestartTimeout = null;
+      if (this.peer?.connectionState !== 'connected') {
+        this.restart().catch((error) => {
+          console.error('Failed to restart peer connection:', error);
+        });
+      }
+    }, ICE_RESTART_TIMEOUT_MS);
+    await this.sendOffer(true);
+  }
+
+  /**
+   * Take up fresh ICE servers before the TURN credentials in use expire. A
+   * relayed connection needs allocations under the new ones, so the host
+   * restarts ICE for it and the guest gathers again for the new offer.
+   */
+  async refreshIceServers(): Promise<void> {
+    if (!this.peer) return;
+    this.peer.setConfiguration(this.options.rtcConfiguration());
+    if (this.options.isHost && this.peer.connectionState === 'connected' && await this.isRelayed()) {
+      await this.sendOffer(true);
+    }
+  }
+
+  // Whether the pair in use goes through a TURN server on either side
+  private async isRelayed(): Promise<boolean> {
+    if (!this.peer) return false;
+    const stats = await this.peer.getStats();
+    let relayed = false;
+    stats.forEach((report) => {
+      if (report.type !== 'candidate-pair' || !report.nominated || report.state !== 'succeeded') return;
+      const local = stats.get(report.localCandidateId);
+      const remote = stats.get(report.remoteCandidateId);
+      if (local?.candidateType === 'relay' || remote?.candidateType === 'relay') {
+        relayed = true;
+      }
+    });
+    return relayed;
+  }
+
+  async sendOffer(iceRestart = false): Promise<void> {
+    const peer = this.peer;
+    if (!peer) return;
+    if (iceRestart) {
+      // Taken up by the next offer, whenever that can go out
+      peer.restartIce();
+    }
+
+    // Deliver once the signaling socket is back (and rejoined) if it is
+    // down right now
+    if (!this.options.canSignal()) {
+      this.pendingOffer = true;
+      return;
+    }
+
+    this.pendingOffer = false;
+    try {
+      this.makingOffer = true;
+      await peer.setLocalDescription();
+      if (!this.options.trickleIce) {
+        await iceGatheringComplete(peer);
+      }
+    } finally {
+      this.makingOffer = false;
+    }
+    // Answering the other side's offer got in first, or we were torn down
+    if (this.peer !== peer || peer.localDescription?.type !== 'offer') return;
+
+    this.options.signal({
+      type: 'webrtc-offer',
+      offer: peer.localDescription,
+      // Until the guest has answered it
+      kemPublicKey: this.options.isHost && this.crypto.isKemPending() ? this.crypto.getKemPublicKey() : undefined
+    });
+  }
+
+  hasPendingOffer(): boolean {
+    return this.pendingOffer;
+  }
+
+  needsRestart(): boolean {
+    const state = this.peer?.connectionState;
+    return state === 'failed' || state === 'closed';
+  }
+
+  hasDataChannel(): boolean {
+    return this.dataChannel !== null;
+  }
+
+  // Offers, answers and ICE candidates from this peer
+  async handleSignal(message: any): Promise<void> {
+    if (!this.peer) return;
+
+    switch (message.type) {
+      case 'webrtc-offer': {
+        // A new DTLS fingerprint means the other side rebuilt its connection;
+        // follow suit before answering. Otherwise it is renegotiating or
+        // restarting ICE on the connection we have
+        if (this.peer.remoteDescription &&
+            sdpFingerprint(message.offer.sdp) !== sdpFingerprint(this.peer.remoteDescription.sdp)) {
+          this.fileTransfers.pause();
+          this.teardownPeerConnection();
+          this.start();
+        }
+        const peer = this.peer;
+        if (!peer) return;
+
+        const readyForOffer = !this.makingOffer && (peer.signalingState === 'stable' || this.settingRemoteAnswer);
+        this.ignoreOffer = !readyForOffer && this.options.isHost;
+        if (this.ignoreOffer) return;
+
+        // Rolls back our own offer if it collided with this one
+        await peer.setRemoteDescription(message.offer);
+        await this.addPendingCandidates();
+        await peer.setLocalDescription();
+        if (!this.options.trickleIce) {
+          await iceGatheringComplete(peer);
+        }
+
+        // The host asked for a hybrid key agreement. The KEM values go into
+        // the transcript, so one forged in transit fails key confirmation
+        const kemCiphertext = !this.options.isHost && typeof message.kemPublicKey === 'string' && !this.crypto.hasSessionKeys()
+          ? this.crypto.encapsulateKem(message.kemPublicKey)
+          : undefined;
+
+        this.options.signal({
+          type: 'webrtc-answer',
+          answer: peer.localDescription,
+          kemCiphertext
+        });
+        break;
+      }
+
+      case 'webrtc-answer':
+        // Answers an offer we have since rolled back
+        if (this.peer.signalingState !== 'have-local-offer') return;
+        if (typeof message.kemCiphertext === 'string' && this.crypto.isKemPending()) {
+          try {
+            this.crypto.decapsulateKem(message.kemCiphertext);
+          } catch (error) {
+            console.error('Host: Post-quantum key agreement failed:', error);
+            this.onError?.(new Error('Post-quantum key agreement failed'));
+            break;
+          }
+        }
+        try {
+          this.settingRemoteAnswer = true;
+          await this.peer.setRemoteDescription(message.answer);
+        } finally {
+          this.settingRemoteAnswer = false;
+        }
+        await this.addPendingCandidates();
+        break;
+
+      case 'ice-candidate':
+        if (!this.peer.remoteDescription) {
+          this.pendingCandidates.push(message.candidate);
+          break;
+        }
+        await this.addCandidate(message.candidate);
+        break;
+    }
+  }
+
+  private async addPendingCandidates(): Promise<void> {
+    for (const candidate of this.pendingCandidates.splice(0)) {
+      await this.addCandidate(candidate);
+    }
+  }
+
+  private async addCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    try {
+      await this.peer?.addIceCandidate(candidate);
+    } catch (error) {
+      // Candidates for an offer we ignored, or from before an ICE restart,
+      // have nowhere to go
+      if (!this.ignoreOffer) {
+        console.warn('Dropping ICE candidate:', error);
+      }
+    }
+  }
+
+  private setupPeerConnectionHandlers(): void {
+    if (!this.peer) return;
+
+    this.peer.onconnectionstatechange = () => {
+      if (this.peer) {
+        this.onConnectionStateChange?.(this.peer.connectionState);
+
+        // The host drives recovery; the guest answers its offers
+        if (this.peer.connectionState === 'failed' && this.options.isHost) {
+          this.recover().catch((error) => {
+            console.error('Failed to recover peer connection:', error);
+          });
+        } else if (this.peer.connectionState === 'connected' && this.iceRestartTimeout) {
+          clearTimeout(this.iceRestartTimeout);
+          this.iceRestartTimeout = null;
+        }
+      }
+    };
+
+    // Channels or media added once connected. The host's first offer is
+    // sent explicitly, once the guest's key exchange checks out
+    this.peer.onnegotiationneeded = () => {
+      if (!this.peer?.remoteDescription) return;
+      this.sendOffer().catch((error) => {
+        console.error('Failed to renegotiate:', error);
+      });
+    };
+
+    this.peer.onicecandidate = (event) => {
+      if (event.candidate && this.options.trickleIce) {
+        this.options.signal({
+          type: 'ice-candidate',
+          candidate: event.candidate
+        });
+      }
+    };
+  }
+
+  private setupDataChannelHandlers(): void {
+    if (!this.dataChannel) return;
+
+    // File chunks arrive as binary frames
+    this.dataChannel.binaryType = 'arraybuffer';
+
+    this.dataChannel.onopen = () => {
+      this.startNegotiation();
+      this.onDataChannelOpen?.();
+    };
+
+    this.dataChannel.onclose = () => {
+      this.resetNegotiation(new Error('Data channel closed'));
+      this.reassembler.reset();
+      this.fileTransfers.pause();
+      this.onDataChannelClose?.();
+    };
+
+    this.dataChannel.onmessage = (event) => {
+      // Process frames strictly in arrival order so a manifest is always
+      // handled before the chunks that follow it
+      this.receiveQueue = this.receiveQueue.then(() => this.handleDataChannelMessage(event.data));
+    };
+  }
+
+  /**
+   * Announce our protocol version and features as soon as the channel opens.
+   * The hello is plaintext JSON text so version 1 clients, which only act on
+   * `encrypted` messages, simply ignore it.
+   */
+  private startNegotiation(): void {
+    this.resetNegotiation();
+    this.dataChannel?.send(JSON.stringify(this.localHello));
+    this.helloTimeout = setTimeout(() => this.completeNegotiation(null), HELLO_TIMEOUT_MS);
+  }
+
+  private async completeNegotiation(remote: HelloMessage | null): Promise<void> {
+    // A late hello still upgrades a session that fell back to version 1
+    if (this.protocol && !remote) return;
+    if (this.helloTimeout) {
+      clearTimeout(this.helloTimeout);
+      this.helloTimeout = null;
+    }
+
+    let protocol: NegotiatedProtocol;
+    try {
+      protocol = negotiateProtocol(this.localHello, remote);
+    } catch (error) {
+      this.resetNegotiation(error as Error);
+      this.onError?.(error as Error);
+      return;
+    }
+
+    // Without key confirmation nothing proves the peer holds our keys, so
+    // version 1 needs the user's say-so. A hello may still arrive late
+    if (protocol.version === LEGACY_PROTOCOL_VERSION && !this.options.allowLegacyPeers()) {
+      const error = new Error(remote
+        ? "The other device's app is too old to confirm the session keys. Allow old app versions in Settings to connect anyway"
+        : "The other device didn't say which app version it runs. If it's an old one, allow old app versions in Settings to connect");
+      this.resetNegotiation(error);
+      this.onError?.(error);
+      return;
+    }
+
+    // Version 1 peers can't do the hybrid agreement either
+    if (protocol.version === LEGACY_PROTOCOL_VERSION && this.crypto.isKemPending()) {
+      const error = new Error("The other device doesn't support post-quantum key agreement");
+      this.resetNegotiation(error);
+      this.onError?.(error);
+      return;
+    }
+
+    try {
+      if (protocol.version === LEGACY_PROTOCOL_VERSION) {
+        await this.crypto.deriveLegacyKey();
+      } else {
+        const handshake = this.handshakeContext(protocol.version);
+        if (!this.crypto.hasSessionKeys()) {
+          await this.crypto.deriveSessionKeys(handshake);
+        }
+        this.handshake = handshake;
+      }
+    } catch (error) {
+      this.resetNegotiation(error as Error);
+      this.onError?.(error as Error);
+      return;
+    }
+
+    this.protocol = protocol;
+    this.protocolWaiters.forEach(waiter => waiter.resolve(protocol));
+    this.protocolWaiters = [];
+    this.onProtocolNegotiated?.(protocol);
+
+    if (this.handshake) {
+      try {
+        const mac = await this.crypto.createKeyConfirmation(this.handshake);
+        await this.sendEnvelope({ type: 'key-confirm', mac });
+      } catch (error) {
+        console.error('Failed to send key confirmation:', error);
+      }
+    } else {
+      // Version 1 peers, allowed by the user, can't confirm keys; the short
+      // authentication string is the only check they get
+      this.confirmSession();
+    }
+
+    if (supportsEnvelope(protocol, 'file-manifest')) {
+      this.fileTransfers.resume().catch((error) => {
+        console.error('Failed to resume file transfers:', error);
+      });
+    }
+  }
+
+  private resetNegotiation(error?: Error): void {
+    if (this.helloTimeout) {
+      clearTimeout(this.helloTimeout);
+      this.helloTimeout = null;
+    }
+    this.protocol = null;
+    this.handshake = null;
+    this.sessionConfirmed = false;
+    if (error) {
+      this.protocolWaiters.forEach(waiter => waiter.reject(error));
+      this.protocolWaiters = [];
+      this.confirmWaiters.forEach(waiter => waiter.reject(error));
+      this.confirmWaiters = [];
+    }
+  }
+
+  private confirmSession(): void {
+    this.sessionConfirmed = true;
+    this.confirmWaiters.forEach(waiter => waiter.resolve());
+    this.confirmWaiters = [];
+    this.onSessionConfirmed?.();
+  }
+
+  // Whether the current data channel has completed key confirmation
+  isSessionConfirmed(): boolean {
+    return this.sessionConfirmed;
+  }
+
+  getProtocol(): NegotiatedProtocol | null {
+    return this.protocol;
+  }
+
+  private handshakeContext(protocolVersion: number): HandshakeContext {
+    if (!this.peer) {
+      throw new Error('No active connection');
+    }
+    return {
+      sessionId: this.options.sessionId,
+      isHost: this.options.isHost,
+      protocolVersion,
+      localFingerprint: sdpFingerprint(this.peer.localDescription?.sdp),
+      remoteFingerprint: sdpFingerprint(this.peer.remoteDescription?.sdp)
+    };
+  }
+
+  private whenNegotiated(): Promise<NegotiatedProtocol> {
+    if (this.protocol) {
+      return Promise.resolve(this.protocol);
+    }
+    return new Promise((resolve, reject) => {
+      this.protocolWaiters.push({ resolve, reject });
+    });
+  }
+
+  private whenConfirmed(): Promise<void> {
+    if (this.sessionConfirmed) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      this.confirmWaiters.push({ resolve, reject });
+    });
+  }
+
+  private async handleDataChannelMessage(raw: string | ArrayBuffer): Promise<void> {
+    try {
+      if (typeof raw === 'string') {
+        await this.handleTextMessage(raw);
+        return;
+      }
+      if (!this.crypto.hasSessionKeys()) {
+        return;
+      }
+
+      const frame = this.reassembler.push(raw);
+      if (!frame) return;
+
+      const { type, plaintext } = await this.frames.open(frame);
+
+      switch (type) {
+        case FrameType.FileChunk:
+          // Nothing but key confirmation counts before the keys are confirmed
+          if (this.sessionConfirmed) {
+            await this.fileTransfers.handleChunk(plaintext);
+          }
+          break;
+
+        case FrameType.Envelope: {
+          const envelope = JSON.parse(new TextDecoder().decode(plaintext));
+          if (isPeerEnvelope(envelope)) {
+            await this.handleEnvelope(envelope);
+          } else {
+            console.warn('Ignoring unknown envelope type:', envelope?.type);
+          }
+          break;
+        }
+
+        default:
+          console.warn('Ignoring unknown frame type:', type);
+      }
+    } catch (error) {
+      console.error('Message decryption error:', error);
+      this.onError?.(error as Error);
+    }
+  }
+
+  // Text messages are either a hello or a version 1 encrypted chat message
+  private async handleTextMessage(raw: string): Promise<void> {
+    const data = JSON.parse(raw);
+
+    if (isHelloMessage(data)) {
+      await this.completeNegotiation(data);
+      return;
+    }
+
+    if (data.encrypted && this.crypto.isReady()) {
+      // A version 1 peer spoke before our hello timed out
+      if (!this.protocol && this.options.allowLegacyPeers()) {
+        await this.completeNegotiation(null);
+      }
+      // Version 2 sessions never hold the legacy chat key
+      if (this.protocol?.version !== LEGACY_PROTOCOL_VERSION) return;
+
+      this.onMessage?.({
+        id: data.id,
+        content: await this.crypto.decrypt(data.ciphertext, data.nonce),
+        timestamp: data.timestamp,
+        isLocal: false,
+        encrypted: true,
+        peerId: this.id
+      });
+    }
+  }
+
+  private async handleEnvelope(envelope: PeerEnvelope): Promise<void> {
+    if (!this.sessionConfirmed && envelope.type !== 'key-confirm') {
+      console.warn(`Dropping ${envelope.type} envelope sent before key confirmation`);
+      return;
+    }
+
+    if (isFileEnvelope(envelope)) {
+      await this.fileTransfers.handleEnvelope(envelope);
+      return;
+    }
+
+    switch (envelope.type) {
+      case 'chat':
+        this.onMessage?.({
+          id: envelope.id,
+          content: envelope.content,
+          timestamp: envelope.timestamp,
+          isLocal: false,
+          encrypted: true,
+          peerId: this.id
+        });
+        if (this.protocol && supportsEnvelope(this.protocol, 'receipt')) {
+          await this.sendEnvelope({ type: 'receipt', messageId: envelope.id });
+        }
+        break;
+
+      case 'typing':
+        this.onPeerTyping?.(envelope.isTyping);
+        break;
+
+      case 'receipt':
+        this.onMessageDelivered?.(envelope.messageId);
+        break;
+
+      case 'control':
+        if (envelope.action === 'session-end') {
+          this.onPeerEndedSession?.();
+        }
+        break;
+
+      case 'key-confirm':
+        if (this.handshake && await this.crypto.verifyKeyConfirmation(this.handshake, envelope.mac)) {
+          this.confirmSession();
+        } else {
+          this.dataChannel?.close();
+          this.onError?.(new Error('Key confirmation failed; the connection may have been tampered with'));
+        }
+        break;
+
+      case 'identity':
+        this.onPeerIdentity?.(envelope.identity);
+        break;
+    }
+  }
+
+  private sendFrame(type: FrameType, plaintext: Uint8Array): Promise<void> {
+    const send = async () => {
+      const channel = this.dataChannel;
+      if (!channel || channel.readyState !== 'open') {
+        throw new Error('Data channel not ready');
+      }
+
+      if (!this.crypto.hasSessionKeys()) {
+        throw new Error('Encryption not ready');
+      }
+
+      const frame = await this.frames.seal(type, plaintext);
+
+      // Large messages (e.g. long pastes) go out as fragments that each fit
+      // the peer's SCTP max-message-size
+      const maxMessageSize = Math.min(this.peer?.sctp?.maxMessageSize || MAX_FRAME_SIZE, MAX_FRAME_SIZE);
+      for (const fragment of fragmentFrame(frame, maxMessageSize)) {
+        channel.send(fragment);
+      }
+    };
+
+    const result = this.sendQueue.then(send);
+    this.sendQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Send an envelope in whatever form the negotiated protocol allows: a
+   * binary frame for version 2 peers, the original JSON text message for
+   * chat with version 1 peers. Anything but our key confirmation waits
+   * until the peer's has checked out. Throws if the peer can't handle it at
+   * all.
+   */
+  async sendEnvelope(envelope: PeerEnvelope): Promise<void> {
+    if (!this.isDataChannelOpen()) {
+      throw new Error('Data channel not ready');
+    }
+
+    const protocol = await this.whenNegotiated();
+    if (!supportsEnvelope(protocol, envelope.type)) {
+      throw new Error(`The peer's app doesn't support ${envelope.type} messages`);
+    }
+    if (envelope.type !== 'key-confirm') {
+      await this.whenConfirmed();
+    }
+
+    if (protocol.version === LEGACY_PROTOCOL_VERSION && envelope.type === 'chat') {
+      await this.sendLegacyChat(envelope.id, envelope.content, envelope.timestamp);
+      return;
+    }
+
+    await this.sendFrame(FrameType.Envelope, new TextEncoder().encode(JSON.stringify(envelope)));
+  }
+
+  private async sendLegacyChat(id: string, content: string, timestamp: number): Promise<void> {
+    if (!this.crypto.isReady()) {
+      throw new Error('Encryption not ready');
+    }
+
+    const { ciphertext, nonce } = await this.crypto.encrypt(content);
+    this.dataChannel?.send(JSON.stringify({ id, ciphertext, nonce, timestamp, encrypted: true }));
+  }
+
+  async sendFile(file: File): Promise<string> {
+    if (!this.isDataChannelOpen()) {
+      throw new Error('Data channel not ready');
+    }
+
+    if (!this.crypto.isReady()) {
+      throw new Error('Encryption not ready');
+    }
+
+    if (this.protocol && !supportsEnvelope(this.protocol, 'file-manifest')) {
+      throw new Error("The peer's app doesn't support file transfer");
+    }
+
+    return await this.fileTransfers.sendFile(file);
+  }
+
+  async sendFolder(folder: PickedFolder): Promise<string> {
+    if (!this.isDataChannelOpen()) {
+      throw new Error('Data channel not ready');
+    }
+
+    if (!this.crypto.isReady()) {
+      throw new Error('Encryption not ready');
+    }
+
+    if (this.protocol && !supportsEnvelope(this.protocol, 'file-batch')) {
+      throw new Error("The peer's app doesn't support folder transfer");
+    }
+
+    return await this.fileTransfers.sendBatch(folder);
+  }
+
+  // Must be called from a user gesture when the destination is 'disk'
+  async acceptIncomingFile(transferId: string, destination: FileDestination): Promise<boolean> {
+    return await this.fileTransfers.acceptFile(transferId, destination);
+  }
+
+  async declineIncomingFile(transferId: string): Promise<void> {
+    await this.fileTransfers.declineFile(transferId);
+  }
+
+  // Must be called from a user gesture when the destination is 'disk'
+  async acceptIncomingBatch(batchId: string, destination: FileDestination): Promise<boolean> {
+    return await this.fileTransfers.acceptBatch(batchId, destination);
+  }
+
+  async declineIncomingBatch(batchId: string): Promise<void> {
+    await this.fileTransfers.declineBatch(batchId);
+  }
+
+  sendTypingIndicator(isTyping: boolean): void {
+    // Over the data channel when the peer understands it, otherwise via the server
+    if (this.protocol && supportsEnvelope(this.protocol, 'typing')) {
+      this.sendEnvelope({ type: 'typing', isTyping }).catch(() => undefined);
+      return;
+    }
+
+    this.options.signal({
+      type: 'typing',
+      isTyping
+    });
+  }
+
+  // Tell the peer we're leaving, then drop everything we hold for it
+  close(): void {
+    // Best effort: lets the peer tell an ended session from a dropped one
+    if (this.isDataChannelOpen() && this.protocol && supportsEnvelope(this.protocol, 'control')) {
+      this.sendEnvelope({ type: 'control', action: 'session-end' }).catch(() => undefined);
+    }
+    this.resetNegotiation(new Error('Session ended'));
+    this.teardownPeerConnection();
+    this.crypto.cleanup();
+    this.frames.reset();
+    this.reassembler.reset();
+    this.fileTransfers.cleanup();
+  }
+
+  isDataChannelOpen(): boolean {
+    return this.dataChannel?.readyState === 'open';
+  }
+}
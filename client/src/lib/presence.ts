@@ -0,0 +1,159 @@
+import { signInvite, verifyInvite } from './crypto';
+import { getIdentity, getTrustedDevice, proveIdentity, trustedPairingSecret } from './identity';
+import { openSignalingTransport, type SignalingTransport, type SignalingTransportKind } from './signaling-transport';
+import { getSignalingUrl } from './webrtc';
+import type { QRData, TrustedDevice, TrustedInvite } from '../types';
+
+const RECONNECT_DELAY_MS = 5000;
+const INVITE_RESULT_TIMEOUT_MS = 10000;
+
+/**
+ * Keeps this device reachable by its trusted devices while the app is open,
+ * over whichever signaling transport gets through, as sessions do.
+ * Proves the identity to the signaling server, which then routes invites
+ * for its ID to us, and turns invites from trusted devices into
+ * TrustedInvites; invites that don't verify against a known device are
+ * dropped.
+ */
+export class PresenceManager {
+  private transport: SignalingTransport | null = null;
+  private transportKind: SignalingTransportKind = 'websocket';
+  private closed = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private inviteResults = new Map<string, (delivered: boolean) => void>();
+
+  public onInvite?: (invite: TrustedInvite) => void;
+
+  async start(): Promise<void> {
+    await getIdentity();
+    this.connect();
+  }
+
+  private async connect(): Promise<void> {
+    if (this.closed) return;
+
+    let transport: SignalingTransport;
+    try {
+      transport = await openSignalingTransport(getSignalingUrl(), this.transportKind);
+    } catch (error) {
+      console.warn('Presence connection failed:', error);
+      this.reconnect();
+      return;
+    }
+    if (this.closed) {
+      transport.close();
+      return;
+    }
+    this.transport = transport;
+    this.transportKind = transport.kind;
+
+    transport.onmessage = (message) => {
+      this.handleMessage(message).catch((error) => {
+        console.error('Presence message error:', error);
+      });
+    };
+
+    transport.onclose = () => {
+      this.transport = null;
+      this.inviteResults.forEach(resolve => resolve(false));
+      this.inviteResults.clear();
+      this.reconnect();
+    };
+
+    transport.send({ type: 'identity-challenge' });
+  }
+
+  private reconnect(): void {
+    if (!this.closed) {
+      this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+    }
+  }
+
+  private async handleMessage(message: any): Promise<void> {
+    switch (message.type) {
+      case 'identity-challenge': {
+        const identity = await getIdentity();
+        this.transport?.send({
+          type: 'register-identity',
+          publicKey: identity.publicKey,
+          proof: await proveIdentity(identity, message.nonce, message.serverKey)
+        });
+        break;
+      }
+
+      case 'identity-rejected':
+        console.warn('Signaling server rejected our identity proof; invites will not reach us');
+        break;
+
+      case 'trusted-invite': {
+        const device = await getTrustedDevice(message.from);
+        if (!device) return;
+
+        const identity = await getIdentity();
+        const pairingSecret = await trustedPairingSecret(identity, device, message.sessionId);
+        if (!await verifyInvite(pairingSecret, message.sessionId, message.hostPublicKey, message.mac)) {
+          console.warn('Ignoring invite that failed verification');
+          return;
+        }
+
+        this.onInvite?.({
+          device,
+          sessionId: message.sessionId,
+          hostPublicKey: message.hostPublicKey,
+          pairingSecret,
+          guestToken: message.guestToken
+        });
+        break;
+      }
+
+      case 'trusted-invite-result':
+        this.inviteResults.get(message.sessionId)?.(!!message.delivered);
+        this.inviteResults.delete(message.sessionId);
+        break;
+    }
+  }
+
+  /**
+   * Ask a trusted device to join the session we are hosting, passing on a
+   * guest token for it. Resolves to false if the device isn't online.
+   */
+  async invite(device: TrustedDevice, session: QRData, pairingSecret: string, guestToken: string): Promise<boolean> {
+    const { sessionId, hostPublicKey } = session;
+    const transport = this.transport;
+    if (!transport?.isOpen) {
+      return false;
+    }
+
+    const mac = await signInvite(pairingSecret, sessionId, hostPublicKey);
+    const delivered = new Promise<boolean>((resolve) => {
+      const timeout = setTimeout(() => {
+        this.inviteResults.delete(sessionId);
+        resolve(false);
+      }, INVITE_RESULT_TIMEOUT_MS);
+      this.inviteResults.set(sessionId, (result) => {
+        clearTimeout(timeout);
+        resolve(result);
+      });
+    });
+
+    transport.send({
+      type: 'trusted-invite',
+      to: device.id,
+      sessionId,
+      hostPublicKey,
+      guestToken,
+      mac
+    });
+    return await delivered;
+  }
+
+  stop(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.transport?.close();
+    this.transport = null;
+  }
+}
@@ -0,0 +1,105 @@
+import { base64ToBytes, bytesToBase64, encodePairingSecret } from './crypto';
+
+/**
+ * Data too big for one QR code, split across a loop of codes the other
+ * device's camera can pick up in any order. Every frame names its set, so
+ * frames left over from an earlier loop are never mixed into a new one:
+ *
+ *   PQR1:<set ID>:<index>/<count>:<base64 part>
+ */
+
+const FRAME_PREFIX = 'PQR1';
+
+// Characters of data per frame: dense enough to keep loops short, sparse
+// enough for a phone camera to read off a laptop screen at arm's length
+const FRAME_DATA_CHARS = 300;
+
+// A QR code loop no one could sit through
+const MAX_FRAMES = 1000;
+
+const FRAME_PATTERN = /^PQR1:([A-Za-z0-9_-]{1,16}):(\d+)\/(\d+):([A-Za-z0-9+/=]*)$/;
+
+export function encodeQrFrames(data: Uint8Array): string[] {
+  const text = bytesToBase64(data);
+  const count = Math.max(1, Math.ceil(text.length / FRAME_DATA_CHARS));
+  if (count > MAX_FRAMES) {
+    throw new Error('Too much data for animated QR codes');
+  }
+  const setId = encodePairingSecret(crypto.getRandomValues(new Uint8Array(6)));
+  return Array.from({ length: count }, (_, index) => {
+    const part = text.slice(index * FRAME_DATA_CHARS, (index + 1) * FRAME_DATA_CHARS);
+    return `${FRAME_PREFIX}:${setId}:${index}/${count}:${part}`;
+  });
+}
+
+export function isQrFrame(text: string): boolean {
+  return text.startsWith(`${FRAME_PREFIX}:`);
+}
+
+/**
+ * Turns scanned QR texts back into data. `received` out of `total` is how
+ * far along it is, in whatever units the frame format counts.
+ */
+export interface FrameCollector {
+  // Whether the scanned text was a frame we hadn't seen yet
+  add(text: string): boolean;
+  readonly received: number;
+  // Zero until the first frame arrives
+  readonly total: number;
+  // The data, once enough frames are in
+  result(): Uint8Array | null;
+  reset(): void;
+}
+
+/**
+ * Collects the frames of one set as they are scanned. A frame from a
+ * different set starts over, since the other device is showing new data.
+ */
+export class QrFrameCollector implements FrameCollector {
+  private setId: string | null = null;
+  private parts: Array<string | undefined> = [];
+  private receivedCount = 0;
+
+  add(text: string): boolean {
+    const match = FRAME_PATTERN.exec(text);
+    if (!match) return false;
+
+    const [, setId, indexText, countText, part] = match;
+    const index = parseInt(indexText);
+    const count = parseInt(countText);
+    if (count < 1 || count > MAX_FRAMES || index >= count) return false;
+
+    if (setId !== this.setId || count !== this.parts.length) {
+      this.setId = setId;
+      this.parts = new Array(count).fill(undefined);
+      this.receivedCount = 0;
+    }
+    if (this.parts[index] !== undefined) return false;
+
+    this.parts[index] = part;
+    this.receivedCount++;
+    return true;
+  }
+
+  get received(): number {
+    return this.receivedCount;
+  }
+
+  get total(): number {
+    return this.parts.length;
+  }
+
+  isComplete(): boolean {
+    return this.parts.length > 0 && this.receivedCount === this.parts.length;
+  }
+
+  result(): Uint8Array | null {
+    return this.isComplete() ? base64ToBytes(this.parts.join('')) : null;
+  }
+
+  reset(): void {
+    this.setId = null;
+    this.parts = [];
+    this.receivedCount = 0;
+  }
+}
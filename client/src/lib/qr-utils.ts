@@ -29,6 +29,8 @@ export function parseQRUrl(url: string): QRData | null {
     const hostPublicKey = params.get('epk');
     const expiration = params.get('exp');
     const signature = params.get('sig');
+    // The fragment is never sent to the server, so the pairing secret lives there
+    const pairingSecret = new URLSearchParams(urlObj.hash.slice(1)).get('k') || undefined;
     
     if (!sessionId || !hostPublicKey || !expiration || !signature) {
       return null;
@@ -38,7 +40,8 @@ export function parseQRUrl(url: string): QRData | null {
       sessionId,
       hostPublicKey: decodeURIComponent(hostPublicKey),
       expiration: parseInt(expiration),
-      signature
+      signature,
+      pairingSecret
     };
   } catch (error) {
     console.error('QR URL parsing error:', error);
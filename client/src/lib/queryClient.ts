@@ -11,6 +11,7 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers?: Record<string, string>,
 ): Promise<Response> {
   // Prepend backend URL for API calls
   const backendUrl = import.meta.env.VITE_SIGNALING_URL || 'http://localhost:3000';
@@ -20,7 +21,8 @@ export async function apiRequest(
     method,
     headers: {
       "Content-Type": "application/json",
-      "Accept": "application/json"
+      "Accept": "application/json",
+      ...headers
     },
     body: data ? JSON.stringify(data) : undefined,
     mode: "cors"
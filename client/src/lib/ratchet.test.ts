@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ChainRatchet, MAX_SKIPPED_MESSAGES, RatchetError } from './ratchet';
+
+const chainKey = () => new Uint8Array(32).fill(7);
+
+// Key for `counter`, committed
+function take(ratchet: ChainRatchet, counter: number): Uint8Array {
+  const { key, commit } = ratchet.peek(counter);
+  const copy = key.slice();
+  commit();
+  return copy;
+}
+
+describe('ChainRatchet', () => {
+  it('gives both ends of a chain the same key for each message', () => {
+    const sender = new ChainRatchet(chainKey());
+    const receiver = new ChainRatchet(chainKey());
+    for (let counter = 0; counter < 5; counter++) {
+      expect(take(receiver, counter)).toEqual(take(sender, counter));
+    }
+  });
+
+  it('uses a different key for every message', () => {
+    const ratchet = new ChainRatchet(chainKey());
+    const keys = Array.from({ length: 10 }, (_, counter) => take(ratchet, counter).join(','));
+    expect(new Set(keys).size).toBe(10);
+  });
+
+  it('steps over skipped messages to the same key', () => {
+    const sender = new ChainRatchet(chainKey());
+    const keys = Array.from({ length: 6 }, (_, counter) => take(sender, counter));
+
+    const receiver = new ChainRatchet(chainKey());
+    expect(take(receiver, 5)).toEqual(keys[5]);
+  });
+
+  it('never hands out a key twice or goes back for a skipped one', () => {
+    const ratchet = new ChainRatchet(chainKey());
+    take(ratchet, 3);
+    expect(() => ratchet.peek(3)).toThrow(RatchetError);
+    expect(() => ratchet.peek(1)).toThrow('already used');
+    expect(() => ratchet.peek(4)).not.toThrow();
+  });
+
+  it('only moves on once the key is committed', () => {
+    const sender = new ChainRatchet(chainKey());
+    const expected = take(sender, 0);
+
+    const receiver = new ChainRatchet(chainKey());
+    receiver.peek(2);
+    expect(take(receiver, 0)).toEqual(expected);
+  });
+
+  it(`skips at most ${MAX_SKIPPED_MESSAGES} messages at once`, () => {
+    const ratchet = new ChainRatchet(chainKey());
+    expect(() => ratchet.peek(MAX_SKIPPED_MESSAGES + 1)).toThrow('Too many skipped messages');
+
+    take(ratchet, MAX_SKIPPED_MESSAGES);
+    // The window moves with the chain
+    expect(() => ratchet.peek(2 * MAX_SKIPPED_MESSAGES + 1)).not.toThrow();
+    expect(() => ratchet.peek(2 * MAX_SKIPPED_MESSAGES + 2)).toThrow('Too many skipped messages');
+  });
+
+  it('refuses to derive keys once destroyed', () => {
+    const ratchet = new ChainRatchet(chainKey());
+    ratchet.destroy();
+    expect(() => ratchet.peek(0)).toThrow('destroyed');
+  });
+});
@@ -0,0 +1,76 @@
+import { hmac } from '@noble/hashes/hmac.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+
+/**
+ * Symmetric-key ratchet (the KDF chain from the Signal Double Ratchet).
+ *
+ * Each direction of a session has a chain key. Every message steps the
+ * chain: the old chain key yields that message's key and the next chain
+ * key, then is wiped. Message keys are used once and wiped too, so whoever
+ * steals the current state can't decrypt anything sent before it.
+ */
+
+const MESSAGE_KEY_INPUT = Uint8Array.of(0x01);
+const CHAIN_KEY_INPUT = Uint8Array.of(0x02);
+
+// Frames lost with a dropped data channel leave gaps in the counters; skip
+// at most this many at once so a forged counter can't make us spin
+export const MAX_SKIPPED_MESSAGES = 4096;
+
+export class RatchetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RatchetError';
+  }
+}
+
+export class ChainRatchet {
+  private chainKey: Uint8Array;
+  private nextCounter = 0;
+
+  constructor(chainKey: Uint8Array) {
+    this.chainKey = chainKey;
+  }
+
+  /**
+   * Key for message `counter`, stepping past (and discarding) any skipped
+   * ones. Nothing changes until `commit` is called with the result, so a
+   * frame that fails to authenticate doesn't move the chain.
+   */
+  peek(counter: number): { key: Uint8Array; commit: () => void } {
+    if (this.chainKey.length === 0) {
+      throw new RatchetError('Ratchet has been destroyed');
+    }
+    if (counter < this.nextCounter) {
+      throw new RatchetError(`Message key ${counter} was already used`);
+    }
+    if (counter - this.nextCounter > MAX_SKIPPED_MESSAGES) {
+      throw new RatchetError(`Too many skipped messages before ${counter}`);
+    }
+
+    let chainKey = this.chainKey;
+    let key = new Uint8Array(0);
+    for (let step = this.nextCounter; step <= counter; step++) {
+      key.fill(0);
+      key = hmac(sha256, chainKey, MESSAGE_KEY_INPUT);
+      const next = hmac(sha256, chainKey, CHAIN_KEY_INPUT);
+      // The committed chain key is wiped on commit, intermediate ones now
+      if (chainKey !== this.chainKey) chainKey.fill(0);
+      chainKey = next;
+    }
+
+    return {
+      key,
+      commit: () => {
+        this.chainKey.fill(0);
+        this.chainKey = chainKey;
+        this.nextCounter = counter + 1;
+      }
+    };
+  }
+
+  destroy(): void {
+    this.chainKey.fill(0);
+    this.chainKey = new Uint8Array(0);
+  }
+}
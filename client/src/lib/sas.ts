@@ -0,0 +1,54 @@
+import type { ShortAuthString } from '../types';
+
+/**
+ * Short authentication strings: a few emoji (or digits) both users read out
+ * and compare to confirm nobody swapped keys in transit. The layout follows
+ * the Matrix SAS scheme: 42 bits as seven emoji from a 64-entry table, or 39
+ * bits as three 4-digit numbers.
+ */
+
+const SAS_EMOJI: Array<[string, string]> = [
+  ['🐶', 'Dog'], ['🐱', 'Cat'], ['🦁', 'Lion'], ['🐎', 'Horse'],
+  ['🦄', 'Unicorn'], ['🐷', 'Pig'], ['🐘', 'Elephant'], ['🐰', 'Rabbit'],
+  ['🐼', 'Panda'], ['🐓', 'Rooster'], ['🐧', 'Penguin'], ['🐢', 'Turtle'],
+  ['🐟', 'Fish'], ['🐙', 'Octopus'], ['🦋', 'Butterfly'], ['🌷', 'Flower'],
+  ['🌳', 'Tree'], ['🌵', 'Cactus'], ['🍄', 'Mushroom'], ['🌏', 'Globe'],
+  ['🌙', 'Moon'], ['☁️', 'Cloud'], ['🔥', 'Fire'], ['🍌', 'Banana'],
+  ['🍎', 'Apple'], ['🍓', 'Strawberry'], ['🌽', 'Corn'], ['🍕', 'Pizza'],
+  ['🎂', 'Cake'], ['❤️', 'Heart'], ['😀', 'Smiley'], ['🤖', 'Robot'],
+  ['🎩', 'Hat'], ['👓', 'Glasses'], ['🔧', 'Spanner'], ['🎅', 'Santa'],
+  ['👍', 'Thumbs Up'], ['☂️', 'Umbrella'], ['⌛', 'Hourglass'], ['⏰', 'Clock'],
+  ['🎁', 'Gift'], ['💡', 'Light Bulb'], ['📕', 'Book'], ['✏️', 'Pencil'],
+  ['📎', 'Paperclip'], ['✂️', 'Scissors'], ['🔒', 'Lock'], ['🔑', 'Key'],
+  ['🔨', 'Hammer'], ['☎️', 'Telephone'], ['🏁', 'Flag'], ['🚂', 'Train'],
+  ['🚲', 'Bicycle'], ['✈️', 'Aeroplane'], ['🚀', 'Rocket'], ['🏆', 'Trophy'],
+  ['⚽', 'Ball'], ['🎸', 'Guitar'], ['🎺', 'Trumpet'], ['🔔', 'Bell'],
+  ['⚓', 'Anchor'], ['🎧', 'Headphones'], ['📁', 'Folder'], ['📌', 'Pin']
+];
+
+// Read `count` bits starting at bit `offset`, most significant bit first
+function readBits(bytes: Uint8Array, offset: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) {
+    const bit = offset + i;
+    value = (value << 1) | ((bytes[bit >> 3] >> (7 - (bit & 7))) & 1);
+  }
+  return value;
+}
+
+export function sasFromBytes(bytes: Uint8Array): ShortAuthString {
+  if (bytes.length < 6) {
+    throw new Error('Not enough bytes for a short authentication string');
+  }
+
+  const emoji = Array.from({ length: 7 }, (_, i) => {
+    const [symbol, name] = SAS_EMOJI[readBits(bytes, i * 6, 6)];
+    return { symbol, name };
+  });
+
+  const decimal = [0, 1, 2]
+    .map(i => String(readBits(bytes, i * 13, 13) + 1000))
+    .join(' ');
+
+  return { emoji, decimal };
+}
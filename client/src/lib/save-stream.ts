@@ -0,0 +1,169 @@
+/**
+ * Write a byte stream straight to the user's device.
+ *
+ * Where the File System Access API exists the stream goes into a file the
+ * user picks. Elsewhere the service worker serves it as a streaming download
+ * (the StreamSaver approach): bytes are posted to the worker over a
+ * MessageChannel and it answers a download request with a ReadableStream fed
+ * from that port. Only if neither is available is the data collected into a
+ * Blob first.
+ */
+
+import { generateSecureUUID } from './uuid';
+
+const DOWNLOAD_PATH = '/__pairqr-download/';
+
+// An outdated worker without the download handler never answers
+const WORKER_READY_TIMEOUT_MS = 5000;
+
+export function supportsFileSystemAccess(): boolean {
+  return typeof window !== 'undefined' && typeof window.showSaveFilePicker === 'function';
+}
+
+function supportsServiceWorkerDownload(): boolean {
+  return typeof navigator !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    !!navigator.serviceWorker.controller;
+}
+
+// Whether received data can be written as it arrives instead of held in browser storage
+export function supportsStreamingToDisk(): boolean {
+  return supportsFileSystemAccess() || supportsServiceWorkerDownload();
+}
+
+async function openServiceWorkerStream(
+  fileName: string,
+  mimeType: string,
+  size?: number
+): Promise<WritableStream<Uint8Array>> {
+  const controller = navigator.serviceWorker.controller!;
+  const channel = new MessageChannel();
+  const port = channel.port1;
+  const id = generateSecureUUID();
+
+  // The worker asks for one chunk per pull, which keeps the download's pace
+  // instead of queueing the whole file inside the worker
+  let credits = 0;
+  let waiting: (() => void) | null = null;
+  let failure: Error | null = null;
+
+  const ready = new Promise<void>((resolve, reject) => {
+    setTimeout(() => reject(new Error('Service worker did not respond')), WORKER_READY_TIMEOUT_MS);
+    port.onmessage = (event) => {
+      const message = event.data as { type: string };
+      if (message.type === 'ready') {
+        resolve();
+      } else if (message.type === 'pull') {
+        credits++;
+      } else if (message.type === 'cancel') {
+        failure = new Error('Download was cancelled');
+        reject(failure);
+      }
+      if (waiting && (credits > 0 || failure)) {
+        const wake = waiting;
+        waiting = null;
+        wake();
+      }
+    };
+  });
+
+  controller.postMessage(
+    { type: 'pairqr-download', id, fileName, mimeType, size },
+    [channel.port2]
+  );
+  await ready;
+
+  // A hidden iframe starts the download without navigating away from the session
+  const frame = document.createElement('iframe');
+  frame.hidden = true;
+  frame.src = `${DOWNLOAD_PATH}${id}`;
+  document.body.appendChild(frame);
+  const removeFrame = () => setTimeout(() => frame.remove(), 10000);
+
+  return new WritableStream<Uint8Array>({
+    async write(chunk) {
+      while (credits === 0 && !failure) {
+        await new Promise<void>(resolve => { waiting = resolve; });
+      }
+      if (failure) throw failure;
+      credits--;
+      // Copied rather than transferred: the caller may still hold the buffer
+      port.postMessage({ type: 'chunk', chunk });
+    },
+    close() {
+      port.postMessage({ type: 'end' });
+      port.close();
+      removeFrame();
+    },
+    abort(reason) {
+      port.postMessage({ type: 'abort', reason: String(reason ?? 'Aborted') });
+      port.close();
+      removeFrame();
+    }
+  });
+}
+
+/**
+ * Open a writable stream to a new file on disk. Must be called from a user
+ * gesture because it may show a save picker. Resolves to null if the user
+ * dismissed the picker or the browser can't stream to disk at all.
+ */
+export async function openDiskStream(
+  fileName: string,
+  mimeType: string = 'application/octet-stream',
+  size?: number
+): Promise<WritableStream<Uint8Array> | null> {
+  if (supportsFileSystemAccess()) {
+    try {
+      const handle = await window.showSaveFilePicker!({ suggestedName: fileName });
+      return await handle.createWritable();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  if (supportsServiceWorkerDownload()) {
+    return await openServiceWorkerStream(fileName, mimeType, size);
+  }
+
+  return null;
+}
+
+/**
+ * Must be called from a user gesture: the destination is chosen before any
+ * data is read, so `openStream` is only invoked once it exists.
+ * Resolves to false if the user dismissed the picker.
+ */
+export async function saveStream(
+  openStream: () => ReadableStream<Uint8Array>,
+  fileName: string,
+  mimeType: string = 'application/octet-stream'
+): Promise<boolean> {
+  if (supportsStreamingToDisk()) {
+    const destination = await openDiskStream(fileName, mimeType);
+    if (!destination) return false;
+    await openStream().pipeTo(destination);
+    return true;
+  }
+
+  const blob = await new Response(openStream(), {
+    headers: { 'Content-Type': mimeType }
+  }).blob();
+  downloadBlob(blob, fileName);
+  return true;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // Give the download a moment to start before releasing the Blob
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
@@ -0,0 +1,28 @@
+import type { AppSettings } from '../types';
+
+const SETTINGS_KEY = 'pairqr-settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  autoClear: true,
+  requireHttps: true,
+  darkMode: false,
+  showTyping: true,
+  allowLegacyPeers: false
+};
+
+// Saved settings over the defaults, so ones added since they were saved are filled in
+export function loadSettings(): AppSettings {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return { ...DEFAULT_SETTINGS };
+
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export function saveSettings(settings: AppSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,216 @@
+import { apiRequest } from './queryClient';
+
+/**
+ * Connections to the signaling server. A WebSocket is tried first; on
+ * networks whose proxies block WebSockets the same messages go over HTTP,
+ * received as server-sent events or, where even those are held back, by
+ * long polling. Callers see the same JSON messages either way.
+ */
+
+export type SignalingTransportKind = 'websocket' | 'sse' | 'long-poll';
+
+export interface SignalingTransport {
+  readonly kind: SignalingTransportKind;
+  readonly isOpen: boolean;
+  send(message: object): void;
+  // Closing it ourselves doesn't fire onclose
+  close(): void;
+  onmessage: ((message: unknown) => void) | null;
+  onclose: (() => void) | null;
+}
+
+// In the order they are tried
+const TRANSPORT_KINDS: SignalingTransportKind[] = ['websocket', 'sse', 'long-poll'];
+
+// How long each kind gets to open before the next one is tried
+const OPEN_TIMEOUT_MS = 5000;
+
+/**
+ * Open the first transport that works, starting at `startAt`: after a
+ * dropped connection, the kind that worked last time.
+ */
+export async function openSignalingTransport(
+  websocketUrl: string,
+  startAt: SignalingTransportKind = 'websocket'
+): Promise<SignalingTransport> {
+  let lastError: unknown = new Error('No signaling transport available');
+  for (const kind of TRANSPORT_KINDS.slice(TRANSPORT_KINDS.indexOf(startAt))) {
+    try {
+      return kind === 'websocket'
+        ? await WebSocketTransport.open(websocketUrl)
+        : await HttpTransport.open(kind);
+    } catch (error) {
+      console.warn(`Signaling over ${kind} failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+function parseFrame(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    console.error('Dropping malformed signaling frame');
+    return undefined;
+  }
+}
+
+class WebSocketTransport implements SignalingTransport {
+  readonly kind = 'websocket';
+  onmessage: ((message: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  private constructor(private readonly socket: WebSocket) {
+    socket.onmessage = event => {
+      const message = parseFrame(event.data);
+      if (message !== undefined) {
+        this.onmessage?.(message);
+      }
+    };
+    socket.onclose = () => this.onclose?.();
+  }
+
+  static open(url: string): Promise<WebSocketTransport> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      const timeout = setTimeout(() => {
+        socket.close();
+        reject(new Error('Connection timeout'));
+      }, OPEN_TIMEOUT_MS);
+      socket.onopen = () => {
+        clearTimeout(timeout);
+        resolve(new WebSocketTransport(socket));
+      };
+      socket.onerror = () => {
+        clearTimeout(timeout);
+        reject(new Error('WebSocket connection failed'));
+      };
+    });
+  }
+
+  get isOpen(): boolean {
+    return this.socket.readyState === WebSocket.OPEN;
+  }
+
+  send(message: object): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  close(): void {
+    this.socket.onclose = null;
+    this.socket.close();
+  }
+}
+
+/**
+ * A signaling channel over plain HTTP: messages are POSTed one at a time,
+ * so the server sees them in order, and the server's come back over an
+ * event stream or long polls. Any failure drops the channel; the server
+ * holds our slot for a resume just as it does for a dropped WebSocket.
+ */
+class HttpTransport implements SignalingTransport {
+  onmessage: ((message: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  private closed = false;
+  private events: EventSource | null = null;
+  private sending: Promise<void> = Promise.resolve();
+
+  private constructor(readonly kind: 'sse' | 'long-poll', private readonly channelId: string) {}
+
+  static async open(kind: 'sse' | 'long-poll'): Promise<HttpTransport> {
+    const response = await apiRequest('POST', '/api/signal');
+    const { channelId } = await response.json();
+    const transport = new HttpTransport(kind, channelId);
+    if (kind === 'sse') {
+      try {
+        await transport.openEvents();
+      } catch (error) {
+        transport.close();
+        throw error;
+      }
+    } else {
+      transport.poll();
+    }
+    return transport;
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(message: object): void {
+    if (this.closed) return;
+    this.sending = this.sending
+      .then(async () => {
+        await apiRequest('POST', `/api/signal/${this.channelId}`, message);
+      })
+      .catch(error => {
+        console.warn('Failed to send signaling message:', error);
+        this.drop();
+      });
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.events?.close();
+    // After whatever is still being sent, such as our leave-session
+    this.sending
+      .then(() => apiRequest('DELETE', `/api/signal/${this.channelId}`))
+      .catch(() => {});
+  }
+
+  // The server closed the channel or we lost it
+  private drop(): void {
+    if (this.closed) return;
+    this.close();
+    this.onclose?.();
+  }
+
+  private deliver(data: string): void {
+    const message = parseFrame(data);
+    if (!this.closed && message !== undefined) {
+      this.onmessage?.(message);
+    }
+  }
+
+  // Resolves once the server's ready event gets through, which a proxy
+  // that buffers the stream would hold back
+  private openEvents(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const backendUrl = import.meta.env.VITE_SIGNALING_URL || 'http://localhost:3000';
+      const events = new EventSource(`${backendUrl}/api/signal/${this.channelId}/events`);
+      this.events = events;
+      const timeout = setTimeout(() => reject(new Error('Event stream timeout')), OPEN_TIMEOUT_MS);
+      events.addEventListener('ready', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+      events.addEventListener('closed', () => this.drop());
+      events.onmessage = event => this.deliver(event.data);
+      events.onerror = () => {
+        clearTimeout(timeout);
+        reject(new Error('Event stream failed'));
+        this.drop();
+      };
+    });
+  }
+
+  private async poll(): Promise<void> {
+    while (!this.closed) {
+      try {
+        const response = await apiRequest('GET', `/api/signal/${this.channelId}/poll`);
+        const { frames, closed }: { frames: string[]; closed: boolean } = await response.json();
+        frames.forEach(frame => this.deliver(frame));
+        if (closed) {
+          this.drop();
+        }
+      } catch (error) {
+        console.warn('Signaling poll failed:', error);
+        this.drop();
+      }
+    }
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * IndexedDB persistence for partially received files, so an interrupted
+ * transfer (dropped connection or page reload) can resume where it stopped.
+ *
+ * Chunks are keyed by transfer ID, so two transfers of the same content never
+ * share rows. After a reload the sender re-offers the file under a new
+ * transfer ID; the new transfer takes over the chunks of an abandoned attempt
+ * with the same SHA-256, so the receiver asks only for what it is still missing.
+ *
+ * Chunks are stored as Blobs, which browsers can keep on disk and hand back
+ * without reading the file into memory.
+ */
+
+const DB_NAME = 'pairqr-transfers';
+const DB_VERSION = 1;
+const PARTIALS_STORE = 'partials';
+const CHUNKS_STORE = 'chunks';
+
+// Partial files nobody came back for are purged after a day
+const PARTIAL_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface PartialFile {
+  transferId: string;
+  sha256: string;
+  name: string;
+  size: number;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function chunkRange(transferId: string): IDBKeyRange {
+  return IDBKeyRange.bound([transferId, 0], [transferId, Number.MAX_SAFE_INTEGER]);
+}
+
+// Visit every chunk of a transfer in file order
+function forEachChunk(
+  store: IDBObjectStore,
+  transferId: string,
+  visit: (cursor: IDBCursorWithValue) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = store.openCursor(chunkRange(transferId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      visit(cursor);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const partials = db.createObjectStore(PARTIALS_STORE, { keyPath: 'transferId' });
+        partials.createIndex('sha256', 'sha256');
+        db.createObjectStore(CHUNKS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async (db) => {
+      await purgeStalePartials(db);
+      return db;
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function purgeStalePartials(db: IDBDatabase): Promise<void> {
+  const tx = db.transaction([PARTIALS_STORE, CHUNKS_STORE], 'readwrite');
+  const partials = await requestToPromise(tx.objectStore(PARTIALS_STORE).getAll()) as PartialFile[];
+  const cutoff = Date.now() - PARTIAL_MAX_AGE_MS;
+
+  for (const partial of partials) {
+    if (partial.updatedAt < cutoff) {
+      tx.objectStore(PARTIALS_STORE).delete(partial.transferId);
+      tx.objectStore(CHUNKS_STORE).delete(chunkRange(partial.transferId));
+    }
+  }
+  await transactionDone(tx);
+}
+
+export function isTransferStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Record a partial file. If an earlier attempt at the same content was
+ * abandoned (no longer `isActive`), its chunks move over to this transfer.
+ */
+export async function savePartial(
+  partial: PartialFile,
+  isActive: (transferId: string) => boolean
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([PARTIALS_STORE, CHUNKS_STORE], 'readwrite');
+  const partials = tx.objectStore(PARTIALS_STORE);
+  const chunks = tx.objectStore(CHUNKS_STORE);
+
+  const previous = (await requestToPromise(partials.index('sha256').getAll(partial.sha256)) as PartialFile[])
+    .find(p => p.transferId !== partial.transferId && !isActive(p.transferId));
+  partials.put(partial);
+
+  if (previous) {
+    partials.delete(previous.transferId);
+    await forEachChunk(chunks, previous.transferId, (cursor) => {
+      const [, index] = cursor.key as [string, number];
+      chunks.put(cursor.value, [partial.transferId, index]);
+      cursor.delete();
+    });
+  }
+  await transactionDone(tx);
+}
+
+export async function putChunk(transferId: string, index: number, data: ArrayBuffer): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(CHUNKS_STORE, 'readwrite');
+  tx.objectStore(CHUNKS_STORE).put(new Blob([data]), [transferId, index]);
+  await transactionDone(tx);
+}
+
+export async function getStoredChunkIndices(transferId: string): Promise<number[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(CHUNKS_STORE, 'readonly');
+  const keys = await requestToPromise(tx.objectStore(CHUNKS_STORE).getAllKeys(chunkRange(transferId)));
+  return keys.map(key => (key as [string, number])[1]);
+}
+
+export async function readStoredFile(transferId: string, mimeType: string): Promise<Blob> {
+  const db = await openDatabase();
+  const tx = db.transaction(CHUNKS_STORE, 'readonly');
+  // Each value is a Blob handle, so this collects references, not bytes
+  const parts: Blob[] = [];
+  await forEachChunk(tx.objectStore(CHUNKS_STORE), transferId, (cursor) => {
+    parts.push(cursor.value as Blob);
+  });
+  return new Blob(parts, { type: mimeType });
+}
+
+export async function deletePartial(transferId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([PARTIALS_STORE, CHUNKS_STORE], 'readwrite');
+  tx.objectStore(PARTIALS_STORE).delete(transferId);
+  tx.objectStore(CHUNKS_STORE).delete(chunkRange(transferId));
+  await transactionDone(tx);
+}
@@ -49,3 +49,28 @@ export function isSecureContext(): boolean {
 export function generateClientId(): string {
   return generateSecureUUID();
 }
+
+// Pack a UUID into its 16 raw bytes (used in binary frame headers)
+export function uuidToBytes(uuid: string): Uint8Array {
+  const hex = uuid.replace(/-/g, '');
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// Inverse of uuidToBytes
+export function bytesToUuid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes.subarray(0, 16))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32)
+  ].join('-');
+}
@@ -1,23 +1,139 @@
-import { CryptoManager } from './crypto';
+import {
+  CryptoManager,
+  base64ToBytes,
+  bytesToBase64,
+  encodePairingSecret,
+  generatePairingSecret,
+  signKeyExchange,
+  verifyKeyExchange
+} from './crypto';
+import { PakeAttemptBudget, PakeError, Spake2, confirmationsMatch } from './pake';
+import { PeerLink } from './peer-link';
+import { OFFLINE_RTC_CONFIGURATION, UNCONFIGURED_RTC_CONFIGURATION, getRtcConfiguration } from './ice-servers';
+import { decodeOfflinePairing, encodeOfflinePairing } from './offline-pairing';
+import { openSignalingTransport, type SignalingTransport, type SignalingTransportKind } from './signaling-transport';
+import { loadSettings } from './settings';
 import { generateSecureUUID } from './uuid';
-import type { Message } from '../types';
+import type { PickedFolder } from './file-tree';
+import type { NegotiatedProtocol } from '@shared/protocol';
+import { relayedSignalSchema } from '@shared/signaling';
+import type {
+  FileBatch,
+  FileDestination,
+  FileTransfer,
+  KeyAgreementSuite,
+  Message,
+  PeerIdentity,
+  PeerInfo,
+  ShortAuthString
+} from '../types';
 
+// How long a guest waits for the signaling server to admit it
+const JOIN_TIMEOUT_MS = 10000;
+
+// Signaling kept while our socket is down; ICE candidates beyond this are stale anyway
+const MAX_OUTBOX_SIGNALS = 64;
+
+// Each passphrase exchange lets a stranger test one guess
+const MAX_PAKE_ATTEMPTS = 5;
+const PAKE_TIMEOUT_MS = 10000;
+
+// A guest's one link, whatever the host's client ID turns out to be
+export const HOST_PEER_ID = 'host';
+// A serverless host's one guest, which has no client ID
+const OFFLINE_GUEST_ID = 'guest';
+
+export function getSignalingUrl(): string {
+  // Use backend URL from environment variables
+  const backendUrl = import.meta.env.VITE_SIGNALING_URL || import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
+  return backendUrl.replace('http', 'ws') + '/ws';
+}
+
+/**
+ * One side of a session. A guest talks to the host over a single peer
+ * link; a host keeps a link per guest, each with its own connection and
+ * keys, and can address any one of them or all at once. Signaling goes
+ * through the server addressed to a client ID; the server fills in `from`.
+ */
 export class WebRTCManager {
-  private peer: RTCPeerConnection | null = null;
-  private dataChannel: RTCDataChannel | null = null;
+  // Our key pair; the host's public key is the one in the QR code
   private crypto: CryptoManager;
-  private websocket: WebSocket | null = null;
+  private links = new Map<string, PeerLink>();
+  // Incoming file and folder offers by transfer or batch ID, so accepting
+  // one reaches the link it came over
+  private offerLinks = new Map<string, string>();
+  private transport: SignalingTransport | null = null;
+  // Where reconnecting starts: the kind of transport that worked last
+  private transportKind: SignalingTransportKind = 'websocket';
   private sessionId: string | null = null;
+  // Signed by the server for this session and our role, single use; each
+  // join hands out the next one for rejoining after a dropped socket
+  private joinToken: string | null = null;
+  // Takes our slot back after a dropped socket without the others noticing,
+  // for as long as the server holds it
+  private resumeToken: string | null = null;
+  // Signaling sent while our socket was down, for after we resume
+  private outbox: object[] = [];
+  private hasJoined = false;
+  private isJoined = false;
+  private joinWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  // Only ever travels in the QR link's fragment, never through the server
+  private pairingSecret: string | null = null;
+  // Host side of passphrase joins: the passphrase while it is accepted, and
+  // the secret agreed by each exchange no key exchange has used yet
+  private joinPassphrase: string | null = null;
+  private pakeAttempts = new PakeAttemptBudget(MAX_PAKE_ATTEMPTS);
+  private pakeSecrets: string[] = [];
+  // Guest side: waiting for the host's half of the exchange
+  private pakeReplyHandler: ((message: any) => void) | null = null;
+  // Signaling that arrived before there was a peer connection to apply it to
+  private earlySignals: any[] = [];
+  // Refreshed before each connection we start, so TURN credentials are
+  // current, and handed to live connections before they expire
+  private rtcConfiguration = UNCONFIGURED_RTC_CONFIGURATION;
+  private iceRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  // Guest: the host's client ID, and what we said before we learned it
+  private hostId: string | null = null;
+  private pendingHostSignals: object[] = [];
+  // Host: session options, fixed once the first guest connects
+  private postQuantum = false;
+  private maxGuests = 1;
+  private guestCount = 0;
   private clientId: string;
+  private isHost: boolean = false;
+  // No signaling server: either it couldn't be reached, or we paired by
+  // QR codes alone
   private isOfflineMode: boolean = false;
+  // While serverless pairing waits for the link to produce its offer or answer
+  private offlineSignalHandler: ((message: any) => void) | null = null;
+  // Serverless host: the offer is out, the answer not yet scanned
+  private awaitingOfflineAnswer = false;
   private connectionAttempts: number = 0;
   private maxConnectionAttempts: number = 3;
-  
-  // Event handlers
-  public onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
-  public onDataChannelOpen?: () => void;
-  public onDataChannelClose?: () => void;
+
+  // Event handlers; per-peer events name the peer they came from
+  public onConnectionStateChange?: (state: RTCPeerConnectionState, peerId: string) => void;
+  public onDataChannelOpen?: (peerId: string) => void;
+  public onDataChannelClose?: (peerId: string) => void;
   public onMessage?: (message: Message) => void;
+  public onFileTransfer?: (transfer: FileTransfer) => void;
+  public onBatchStart?: (batch: FileBatch) => void;
+  public onIncomingTransfer?: (transfer: FileTransfer) => void;
+  public onProtocolNegotiated?: (protocol: NegotiatedProtocol, peerId: string) => void;
+  // The peer proved it holds the same session keys; only then is the
+  // connection to it really up
+  public onSessionConfirmed?: (peerId: string) => void;
+  public onPeerTyping?: (isTyping: boolean, peerId: string) => void;
+  public onMessageDelivered?: (messageId: string) => void;
+  // The guest's host, or the host's last guest, ended the session
+  public onPeerEndedSession?: () => void;
+  // Fired once both public keys are known; users compare it to detect key substitution
+  public onShortAuthString?: (sas: ShortAuthString, peerId: string) => void;
+  public onPeerIdentity?: (identity: PeerIdentity, peerId: string) => void;
+  // The roster changed: a peer was added or removed, or its connection moved on
+  public onPeersChange?: (peers: PeerInfo[]) => void;
+  // Host: a guest used up the QR code's secret; the next guest needs a new code
+  public onPairingSecretChange?: (secret: string) => void;
   public onError?: (error: Error) => void;
 
   constructor() {
@@ -25,321 +141,961 @@ export class WebRTCManager {
     this.clientId = generateSecureUUID();
   }
 
-  async initializeHost(sessionId: string): Promise<string> {
+  /**
+   * Host a session. Trusted-device sessions pass the secret both devices
+   * derive from their identity keys; otherwise a fresh one goes in the QR
+   * code.
+   */
+  async initializeHost(sessionId: string, pairingSecret?: string): Promise<string> {
     this.sessionId = sessionId;
+    this.isHost = true;
+    this.pairingSecret = pairingSecret ?? generatePairingSecret();
     await this.crypto.generateKeyPair();
-    
-    // Setup WebSocket connection with error handling
+
+    // Setup signaling connection with error handling
     try {
-      await this.connectWebSocket();
+      await this.connectSignaling();
     } catch (error) {
       console.warn('Failed to connect to signaling server, operating in offline mode');
       this.isOfflineMode = true;
     }
-    
-    // Create RTCPeerConnection
-    this.peer = new RTCPeerConnection({
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' },
-        { urls: 'stun:stun1.l.google.com:19302' }
-      ]
-    });
 
-    // Create data channel
-    this.dataChannel = this.peer.createDataChannel('messages', {
-      ordered: true
-    });
-    
-    this.setupDataChannelHandlers();
-    this.setupPeerConnectionHandlers();
-    
     return await this.crypto.exportPublicKey();
   }
 
-  async initializeClient(sessionId: string, hostPublicKey: string): Promise<string> {
+  async initializeClient(
+    sessionId: string,
+    hostPublicKey: string,
+    pairingSecret: string,
+    joinToken: string
+  ): Promise<string> {
     this.sessionId = sessionId;
+    this.pairingSecret = pairingSecret;
+    this.joinToken = joinToken;
     await this.crypto.generateKeyPair();
-    
+
     // Import host's public key and derive shared secret
     const hostKey = await this.crypto.importPublicKey(hostPublicKey);
     await this.crypto.deriveSharedSecret(hostKey);
-    
-    // Setup WebSocket connection
-    await this.connectWebSocket();
-    
-    // Create RTCPeerConnection
-    this.peer = new RTCPeerConnection({
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' },
-        { urls: 'stun:stun1.l.google.com:19302' }
-      ]
+    await this.emitShortAuthString(this.crypto, HOST_PEER_ID);
+
+    // Setup signaling connection
+    await this.connectSignaling();
+    await this.whenJoined();
+
+    await this.loadIceServers();
+    this.addLink(HOST_PEER_ID, 'Host', this.crypto).start();
+
+    return await this.crypto.exportPublicKey();
+  }
+
+  /**
+   * Join by session ID and the passphrase the host set, for devices that
+   * can't scan the QR code. The host's public key comes out of the
+   * passphrase exchange rather than from the server, and the exchange yields
+   * the secret that authenticates our key exchange in place of the QR one.
+   */
+  async initializeClientWithPassphrase(
+    sessionId: string,
+    passphrase: string,
+    joinToken: string
+  ): Promise<{ publicKey: string; hostPublicKey: string }> {
+    this.sessionId = sessionId;
+    this.joinToken = joinToken;
+    await this.crypto.generateKeyPair();
+    await this.connectSignaling();
+    await this.whenJoined();
+
+    const pake = new Spake2('guest', sessionId, passphrase);
+    const reply = await new Promise<any>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pakeReplyHandler = null;
+        reject(new Error("The host didn't answer. Check the session ID and that it allows passphrase joins"));
+      }, PAKE_TIMEOUT_MS);
+      this.pakeReplyHandler = (message) => {
+        clearTimeout(timeout);
+        this.pakeReplyHandler = null;
+        resolve(message);
+      };
+      this.signalHost({
+        type: 'pake-start',
+        message: bytesToBase64(pake.message)
+      });
+    });
+
+    const result = pake.finish(base64ToBytes(reply.message), reply.hostPublicKey);
+    if (!confirmationsMatch(result.hostConfirmation, base64ToBytes(reply.confirmation))) {
+      throw new Error('Wrong passphrase');
+    }
+    this.pairingSecret = encodePairingSecret(result.pairingSecret);
+
+    const hostKey = await this.crypto.importPublicKey(reply.hostPublicKey);
+    await this.crypto.deriveSharedSecret(hostKey);
+    await this.emitShortAuthString(this.crypto, HOST_PEER_ID);
+
+    await this.loadIceServers();
+    this.addLink(HOST_PEER_ID, 'Host', this.crypto).start();
+    for (const signal of this.earlySignals.splice(0)) {
+      await this.handleSignalingMessage(signal);
+    }
+
+    return { publicKey: await this.crypto.exportPublicKey(), hostPublicKey: reply.hostPublicKey };
+  }
+
+  /**
+   * Host a session without any server: the offer, with our public key and
+   * a fresh pairing secret, goes to the guest as animated QR codes, and its
+   * answer comes back the same way. Returns the offer's frames.
+   */
+  async initializeOfflineHost(sessionId: string): Promise<string[]> {
+    this.sessionId = sessionId;
+    this.isHost = true;
+    this.isOfflineMode = true;
+    this.pairingSecret = generatePairingSecret();
+    this.rtcConfiguration = OFFLINE_RTC_CONFIGURATION;
+    await this.crypto.generateKeyPair();
+
+    // Keys are derived once the answer brings the guest's public key
+    const crypto = this.crypto.forPeer();
+    if (this.postQuantum) {
+      crypto.createKemKeyPair();
+    }
+    const link = this.addLink(OFFLINE_GUEST_ID, `Guest ${++this.guestCount}`, crypto);
+    link.start();
+    const offer = await this.captureOfflineSignal('webrtc-offer', () => link.sendOffer());
+    this.awaitingOfflineAnswer = true;
+
+    return await encodeOfflinePairing({
+      type: 'offer',
+      sessionId,
+      hostPublicKey: await this.crypto.exportPublicKey(),
+      pairingSecret: this.pairingSecret,
+      sdp: offer.offer.sdp,
+      kemPublicKey: offer.kemPublicKey
+    });
+  }
+
+  // Host: the guest's answer, scanned off its screen, completes the pairing
+  async acceptOfflineAnswer(data: Uint8Array): Promise<void> {
+    const link = this.links.get(OFFLINE_GUEST_ID);
+    if (!this.awaitingOfflineAnswer || !link) {
+      throw new Error('This session is not waiting for an answer');
+    }
+
+    const answer = await decodeOfflinePairing(data);
+    if (answer.type !== 'answer' || answer.sessionId !== this.sessionId) {
+      throw new Error("That code doesn't answer this device's offer");
+    }
+    if (!await this.isAuthenticKeyExchange(answer.clientPublicKey, answer.mac)) {
+      throw new Error('The answer failed pairing verification');
+    }
+    this.awaitingOfflineAnswer = false;
+
+    await link.crypto.deriveSharedSecret(await link.crypto.importPublicKey(answer.clientPublicKey));
+    console.log('Host: Key exchange completed');
+    await this.emitShortAuthString(link.crypto, link.id);
+    await link.handleSignal({
+      type: 'webrtc-answer',
+      answer: { type: 'answer', sdp: answer.sdp },
+      kemCiphertext: answer.kemCiphertext
+    });
+  }
+
+  /**
+   * Join a serverless session from its scanned offer. Returns the session
+   * ID and the frames of our answer, for the host to scan.
+   */
+  async initializeOfflineClient(data: Uint8Array): Promise<{ sessionId: string; frames: string[] }> {
+    const offer = await decodeOfflinePairing(data);
+    if (offer.type !== 'offer') {
+      throw new Error('That is an answer. Scan the code on the hosting device');
+    }
+
+    this.sessionId = offer.sessionId;
+    this.pairingSecret = offer.pairingSecret;
+    this.isOfflineMode = true;
+    this.rtcConfiguration = OFFLINE_RTC_CONFIGURATION;
+    await this.crypto.generateKeyPair();
+    await this.completeKeyExchange(offer.hostPublicKey);
+
+    const link = this.addLink(HOST_PEER_ID, 'Host', this.crypto);
+    link.start();
+    const answer = await this.captureOfflineSignal('webrtc-answer', () => link.handleSignal({
+      type: 'webrtc-offer',
+      offer: { type: 'offer', sdp: offer.sdp },
+      kemPublicKey: offer.kemPublicKey
+    }));
+
+    const clientPublicKey = await this.crypto.exportPublicKey();
+    const frames = await encodeOfflinePairing({
+      type: 'answer',
+      sessionId: offer.sessionId,
+      clientPublicKey,
+      mac: await signKeyExchange(offer.pairingSecret, offer.sessionId, clientPublicKey),
+      sdp: answer.answer.sdp,
+      kemCiphertext: answer.kemCiphertext
+    });
+    return { sessionId: offer.sessionId, frames };
+  }
+
+  // Serverless pairing: run `produce` and catch the description it has
+  // the link signal, which goes out by QR code instead
+  private captureOfflineSignal(type: 'webrtc-offer' | 'webrtc-answer', produce: () => Promise<void>): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const handler = (message: any) => {
+        if (message.type !== type) return;
+        this.offlineSignalHandler = null;
+        resolve(message);
+      };
+      this.offlineSignalHandler = handler;
+      produce().then(() => {
+        if (this.offlineSignalHandler === handler) {
+          this.offlineSignalHandler = null;
+          reject(new Error('Failed to create the connection details'));
+        }
+      }, (error) => {
+        this.offlineSignalHandler = null;
+        reject(error);
+      });
+    });
+  }
+
+  // Host: accept passphrase joins with this passphrase, or stop with null
+  setJoinPassphrase(passphrase: string | null): void {
+    this.joinPassphrase = passphrase || null;
+    this.pakeAttempts.reset();
+    this.announcePassphraseJoins();
+  }
+
+  // The server only hands out guest tokens by session ID while we say so
+  private announcePassphraseJoins(): void {
+    if (!this.isJoined) return;
+    this.transport?.send({
+      type: 'allow-passphrase-join',
+      enabled: this.joinPassphrase !== null
+    });
+  }
+
+  // Host: the token from creating the session, which lets our socket join it
+  setJoinToken(token: string): void {
+    this.joinToken = token;
+    this.sendJoin();
+  }
+
+  private sendJoin(): void {
+    if (this.isJoined || !this.transport?.isOpen) {
+      return;
+    }
+    if (this.resumeToken && this.sessionId) {
+      this.transport.send({
+        type: 'resume-session',
+        sessionId: this.sessionId,
+        clientId: this.clientId,
+        resumeToken: this.resumeToken
+      });
+      return;
+    }
+    if (!this.joinToken) {
+      return;
+    }
+    this.transport.send({
+      type: 'join-session',
+      clientId: this.clientId,
+      token: this.joinToken,
+      rejoin: this.hasJoined
+    });
+  }
+
+  private whenJoined(): Promise<void> {
+    if (this.isJoined || this.isOfflineMode) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        resolve: () => {
+          clearTimeout(timeout);
+          resolve();
+        },
+        reject: (error: Error) => {
+          clearTimeout(timeout);
+          reject(error);
+        }
+      };
+      const timeout = setTimeout(() => {
+        this.joinWaiters = this.joinWaiters.filter(w => w !== waiter);
+        reject(new Error("The signaling server didn't admit us to the session"));
+      }, JOIN_TIMEOUT_MS);
+      this.joinWaiters.push(waiter);
     });
+  }
 
-    this.setupPeerConnectionHandlers();
-    
-    // Handle incoming data channel
-    this.peer.ondatachannel = (event) => {
-      this.dataChannel = event.channel;
-      this.setupDataChannelHandlers();
+  /**
+   * Host: require a hybrid ECDH + ML-KEM-768 key agreement, or go back to
+   * plain ECDH. Only possible until the first guest has started connecting;
+   * returns whether the setting took effect.
+   */
+  setPostQuantum(enabled: boolean): boolean {
+    if (!this.isHost || this.links.size > 0) {
+      return false;
+    }
+    this.postQuantum = enabled;
+    return true;
+  }
+
+  /**
+   * Host: how many guests the session takes. The server turns away anyone
+   * beyond that, and the session locks once that many have connected. Only
+   * possible until the first guest has started connecting.
+   */
+  setMaxGuests(count: number): boolean {
+    if (!this.isHost || this.links.size > 0 || count < 1) {
+      return false;
+    }
+    this.maxGuests = count;
+    this.announceGuestLimit();
+    return true;
+  }
+
+  private announceGuestLimit(): void {
+    if (!this.isJoined) return;
+    this.transport?.send({
+      type: 'set-guest-limit',
+      limit: this.maxGuests
+    });
+  }
+
+  getKeySuite(peerId?: string): KeyAgreementSuite {
+    const link = peerId ? this.links.get(peerId) : this.links.values().next().value;
+    return link ? link.crypto.getKeySuite() : this.crypto.getKeySuite();
+  }
+
+  // The host appends this to the QR link as `#k=...`
+  getPairingSecret(): string | null {
+    return this.pairingSecret;
+  }
+
+  getPeers(): PeerInfo[] {
+    return Array.from(this.links.values(), link => link.getInfo());
+  }
+
+  private emitPeers(): void {
+    this.onPeersChange?.(this.getPeers());
+  }
+
+  private addLink(peerId: string, name: string, crypto: CryptoManager): PeerLink {
+    const link = new PeerLink(peerId, name, crypto, {
+      sessionId: this.sessionId!,
+      isHost: this.isHost,
+      canSignal: () => this.isOfflineMode
+        ? this.offlineSignalHandler !== null
+        : !!this.transport?.isOpen && this.isJoined,
+      rtcConfiguration: () => this.rtcConfiguration,
+      // A QR code carries one description each way and nothing after it
+      trickleIce: !this.isOfflineMode,
+      allowLegacyPeers: () => loadSettings().allowLegacyPeers,
+      signal: (message) => {
+        if (this.isOfflineMode) {
+          this.offlineSignalHandler?.(message);
+        } else if (this.isHost) {
+          this.sendSignal(peerId, message);
+        } else {
+          this.signalHost(message);
+        }
+      }
+    });
+    this.bindLinkEvents(link);
+    this.links.set(peerId, link);
+    this.emitPeers();
+    return link;
+  }
+
+  private bindLinkEvents(link: PeerLink): void {
+    link.onConnectionStateChange = (state) => {
+      this.onConnectionStateChange?.(state, link.id);
+      this.emitPeers();
+      // Restoring a connection takes signaling we don't have
+      if (state === 'failed' && this.isOfflineMode) {
+        link.onError?.(new Error("The connection dropped, and without a signaling server it can't be restored. Pair again"));
+      }
     };
-    
-    return await this.crypto.exportPublicKey();
+    link.onDataChannelOpen = () => this.onDataChannelOpen?.(link.id);
+    link.onDataChannelClose = () => {
+      this.onDataChannelClose?.(link.id);
+      this.emitPeers();
+    };
+    link.onMessage = (message) => this.onMessage?.(message);
+    link.onFileTransfer = (transfer) => this.onFileTransfer?.(transfer);
+    link.onBatchStart = (batch) => {
+      if (batch.direction === 'incoming') {
+        this.offerLinks.set(batch.id, link.id);
+      }
+      this.onBatchStart?.(batch);
+    };
+    link.onIncomingTransfer = (transfer) => {
+      this.offerLinks.set(transfer.id, link.id);
+      this.onIncomingTransfer?.(transfer);
+    };
+    link.onProtocolNegotiated = (protocol) => this.onProtocolNegotiated?.(protocol, link.id);
+    link.onSessionConfirmed = () => {
+      if (this.isHost && this.isFull()) {
+        this.announcePairingComplete();
+      }
+      this.onSessionConfirmed?.(link.id);
+      this.emitPeers();
+    };
+    link.onPeerTyping = (isTyping) => this.onPeerTyping?.(isTyping, link.id);
+    link.onMessageDelivered = (messageId) => this.onMessageDelivered?.(messageId);
+    link.onPeerIdentity = (identity) => this.onPeerIdentity?.(identity, link.id);
+    link.onPeerEndedSession = () => {
+      // A guest leaving only ends the session for the host once nobody is left
+      if (this.isHost) {
+        this.removePeer(link.id);
+        if (this.links.size > 0) return;
+      }
+      this.onPeerEndedSession?.();
+    };
+    link.onError = (error) => {
+      // One guest's broken connection shouldn't take the others down with it
+      if (this.isHost && this.getPeers().some(peer => peer.id !== link.id && peer.isConfirmed)) {
+        console.warn(`Host: Dropping ${link.name}:`, error);
+        this.removePeer(link.id);
+        return;
+      }
+      this.onError?.(error);
+    };
+  }
+
+  // Host: every guest the session takes has confirmed its keys
+  private isFull(): boolean {
+    return this.getPeers().filter(peer => peer.isConfirmed).length >= this.maxGuests;
+  }
+
+  // Host: have the server lock the session to the devices now in it
+  private announcePairingComplete(): void {
+    if (!this.isJoined) return;
+    this.transport?.send({ type: 'pairing-complete' });
+  }
+
+  /**
+   * Host: disconnect one guest, e.g. after its security code didn't match.
+   * It can't come back without a new key exchange.
+   */
+  removePeer(peerId: string): void {
+    const link = this.links.get(peerId);
+    if (!link) return;
+
+    link.close();
+    this.links.delete(peerId);
+    this.offerLinks.forEach((owner, id) => {
+      if (owner === peerId) this.offerLinks.delete(id);
+    });
+    this.emitPeers();
+  }
+
+  private sendSignal(to: string, message: object): void {
+    if (this.isJoined && this.transport?.isOpen) {
+      this.transport.send({ ...message, to });
+    } else {
+      this.outbox.push({ ...message, to });
+      this.outbox.splice(0, this.outbox.length - MAX_OUTBOX_SIGNALS);
+    }
+  }
+
+  // Guest: everything we signal goes to the host, once we know who that is
+  private signalHost(message: object): void {
+    if (this.hostId) {
+      this.sendSignal(this.hostId, message);
+    } else {
+      this.pendingHostSignals.push(message);
+    }
+  }
+
+  private setHostId(hostId: unknown): void {
+    if (this.isHost || typeof hostId !== 'string' || this.hostId === hostId) return;
+
+    this.hostId = hostId;
+    this.pendingHostSignals.splice(0).forEach(message => this.sendSignal(hostId, message));
   }
 
   async completeKeyExchange(peerPublicKey: string): Promise<void> {
     const peerKey = await this.crypto.importPublicKey(peerPublicKey);
     await this.crypto.deriveSharedSecret(peerKey);
+    await this.emitShortAuthString(this.crypto, HOST_PEER_ID);
   }
 
-  private async connectWebSocket(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.connectionAttempts++;
-      
-      if (this.connectionAttempts > this.maxConnectionAttempts) {
-        console.warn('Max WebSocket connection attempts reached, operating in offline mode');
+  private async loadIceServers(): Promise<void> {
+    const { configuration, refreshAt } = await getRtcConfiguration(this.joinToken);
+    this.rtcConfiguration = configuration;
+
+    if (this.iceRefreshTimer) {
+      clearTimeout(this.iceRefreshTimer);
+    }
+    this.iceRefreshTimer = setTimeout(() => {
+      this.iceRefreshTimer = null;
+      this.refreshIceServers().catch((error) => {
+        console.error('Failed to refresh ICE servers:', error);
+      });
+    }, refreshAt - Date.now());
+  }
+
+  private async refreshIceServers(): Promise<void> {
+    if (this.isOfflineMode || this.links.size === 0) return;
+    await this.loadIceServers();
+    for (const link of this.links.values()) {
+      await link.refreshIceServers();
+    }
+  }
+
+  private async emitShortAuthString(crypto: CryptoManager, peerId: string): Promise<void> {
+    if (!this.sessionId) return;
+
+    try {
+      this.onShortAuthString?.(await crypto.getShortAuthString(this.sessionId), peerId);
+    } catch (error) {
+      console.error('Failed to derive short authentication string:', error);
+    }
+  }
+
+  private async connectSignaling(): Promise<void> {
+    this.connectionAttempts++;
+
+    if (this.connectionAttempts > this.maxConnectionAttempts) {
+      console.warn('Max signaling connection attempts reached, operating in offline mode');
+      this.isOfflineMode = true;
+      return;
+    }
+
+    let transport: SignalingTransport;
+    try {
+      transport = await openSignalingTransport(getSignalingUrl(), this.transportKind);
+    } catch (error) {
+      console.warn(`Signaling connection failed (attempt ${this.connectionAttempts}/${this.maxConnectionAttempts})`);
+      // Don't reject on the last attempt, fall back to offline mode
+      if (this.connectionAttempts >= this.maxConnectionAttempts) {
         this.isOfflineMode = true;
-        resolve();
         return;
       }
+      throw error;
+    }
 
-      // Use backend URL from environment variables
-      const backendUrl = import.meta.env.VITE_SIGNALING_URL || import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
-      const wsUrl = backendUrl.replace('http', 'ws') + '/ws';
-      
-      try {
-        this.websocket = new WebSocket(wsUrl);
-        
-        this.websocket.onopen = () => {
-          console.log('WebSocket connected successfully');
-          this.connectionAttempts = 0; // Reset attempts on successful connection
-          // Join the session
-          this.websocket?.send(JSON.stringify({
-            type: 'join-session',
-            sessionId: this.sessionId,
-            clientId: this.clientId
-          }));
-          resolve();
-        };
-        
-        this.websocket.onerror = (error) => {
-          console.warn(`WebSocket connection failed (attempt ${this.connectionAttempts}/${this.maxConnectionAttempts})`);
-          // Don't reject immediately, allow retry or fallback to offline mode
-          if (this.connectionAttempts >= this.maxConnectionAttempts) {
-            this.isOfflineMode = true;
-            resolve();
-          } else {
-            reject(error);
-          }
-        };
-
-        this.websocket.onclose = () => {
-          console.log('WebSocket connection closed');
-          if (!this.isOfflineMode && this.connectionAttempts < this.maxConnectionAttempts) {
-            // Attempt to reconnect after a delay
-            setTimeout(() => {
-              this.connectWebSocket().catch(() => {
-                this.isOfflineMode = true;
-              });
-            }, 2000);
-          }
-        };
-        
-        this.websocket.onmessage = async (event) => {
-          try {
-            const message = JSON.parse(event.data);
-            await this.handleSignalingMessage(message);
-          } catch (error) {
-            console.error('WebSocket message error:', error);
-          }
-        };
-
-        // Set a timeout for connection
-        setTimeout(() => {
-          if (this.websocket?.readyState !== WebSocket.OPEN) {
-            console.warn('WebSocket connection timeout');
-            this.websocket?.close();
-            if (this.connectionAttempts >= this.maxConnectionAttempts) {
-              this.isOfflineMode = true;
-              resolve();
-            } else {
-              reject(new Error('Connection timeout'));
-            }
-          }
-        }, 5000);
+    console.log(`Signaling connected over ${transport.kind}`);
+    this.transport = transport;
+    this.transportKind = transport.kind;
+    this.connectionAttempts = 0; // Reset attempts on successful connection
 
+    transport.onmessage = async (message) => {
+      try {
+        await this.handleSignalingMessage(message);
       } catch (error) {
-        console.error('WebSocket creation failed:', error);
-        if (this.connectionAttempts >= this.maxConnectionAttempts) {
-          this.isOfflineMode = true;
-          resolve();
-        } else {
-          reject(error);
-        }
+        console.error('Signaling message error:', error);
       }
-    });
+    };
+
+    transport.onclose = () => {
+      console.log('Signaling connection closed');
+      this.isJoined = false;
+      if (!this.isOfflineMode && this.connectionAttempts < this.maxConnectionAttempts) {
+        // Attempt to reconnect after a delay
+        setTimeout(() => {
+          this.connectSignaling().catch(() => {
+            this.isOfflineMode = true;
+          });
+        }, 2000);
+      }
+    };
+
+    // Join the session; the host gets its token once the session exists
+    this.sendJoin();
   }
 
   private async handleSignalingMessage(message: any): Promise<void> {
-    if (!this.peer) return;
-    
-    switch (message.type) {
-      case 'webrtc-offer':
-        await this.peer.setRemoteDescription(message.offer);
-        const answer = await this.peer.createAnswer();
-        await this.peer.setLocalDescription(answer);
-        
-        this.websocket?.send(JSON.stringify({
-          type: 'webrtc-answer',
-          answer: answer
-        }));
-        break;
-        
-      case 'webrtc-answer':
-        await this.peer.setRemoteDescription(message.answer);
-        break;
-        
-      case 'ice-candidate':
-        await this.peer.addIceCandidate(message.candidate);
-        break;
-        
-      case 'peer-joined':
-        // Create offer for new peer
-        if (this.dataChannel) {
-          const offer = await this.peer.createOffer();
-          await this.peer.setLocalDescription(offer);
-          
-          this.websocket?.send(JSON.stringify({
-            type: 'webrtc-offer',
-            offer: offer
-          }));
+    if (message.type === 'session-resumed') {
+      // Same slot, same peers: only signaling we couldn't send is left to do
+      this.isJoined = true;
+      this.joinToken = message.rejoinToken;
+      this.resumeToken = message.resumeToken ?? null;
+      this.joinWaiters.forEach(waiter => waiter.resolve());
+      this.joinWaiters = [];
+      this.outbox.splice(0).forEach(signal => this.transport?.send(signal));
+      for (const link of this.links.values()) {
+        if (link.hasPendingOffer()) {
+          await link.sendOffer();
         }
+      }
+      return;
+    }
+
+    if (message.type === 'resume-rejected') {
+      // Held for too long: join again, which the others will see
+      this.resumeToken = null;
+      this.sendJoin();
+      return;
+    }
+
+    if (message.type === 'session-joined') {
+      this.isJoined = true;
+      this.hasJoined = true;
+      this.joinToken = message.rejoinToken;
+      this.resumeToken = message.resumeToken ?? null;
+      // The others saw us leave and will negotiate afresh
+      this.outbox = [];
+      this.joinWaiters.forEach(waiter => waiter.resolve());
+      this.joinWaiters = [];
+      if (this.isHost) {
+        this.announcePassphraseJoins();
+        this.announceGuestLimit();
+        // A room that emptied while we were away comes back unlocked
+        if (this.links.size > 0 && this.isFull()) {
+          this.announcePairingComplete();
+        }
+      } else if (Array.isArray(message.peers)) {
+        this.setHostId(message.peers.find((peer: any) => peer?.role === 'host')?.clientId);
+      }
+      for (const link of this.links.values()) {
+        if (link.hasPendingOffer()) {
+          await link.sendOffer();
+        }
+      }
+      return;
+    }
+
+    if (message.type === 'join-rejected') {
+      const error = new Error(`Could not join the session: ${message.reason}`);
+      this.joinToken = null;
+      this.resumeToken = null;
+      // A guest still starting up reports it through the failed join
+      if (this.joinWaiters.length === 0) {
+        this.onError?.(error);
+      }
+      this.joinWaiters.forEach(waiter => waiter.reject(error));
+      this.joinWaiters = [];
+      return;
+    }
+
+    if (message.type === 'peer-joined') {
+      if (message.role === 'host') {
+        this.setHostId(message.clientId);
+        return;
+      }
+      // Offer again to a returning guest whose previous connection died, or
+      // restart ICE in case its network changed; new guests get their offer
+      // once their key exchange checks out
+      const link = this.isHost ? this.links.get(message.clientId) : undefined;
+      if (link?.needsRestart()) {
+        await this.loadIceServers();
+        await link.restart();
+      } else if (link?.hasDataChannel()) {
+        await link.sendOffer(true);
+      }
+      return;
+    }
+
+    if (message.type === 'error') {
+      // The server hangs up on us right after this
+      console.error(`Signaling server refused our message (${message.code}): ${message.reason}`);
+      this.onError?.(new Error(`Signaling server refused our message: ${message.reason}`));
+      return;
+    }
+
+    // Everything else is a signal addressed to us by one peer. The server
+    // only relays between the host and its guests, so whatever a guest hears
+    // is the host
+    const parsed = relayedSignalSchema.safeParse(message);
+    if (!parsed.success) {
+      console.warn('Ignoring malformed signaling message:', message.type);
+      return;
+    }
+    const signal = parsed.data;
+    if (!this.isHost) {
+      this.setHostId(signal.from);
+    }
+    const peerId = this.isHost ? signal.from : HOST_PEER_ID;
+
+    switch (signal.type) {
+      case 'pake-start':
+      case 'pake-reply':
+        await this.handlePakeMessage(signal);
         break;
-        
+
       case 'key-exchange':
-        // Handle key exchange for the host
-        if (message.clientPublicKey && !this.crypto.isReady()) {
-          try {
-            const clientKey = await this.crypto.importPublicKey(message.clientPublicKey);
-            await this.crypto.deriveSharedSecret(clientKey);
-            console.log('Host: Key exchange completed');
-          } catch (error) {
-            console.error('Host: Key exchange failed:', error);
-            this.onError?.(error as Error);
-          }
+        await this.handleKeyExchange(peerId, signal);
+        break;
+
+      case 'webrtc-offer':
+      case 'webrtc-answer':
+      case 'ice-candidate': {
+        const link = this.links.get(peerId);
+        if (link) {
+          await link.handleSignal(signal);
+        } else if (!this.isHost && signal.type !== 'webrtc-answer') {
+          // A passphrase join hears the host's offer before it has a
+          // connection to answer with
+          this.earlySignals.push(signal);
         }
         break;
-        
+      }
+
       case 'typing':
-        // Handle typing indicators
+        // Relayed by the server for peers that can't send it over the channel
+        this.onPeerTyping?.(signal.isTyping, peerId);
         break;
     }
   }
 
-  private setupPeerConnectionHandlers(): void {
-    if (!this.peer) return;
-    
-    this.peer.onconnectionstatechange = () => {
-      if (this.peer) {
-        this.onConnectionStateChange?.(this.peer.connectionState);
-      }
-    };
-    
-    this.peer.onicecandidate = (event) => {
-      if (event.candidate) {
-        this.websocket?.send(JSON.stringify({
-          type: 'ice-candidate',
-          candidate: event.candidate
-        }));
+  private async handlePakeMessage(message: any): Promise<void> {
+    if (message.type === 'pake-reply') {
+      this.pakeReplyHandler?.(message);
+      return;
+    }
+
+    if (!this.isHost || !this.joinPassphrase || !this.sessionId || this.links.size >= this.maxGuests) {
+      return;
+    }
+    if (!this.pakeAttempts.spend()) {
+      console.warn('Host: Too many passphrase attempts; passphrase joins disabled');
+      this.joinPassphrase = null;
+      // Or the server keeps handing out guest tokens for our session
+      this.announcePassphraseJoins();
+      return;
+    }
+
+    try {
+      const pake = new Spake2('host', this.sessionId, this.joinPassphrase);
+      const hostPublicKey = await this.crypto.exportPublicKey();
+      const result = pake.finish(base64ToBytes(message.message), hostPublicKey);
+      // We can't tell a wrong passphrase from a right one here; a guest that
+      // got it wrong just can't produce a key exchange this secret verifies
+      this.pakeSecrets.push(encodePairingSecret(result.pairingSecret));
+
+      this.sendSignal(message.from, {
+        type: 'pake-reply',
+        message: bytesToBase64(pake.message),
+        hostPublicKey,
+        confirmation: bytesToBase64(result.hostConfirmation)
+      });
+    } catch (error) {
+      if (!(error instanceof PakeError)) throw error;
+      console.warn('Host: Ignoring malformed passphrase exchange:', error.message);
+    }
+  }
+
+  /**
+   * Host: a guest sent its public key. Anyone who learns the session ID can
+   * send one; only the one who scanned the QR code or knows the passphrase
+   * can MAC it. Each authentic guest gets its own link and keys, and the
+   * offer for its connection.
+   */
+  private async handleKeyExchange(peerId: string, message: any): Promise<void> {
+    if (!this.isHost || !message.clientPublicKey || this.links.has(peerId)) return;
+
+    if (this.links.size >= this.maxGuests) {
+      console.warn('Host: Ignoring key exchange; the session is full');
+      return;
+    }
+    if (!await this.isAuthenticKeyExchange(message.clientPublicKey, message.mac)) {
+      console.warn('Host: Ignoring key exchange that failed pairing verification');
+      return;
+    }
+
+    try {
+      const crypto = this.crypto.forPeer();
+      await crypto.deriveSharedSecret(await crypto.importPublicKey(message.clientPublicKey));
+      if (this.postQuantum) {
+        crypto.createKemKeyPair();
       }
-    };
+      console.log('Host: Key exchange completed');
+
+      const link = this.addLink(peerId, `Guest ${++this.guestCount}`, crypto);
+      await this.emitShortAuthString(crypto, peerId);
+      await this.loadIceServers();
+      link.start();
+      await link.sendOffer();
+    } catch (error) {
+      console.error('Host: Key exchange failed:', error);
+      this.onError?.(error as Error);
+    }
   }
 
-  private setupDataChannelHandlers(): void {
-    if (!this.dataChannel) return;
-    
-    this.dataChannel.onopen = () => {
-      this.onDataChannelOpen?.();
-    };
-    
-    this.dataChannel.onclose = () => {
-      this.onDataChannelClose?.();
-    };
-    
-    this.dataChannel.onmessage = async (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        if (data.encrypted && this.crypto.isReady()) {
-          const decryptedContent = await this.crypto.decrypt(data.ciphertext, data.nonce);
-          const message: Message = {
-            id: data.id,
-            content: decryptedContent,
-            timestamp: data.timestamp,
-            isLocal: false,
-            encrypted: true
-          };
-          this.onMessage?.(message);
-        }
-      } catch (error) {
-        console.error('Message decryption error:', error);
-        this.onError?.(error as Error);
+  /**
+   * Valid under the QR code's pairing secret or one agreed by passphrase.
+   * Either secret admits one guest: the QR code's is replaced as soon as it
+   * verifies, so anyone else who saw the code can't join with it.
+   */
+  private async isAuthenticKeyExchange(clientPublicKey: string, mac: unknown): Promise<boolean> {
+    if (typeof mac !== 'string' || !this.sessionId) return false;
+
+    const pairingSecret = this.pairingSecret;
+    if (pairingSecret && await verifyKeyExchange(pairingSecret, this.sessionId, clientPublicKey, mac)) {
+      // Another exchange under the same secret may have got here first
+      if (this.pairingSecret !== pairingSecret) return false;
+      this.pairingSecret = generatePairingSecret();
+      this.onPairingSecretChange?.(this.pairingSecret);
+      return true;
+    }
+    for (const secret of this.pakeSecrets) {
+      if (await verifyKeyExchange(secret, this.sessionId, clientPublicKey, mac)) {
+        // That exchange was a right guess, so it doesn't count against the
+        // budget for wrong ones
+        this.pakeSecrets = this.pakeSecrets.filter(s => s !== secret);
+        this.pakeAttempts.refund();
+        return true;
       }
-    };
+    }
+    return false;
+  }
+
+  // Whether a peer, or any peer, has completed key confirmation
+  isSessionConfirmed(peerId?: string): boolean {
+    return peerId
+      ? this.links.get(peerId)?.isSessionConfirmed() ?? false
+      : this.getPeers().some(peer => peer.isConfirmed);
+  }
+
+  private getLink(peerId: string): PeerLink {
+    const link = this.links.get(peerId);
+    if (!link) {
+      throw new Error('That device has left the session');
+    }
+    return link;
   }
 
-  async sendMessage(content: string): Promise<void> {
-    if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+  /**
+   * Run a send on one peer's link, or on every link with an open channel.
+   * Sending to everyone only fails if it reached nobody.
+   */
+  private async sendTo(to: string | undefined, send: (link: PeerLink) => Promise<unknown>): Promise<void> {
+    const targets = to
+      ? [this.getLink(to)]
+      : Array.from(this.links.values()).filter(link => link.isDataChannelOpen());
+    if (targets.length === 0) {
       throw new Error('Data channel not ready');
     }
-    
-    if (!this.crypto.isReady()) {
-      throw new Error('Encryption not ready');
+
+    const results = await Promise.allSettled(targets.map(send));
+    const failures = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+    if (failures.length === targets.length) {
+      throw failures[0];
     }
-    
-    const { ciphertext, nonce } = await this.crypto.encrypt(content);
-    
-    const message = {
+    failures.forEach(reason => console.warn('Send failed for one peer:', reason));
+  }
+
+  async sendMessage(content: string, to?: string): Promise<Message> {
+    const message: Message = {
       id: generateSecureUUID(),
-      ciphertext,
-      nonce,
+      content,
       timestamp: Date.now(),
-      encrypted: true
+      isLocal: true,
+      encrypted: true,
+      peerId: to
     };
-    
-    this.dataChannel.send(JSON.stringify(message));
+
+    await this.sendTo(to, link => link.sendEnvelope({
+      type: 'chat',
+      id: message.id,
+      content: message.content,
+      timestamp: message.timestamp
+    }));
+    return message;
+  }
+
+  // Each recipient gets its own transfer, reported through onFileTransfer
+  async sendFile(file: File, to?: string): Promise<void> {
+    await this.sendTo(to, link => link.sendFile(file));
+  }
+
+  async sendFolder(folder: PickedFolder, to?: string): Promise<void> {
+    await this.sendTo(to, link => link.sendFolder(folder));
+  }
+
+  private offerLink(id: string): PeerLink {
+    const peerId = this.offerLinks.get(id);
+    return this.getLink(peerId ?? HOST_PEER_ID);
+  }
+
+  // Must be called from a user gesture when the destination is 'disk'
+  async acceptIncomingFile(transferId: string, destination: FileDestination): Promise<boolean> {
+    return await this.offerLink(transferId).acceptIncomingFile(transferId, destination);
+  }
+
+  async declineIncomingFile(transferId: string): Promise<void> {
+    await this.offerLink(transferId).declineIncomingFile(transferId);
+  }
+
+  // Must be called from a user gesture when the destination is 'disk'
+  async acceptIncomingBatch(batchId: string, destination: FileDestination): Promise<boolean> {
+    return await this.offerLink(batchId).acceptIncomingBatch(batchId, destination);
+  }
+
+  async declineIncomingBatch(batchId: string): Promise<void> {
+    await this.offerLink(batchId).declineIncomingBatch(batchId);
   }
 
   sendTypingIndicator(isTyping: boolean): void {
-    this.websocket?.send(JSON.stringify({
-      type: 'typing',
-      isTyping
-    }));
+    this.links.forEach(link => link.sendTypingIndicator(isTyping));
   }
 
-  sendKeyExchange(clientPublicKey: string): void {
-    this.websocket?.send(JSON.stringify({
+  async sendIdentity(identity: PeerIdentity, peerId: string): Promise<void> {
+    await this.getLink(peerId).sendEnvelope({
+      type: 'identity',
+      identity: { id: identity.id, name: identity.name, publicKey: identity.publicKey }
+    });
+  }
+
+  async sendKeyExchange(clientPublicKey: string): Promise<void> {
+    if (!this.pairingSecret || !this.sessionId) {
+      throw new Error('Missing pairing secret; scan the QR code again');
+    }
+
+    const mac = await signKeyExchange(this.pairingSecret, this.sessionId, clientPublicKey);
+    this.signalHost({
       type: 'key-exchange',
-      clientPublicKey
-    }));
+      clientPublicKey,
+      mac
+    });
   }
 
   disconnect(): void {
-    this.dataChannel?.close();
-    this.peer?.close();
-    this.websocket?.close();
+    this.links.forEach(link => link.close());
+    this.links.clear();
+    this.offerLinks.clear();
+    if (this.transport) {
+      // Give up our slot now, rather than have the server hold it for a resume
+      if (this.isJoined) {
+        this.transport.send({ type: 'leave-session' });
+      }
+      // Intentional close: doesn't fire onclose, so no reconnect
+      this.transport.close();
+    }
     this.crypto.cleanup();
-    
-    this.dataChannel = null;
-    this.peer = null;
-    this.websocket = null;
-    this.sessionId = null;
-  }
 
-  getConnectionState(): RTCPeerConnectionState | null {
-    return this.peer?.connectionState || null;
+    this.transport = null;
+    this.transportKind = 'websocket';
+    this.sessionId = null;
+    this.joinToken = null;
+    this.resumeToken = null;
+    this.outbox = [];
+    this.hasJoined = false;
+    this.isJoined = false;
+    this.joinWaiters.forEach(waiter => waiter.reject(new Error('Session ended')));
+    this.joinWaiters = [];
+    this.pairingSecret = null;
+    this.joinPassphrase = null;
+    this.pakeAttempts.reset();
+    this.pakeSecrets = [];
+    this.earlySignals = [];
+    this.hostId = null;
+    this.pendingHostSignals = [];
+    this.guestCount = 0;
+    this.offlineSignalHandler = null;
+    this.awaitingOfflineAnswer = false;
+    this.rtcConfiguration = UNCONFIGURED_RTC_CONFIGURATION;
+    if (this.iceRefreshTimer) {
+      clearTimeout(this.iceRefreshTimer);
+      this.iceRefreshTimer = null;
+    }
   }
 
   isDataChannelOpen(): boolean {
-    return this.dataChannel?.readyState === 'open';
+    return Array.from(this.links.values()).some(link => link.isDataChannelOpen());
   }
 }
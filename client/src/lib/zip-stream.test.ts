@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { createZipStream, type ZipEntry } from './zip-stream';
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const ZIP64_END = 0x06064b50;
+const END = 0x06054b50;
+
+async function zip(entries: ZipEntry[]): Promise<DataView> {
+  const buffer = await new Response(createZipStream(entries)).arrayBuffer();
+  return new DataView(buffer);
+}
+
+function fileEntry(path: string, content: string): ZipEntry {
+  return {
+    path,
+    lastModified: Date.UTC(2024, 0, 1),
+    open: async () => new Blob([content]).stream()
+  };
+}
+
+// The classic end of central directory record is always the last 22 bytes
+function endRecord(view: DataView) {
+  const pos = view.byteLength - 22;
+  return {
+    signature: view.getUint32(pos, true),
+    count: view.getUint16(pos + 10, true),
+    cdSize: view.getUint32(pos + 12, true),
+    cdOffset: view.getUint32(pos + 16, true)
+  };
+}
+
+function centralNames(view: DataView): string[] {
+  const { cdOffset, count } = endRecord(view);
+  const decoder = new TextDecoder();
+  const names: string[] = [];
+  let pos = cdOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(CENTRAL_HEADER);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    names.push(decoder.decode(new Uint8Array(view.buffer, pos + 46, nameLength)));
+    pos += 46 + nameLength + extraLength;
+  }
+  return names;
+}
+
+describe('createZipStream', () => {
+  it('stores files with their CRC and size in the central directory', async () => {
+    const view = await zip([fileEntry('docs/hello.txt', 'hello')]);
+
+    expect(view.getUint32(0, true)).toBe(LOCAL_HEADER);
+    const end = endRecord(view);
+    expect(end.signature).toBe(END);
+    expect(end.count).toBe(1);
+    expect(end.cdOffset + end.cdSize).toBe(view.byteLength - 22);
+
+    const central = end.cdOffset;
+    expect(view.getUint32(central + 16, true)).toBe(0x3610a686);
+    expect(view.getUint32(central + 20, true)).toBe(5);
+    expect(view.getUint32(central + 24, true)).toBe(5);
+    expect(centralNames(view)).toEqual(['docs/hello.txt']);
+  });
+
+  it('marks directories with a trailing slash', async () => {
+    const view = await zip([{ path: 'docs' }, fileEntry('docs/a.txt', 'a')]);
+    expect(centralNames(view)).toEqual(['docs/', 'docs/a.txt']);
+  });
+
+  it('leaves out files whose source never arrives', async () => {
+    const view = await zip([
+      fileEntry('a.txt', 'a'),
+      { path: 'missing.txt', open: async () => null },
+      fileEntry('b.txt', 'b')
+    ]);
+    expect(centralNames(view)).toEqual(['a.txt', 'b.txt']);
+  });
+
+  it.each(['../evil', 'a/../../evil', '/etc/passwd', 'C:/evil', 'a\\..\\evil'])(
+    'refuses the unsafe path %s',
+    async (path) => {
+      await expect(zip([fileEntry(path, 'x')])).rejects.toThrow('unsafe path');
+    }
+  );
+
+  describe('ZIP64 at the entry count boundary', () => {
+    const directories = (count: number): ZipEntry[] =>
+      Array.from({ length: count }, (_, i) => ({ path: `d${i}`, lastModified: 0 }));
+
+    it('keeps the classic format for 65534 entries', async () => {
+      const view = await zip(directories(0xfffe));
+      const end = endRecord(view);
+      expect(end.count).toBe(0xfffe);
+      expect(view.getUint32(view.byteLength - 22 - 20 - 56, true)).not.toBe(ZIP64_END);
+    });
+
+    it('adds ZIP64 end records from 65535 entries', async () => {
+      const view = await zip(directories(0xffff));
+      const end = endRecord(view);
+      expect(end.count).toBe(0xffff);
+
+      const zip64End = view.byteLength - 22 - 20 - 56;
+      expect(view.getUint32(zip64End, true)).toBe(ZIP64_END);
+      expect(view.getBigUint64(zip64End + 24, true)).toBe(0xffffn);
+      expect(view.getBigUint64(zip64End + 32, true)).toBe(0xffffn);
+      expect(Number(view.getBigUint64(zip64End + 48, true))).toBe(end.cdOffset);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import { safeRelativePath } from './file-tree';
+
+/**
+ * Streaming ZIP writer (store only, no compression).
+ *
+ * Entries are read one at a time and emitted as they are consumed, so a folder
+ * of any size can be zipped without holding it in memory. CRCs are computed on
+ * the fly and written in data descriptors; ZIP64 records are added only when a
+ * size, offset or entry count overflows the classic format.
+ */
+
+export interface ZipEntry {
+  path: string;
+  lastModified?: number;
+  // Omitted for directory entries; resolving to null leaves the entry out
+  open?: () => Promise<ReadableStream<Uint8Array> | null>;
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+// General purpose flags: bit 3 (sizes in data descriptor) + bit 11 (UTF-8 names)
+const FLAGS = 0x0808;
+const VERSION_CLASSIC = 20;
+const VERSION_ZIP64 = 45;
+
+interface CentralRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  isDirectory: boolean;
+  dosTime: number;
+  dosDate: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc(crc: number, data: Uint8Array): number {
+  let c = crc ^ MAX_32;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ MAX_32) >>> 0;
+}
+
+function toDosDateTime(timestamp: number): { dosTime: number; dosDate: number } {
+  const date = new Date(timestamp);
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+}
+
+function localHeader(record: CentralRecord): Uint8Array {
+  const header = new Uint8Array(30 + record.name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, VERSION_ZIP64, true);
+  view.setUint16(6, FLAGS, true);
+  view.setUint16(8, 0, true); // stored
+  view.setUint16(10, record.dosTime, true);
+  view.setUint16(12, record.dosDate, true);
+  // CRC and sizes follow in the data descriptor
+  view.setUint16(26, record.name.length, true);
+  view.setUint16(28, 0, true);
+  header.set(record.name, 30);
+  return header;
+}
+
+function dataDescriptor(record: CentralRecord): Uint8Array {
+  const zip64 = record.size >= MAX_32;
+  const descriptor = new Uint8Array(zip64 ? 24 : 16);
+  const view = new DataView(descriptor.buffer);
+  view.setUint32(0, 0x08074b50, true);
+  view.setUint32(4, record.crc, true);
+  if (zip64) {
+    setUint64(view, 8, record.size);
+    setUint64(view, 16, record.size);
+  } else {
+    view.setUint32(8, record.size, true);
+    view.setUint32(12, record.size, true);
+  }
+  return descriptor;
+}
+
+function centralHeader(record: CentralRecord): Uint8Array {
+  const sizeOverflow = record.size >= MAX_32;
+  const offsetOverflow = record.offset >= MAX_32;
+  const extraLength = sizeOverflow || offsetOverflow
+    ? 4 + (sizeOverflow ? 16 : 0) + (offsetOverflow ? 8 : 0)
+    : 0;
+
+  const header = new Uint8Array(46 + record.name.length + extraLength);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, VERSION_ZIP64, true);
+  view.setUint16(6, extraLength ? VERSION_ZIP64 : VERSION_CLASSIC, true);
+  view.setUint16(8, FLAGS, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, record.dosTime, true);
+  view.setUint16(14, record.dosDate, true);
+  view.setUint32(16, record.crc, true);
+  view.setUint32(20, sizeOverflow ? MAX_32 : record.size, true);
+  view.setUint32(24, sizeOverflow ? MAX_32 : record.size, true);
+  view.setUint16(28, record.name.length, true);
+  view.setUint16(30, extraLength, true);
+  view.setUint16(32, 0, true); // comment
+  view.setUint16(34, 0, true); // disk
+  view.setUint16(36, 0, true); // internal attributes
+  view.setUint32(38, record.isDirectory ? 0x10 : 0, true);
+  view.setUint32(42, offsetOverflow ? MAX_32 : record.offset, true);
+  header.set(record.name, 46);
+
+  if (extraLength) {
+    let pos = 46 + record.name.length;
+    view.setUint16(pos, 0x0001, true);
+    view.setUint16(pos + 2, extraLength - 4, true);
+    pos += 4;
+    if (sizeOverflow) {
+      setUint64(view, pos, record.size);
+      setUint64(view, pos + 8, record.size);
+      pos += 16;
+    }
+    if (offsetOverflow) {
+      setUint64(view, pos, record.offset);
+    }
+  }
+  return header;
+}
+
+function endOfCentralDirectory(count: number, cdOffset: number, cdSize: number): Uint8Array {
+  const zip64 = count >= MAX_16 || cdOffset >= MAX_32 || cdSize >= MAX_32;
+  const end = new Uint8Array((zip64 ? 56 + 20 : 0) + 22);
+  const view = new DataView(end.buffer);
+  let pos = 0;
+
+  if (zip64) {
+    // ZIP64 end of central directory record
+    view.setUint32(0, 0x06064b50, true);
+    setUint64(view, 4, 44);
+    view.setUint16(12, VERSION_ZIP64, true);
+    view.setUint16(14, VERSION_ZIP64, true);
+    view.setUint32(16, 0, true);
+    view.setUint32(20, 0, true);
+    setUint64(view, 24, count);
+    setUint64(view, 32, count);
+    setUint64(view, 40, cdSize);
+    setUint64(view, 48, cdOffset);
+
+    // ZIP64 end of central directory locator
+    view.setUint32(56, 0x07064b50, true);
+    view.setUint32(60, 0, true);
+    setUint64(view, 64, cdOffset + cdSize);
+    view.setUint32(72, 1, true);
+    pos = 76;
+  }
+
+  view.setUint32(pos, 0x06054b50, true);
+  view.setUint16(pos + 4, 0, true);
+  view.setUint16(pos + 6, 0, true);
+  view.setUint16(pos + 8, Math.min(count, MAX_16), true);
+  view.setUint16(pos + 10, Math.min(count, MAX_16), true);
+  view.setUint32(pos + 12, Math.min(cdSize, MAX_32), true);
+  view.setUint32(pos + 16, Math.min(cdOffset, MAX_32), true);
+  view.setUint16(pos + 20, 0, true);
+  return end;
+}
+
+async function* zipChunks(entries: ZipEntry[]): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const isDirectory = !entry.open;
+    const path = safeRelativePath(entry.path);
+    if (!path) {
+      throw new Error(`Refusing to write unsafe path to ZIP: ${entry.path}`);
+    }
+    // Opened before the header goes out, so a file that never arrives can be skipped
+    const source = entry.open ? await entry.open() : null;
+    if (entry.open && !source) continue;
+
+    const record: CentralRecord = {
+      name: encoder.encode(isDirectory ? `${path}/` : path),
+      crc: 0,
+      size: 0,
+      offset,
+      isDirectory,
+      ...toDosDateTime(entry.lastModified ?? Date.now())
+    };
+
+    const header = localHeader(record);
+    yield header;
+    offset += header.length;
+
+    if (source) {
+      const reader = source.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        record.crc = updateCrc(record.crc, value);
+        record.size += value.length;
+        offset += value.length;
+        yield value;
+      }
+    }
+
+    const descriptor = dataDescriptor(record);
+    yield descriptor;
+    offset += descriptor.length;
+    records.push(record);
+  }
+
+  const cdOffset = offset;
+  for (const record of records) {
+    const header = centralHeader(record);
+    yield header;
+    offset += header.length;
+  }
+
+  yield endOfCentralDirectory(records.length, cdOffset, offset - cdOffset);
+}
+
+export function createZipStream(entries: ZipEntry[]): ReadableStream<Uint8Array> {
+  const iterator = zipChunks(entries);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    }
+  });
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { AppHeader } from '../components/app-header';
 import { LandingPage } from '../components/landing-page';
 import { HostingInterface } from '../components/hosting-interface';
@@ -7,12 +8,50 @@ import { ScanningInterface } from '../components/scanning-interface';
 import { ChatInterface } from '../components/chat-interface';
 import { LoadingOverlay } from '../components/loading-overlay';
 import { FeedbackWidget } from '../components/feedback-widget';
+import { SessionInfoDialog } from '../components/session-info-dialog';
+import { ExportChatDialog } from '../components/export-chat-dialog';
+import { ArchiveViewer } from '../components/archive-viewer';
+import { OfflinePairing } from '../components/offline-pairing';
+import { AirGapTransfer } from '../components/air-gap-transfer';
 import { useWebRTC } from '../hooks/use-webrtc';
+import { useTrustedDevices } from '../hooks/use-trusted-devices';
 import { apiRequest } from '../lib/queryClient';
 import { generateSecureUUID } from '../lib/uuid';
 import { trackEvent } from '../lib/analytics';
+import { saveBatchAsZip } from '../lib/file-transfer';
+import { downloadBlob, exportChat, type ExportOptions } from '../lib/chat-export';
+import { parseQRUrl } from '../lib/qr-utils';
+import type { PickedFolder } from '../lib/file-tree';
+import type { ChatExportFormat, FileBatch, FileDestination, QRData, TrustedDevice, TrustedInvite } from '../types';
 
-type AppView = 'landing' | 'hosting' | 'scanning' | 'chat' | 'error';
+type AppView = 'landing' | 'hosting' | 'scanning' | 'offline' | 'chat' | 'archive' | 'air-gap' | 'error';
+
+// How long to wait for an invited trusted device to connect
+const TRUSTED_INVITE_TIMEOUT_MS = 60000;
+
+// The server checks the QR code's signature and answers with the token our
+// signaling socket joins the session with
+async function requestGuestToken(qrData: QRData): Promise<string> {
+  const response = await apiRequest('POST', '/api/verify-qr', {
+    sessionId: qrData.sessionId,
+    hostPublicKey: qrData.hostPublicKey,
+    expiration: qrData.expiration,
+    signature: qrData.signature
+  });
+  const { guestToken } = await response.json();
+  return guestToken;
+}
+
+// Register a hosted session with the server; returns its QR link data and
+// the host's join token
+async function createServerSession(sessionId: string, hostPublicKey: string) {
+  const response = await apiRequest('POST', '/api/sessions', {
+    id: sessionId,
+    hostPublicKey,
+    signature: 'temp-signature' // Will be generated server-side
+  });
+  return await response.json() as { qrUrl: string; expiresIn: number; hostToken: string };
+}
 
 export default function Home() {
   const [currentView, setCurrentView] = useState<AppView>('landing');
@@ -22,22 +61,57 @@ export default function Home() {
   const [loadingTitle, setLoadingTitle] = useState('');
   const [loadingMessage, setLoadingMessage] = useState('');
   const [showFeedback, setShowFeedback] = useState(false);
+  const [showSessionInfo, setShowSessionInfo] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const [sessionStartTime, setSessionStartTime] = useState(0);
+  const inviteTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const { toast } = useToast();
 
   const {
     connectionState,
     messages,
+    pendingTransfers,
+    peers,
+    focusPeerId,
+    verifications,
+    maxGuests,
+    pairingSecret,
+    peerProtocol,
+    isPeerTyping,
+    peerEndedSession,
+    shortAuthString,
+    verificationStatus,
+    isPeerTrusted,
+    keySuite,
     error,
     initializeHost,
     joinSession,
+    joinSessionWithPassphrase,
+    initializeOfflineHost,
+    acceptOfflineAnswer,
+    joinOfflineSession,
+    setHostJoinToken,
+    setJoinPassphrase,
+    setPostQuantum,
+    setMaxGuests,
     completeConnection,
     sendMessage,
+    sendFile,
+    sendFolder,
+    acceptFile,
+    declineFile,
+    acceptBatch,
+    declineBatch,
+    confirmVerification,
+    removePeer,
+    rememberPeer,
     sendTypingIndicator,
     disconnect,
     clearMessages
   } = useWebRTC();
 
+  const trustedDevices = useTrustedDevices();
+
   // Track page view on mount
   useEffect(() => {
     trackEvent.sessionStarted();
@@ -46,6 +120,11 @@ export default function Home() {
 
   // Handle connection state changes
   useEffect(() => {
+    if (connectionState.status !== 'connecting' && inviteTimeoutRef.current) {
+      clearTimeout(inviteTimeoutRef.current);
+      inviteTimeoutRef.current = null;
+    }
+    
     if (connectionState.status === 'connected') {
       setCurrentView('chat');
       setIsLoading(false);
@@ -55,6 +134,11 @@ export default function Home() {
         title: "Connected!",
         description: "Secure P2P connection established",
       });
+    } else if (connectionState.status === 'reconnecting') {
+      toast({
+        title: "Connection Lost",
+        description: "Reconnecting... file transfers will resume automatically",
+      });
     } else if (connectionState.status === 'error') {
       setCurrentView('error');
       setIsLoading(false);
@@ -67,6 +151,47 @@ export default function Home() {
     }
   }, [connectionState.status, error, toast, sessionStartTime]);
 
+  // Let the user know a file is waiting for them to accept it
+  const latestPendingTransfer = pendingTransfers[pendingTransfers.length - 1];
+  useEffect(() => {
+    if (latestPendingTransfer) {
+      toast({
+        title: "Incoming File",
+        description: `${latestPendingTransfer.name} - accept it in the chat to start receiving`,
+      });
+    }
+  }, [latestPendingTransfer?.id, toast]);
+
+  // A guest used up the QR code's secret: the code shown for the next one needs the new secret
+  useEffect(() => {
+    if (pairingSecret) {
+      setQrUrl(url => url && `${url.split('#')[0]}#k=${pairingSecret}`);
+    }
+  }, [pairingSecret]);
+
+  // Pick up devices remembered during this session
+  useEffect(() => {
+    if (isPeerTrusted) {
+      trustedDevices.refresh();
+    }
+  }, [isPeerTrusted, trustedDevices.refresh]);
+
+  useEffect(() => {
+    const invite = trustedDevices.incomingInvite;
+    if (!invite) return;
+    
+    toast({
+      title: "Connection Request",
+      description: `${invite.device.name} wants to connect`,
+      action: (
+        <ToastAction altText="Connect" onClick={() => handleAcceptInvite(invite)}>
+          Connect
+        </ToastAction>
+      ),
+    });
+    trustedDevices.dismissInvite();
+  }, [trustedDevices.incomingInvite]);
+
   const handleStartHosting = async () => {
     try {
       setIsLoading(true);
@@ -76,18 +201,14 @@ export default function Home() {
 
       // Generate host keys and get public key
       const sessionId = generateSecureUUID();
-      const publicKey = await initializeHost(sessionId);
+      const { publicKey, pairingSecret } = await initializeHost(sessionId);
 
       // Create session on server
-      const response = await apiRequest('POST', '/api/sessions', {
-        id: sessionId,
-        hostPublicKey: publicKey,
-        signature: 'temp-signature' // Will be generated server-side
-      });
-
-      const sessionData = await response.json();
+      const sessionData = await createServerSession(sessionId, publicKey);
+      setHostJoinToken(sessionData.hostToken);
       
-      setQrUrl(sessionData.qrUrl);
+      // The pairing secret goes in the fragment so the server never sees it
+      setQrUrl(`${sessionData.qrUrl}#k=${pairingSecret}`);
       setExpirationTime(Date.now() + (sessionData.expiresIn * 1000));
       setCurrentView('hosting');
       setIsLoading(false);
@@ -116,27 +237,25 @@ export default function Home() {
     trackEvent.sessionCreated('join');
   };
 
-  const handleQRScanned = async (sessionId: string, hostPublicKey: string) => {
+  const handleQRScanned = async (qrData: QRData) => {
+    const { sessionId, hostPublicKey, pairingSecret } = qrData;
     try {
       setIsLoading(true);
       setLoadingTitle('Joining Session...');
       setLoadingMessage('Connecting to peer and exchanging keys');
 
-      if (hostPublicKey) {
-        // Join with QR data
-        const clientPublicKey = await joinSession(sessionId, hostPublicKey);
-        
-        // Complete the key exchange
-        await completeConnection(hostPublicKey);
-      } else {
-        // Manual session ID - need to get session details first
-        const response = await apiRequest('GET', `/api/sessions/${sessionId}`);
-        const sessionData = await response.json();
-        
-        const clientPublicKey = await joinSession(sessionId, sessionData.hostPublicKey);
-        await completeConnection(sessionData.hostPublicKey);
+      // The host only accepts keys authenticated with the secret from its QR code
+      if (!pairingSecret) {
+        throw new Error('This link is missing its pairing secret. Scan the QR code or paste the full link');
       }
 
+      // Join with QR data
+      const guestToken = await requestGuestToken(qrData);
+      const clientPublicKey = await joinSession(sessionId, hostPublicKey, pairingSecret, guestToken);
+      
+      // Complete the key exchange
+      await completeConnection(hostPublicKey);
+
       toast({
         title: "Session Joined",
         description: "Establishing secure connection...",
@@ -152,14 +271,206 @@ export default function Home() {
     }
   };
 
+  const handleJoinWithPassphrase = async (sessionId: string, passphrase: string) => {
+    try {
+      setIsLoading(true);
+      setLoadingTitle('Joining Session...');
+      setLoadingMessage('Checking the passphrase with the host');
+
+      // The host's key comes from the passphrase exchange, not the server
+      const response = await apiRequest('POST', `/api/sessions/${encodeURIComponent(sessionId)}/passphrase-join`, {});
+      const { guestToken } = await response.json();
+      await joinSessionWithPassphrase(sessionId, passphrase, guestToken);
+
+      toast({
+        title: "Session Joined",
+        description: "Establishing secure connection...",
+      });
+    } catch (error) {
+      console.error('Failed to join session:', error);
+      setIsLoading(false);
+      toast({
+        title: "Failed to Join Session",
+        description: error instanceof Error ? error.message : "Invalid session or connection failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStartOffline = () => {
+    setCurrentView('offline');
+    setSessionStartTime(Date.now());
+  };
+
+  const handleHostOffline = async () => {
+    try {
+      const frames = await initializeOfflineHost(generateSecureUUID());
+      trackEvent.sessionCreated('host');
+      return frames;
+    } catch (error) {
+      console.error('Failed to start hosting:', error);
+      trackEvent.errorOccurred('session_creation_failed');
+      toast({
+        title: "Failed to Create Session",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const handleOfflineOfferScanned = async (data: Uint8Array) => {
+    try {
+      const frames = await joinOfflineSession(data);
+      trackEvent.sessionCreated('join');
+      return frames;
+    } catch (error) {
+      console.error('Failed to join session:', error);
+      toast({
+        title: "Could Not Read the Code",
+        description: error instanceof Error ? error.message : "Scan the host's code again",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const handleOfflineAnswerScanned = async (data: Uint8Array) => {
+    try {
+      setIsLoading(true);
+      setLoadingTitle('Connecting...');
+      setLoadingMessage('Establishing a direct connection to the other device');
+      await acceptOfflineAnswer(data);
+      return true;
+    } catch (error) {
+      console.error('Failed to complete pairing:', error);
+      setIsLoading(false);
+      toast({
+        title: "Could Not Read the Answer",
+        description: error instanceof Error ? error.message : "Scan the other device's code again",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleConnectTrustedDevice = async (device: TrustedDevice) => {
+    try {
+      setIsLoading(true);
+      setLoadingTitle(`Connecting to ${device.name}...`);
+      setLoadingMessage('Waiting for the other device to accept');
+      setSessionStartTime(Date.now());
+
+      // No QR code: the invite goes to the device through the signaling
+      // server, authenticated with the secret our identity keys share
+      const sessionId = generateSecureUUID();
+      const { publicKey, pairingSecret } = await initializeHost(sessionId, device);
+      const sessionData = await createServerSession(sessionId, publicKey);
+      setHostJoinToken(sessionData.hostToken);
+      
+      const qrData = parseQRUrl(sessionData.qrUrl);
+      if (!qrData) {
+        throw new Error('The server returned an invalid session');
+      }
+      // The invite carries a guest token rather than the QR signature, which
+      // would get whoever intercepted it any number of them
+      const guestToken = await requestGuestToken(qrData);
+      const delivered = await trustedDevices.invite(device, qrData, pairingSecret, guestToken);
+      if (!delivered) {
+        disconnect();
+        setIsLoading(false);
+        toast({
+          title: "Device Offline",
+          description: `${device.name} needs to have PairQR open to connect`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      trackEvent.sessionCreated('host');
+      inviteTimeoutRef.current = setTimeout(() => {
+        inviteTimeoutRef.current = null;
+        disconnect();
+        setIsLoading(false);
+        toast({
+          title: "No Response",
+          description: `${device.name} didn't accept the connection`,
+        });
+      }, TRUSTED_INVITE_TIMEOUT_MS);
+    } catch (error) {
+      console.error('Failed to connect to trusted device:', error);
+      disconnect();
+      setIsLoading(false);
+      toast({
+        title: "Failed to Connect",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAcceptInvite = async (invite: TrustedInvite) => {
+    try {
+      setIsLoading(true);
+      setLoadingTitle(`Connecting to ${invite.device.name}...`);
+      setLoadingMessage('Connecting to peer and exchanging keys');
+      setSessionStartTime(Date.now());
+
+      await joinSession(invite.sessionId, invite.hostPublicKey, invite.pairingSecret, invite.guestToken, invite.device);
+      await completeConnection(invite.hostPublicKey);
+      trackEvent.sessionCreated('join');
+    } catch (error) {
+      console.error('Failed to accept invite:', error);
+      setIsLoading(false);
+      toast({
+        title: "Failed to Connect",
+        description: error instanceof Error ? error.message : "Invalid session or connection failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemoveTrustedDevice = async (device: TrustedDevice) => {
+    try {
+      await trustedDevices.remove(device.id);
+      toast({
+        title: "Device Forgotten",
+        description: `${device.name} can no longer reconnect without scanning`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Remove Device",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRememberDevice = async () => {
+    try {
+      await rememberPeer();
+      trackEvent.featureUsed('remember_device');
+      toast({
+        title: "Remembering Device",
+        description: "Once the other device agrees, you can reconnect without scanning",
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Remember Device",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleRegenerateQR = async () => {
     // Restart hosting process
     await handleStartHosting();
   };
 
-  const handleSendMessage = async (message: string) => {
+  const handleSendMessage = async (message: string, to?: string) => {
     try {
-      await sendMessage(message);
+      await sendMessage(message, to);
       trackEvent.messagesSent(1);
     } catch (error) {
       trackEvent.errorOccurred('message_send_failed');
@@ -171,42 +482,139 @@ export default function Home() {
     }
   };
 
+  const handleSendFiles = async (files: File[], to?: string) => {
+    for (const file of files) {
+      try {
+        await sendFile(file, to);
+        trackEvent.featureUsed('file_transfer');
+      } catch (error) {
+        trackEvent.errorOccurred('file_send_failed');
+        toast({
+          title: "Failed to Send File",
+          description: error instanceof Error ? `${file.name}: ${error.message}` : `${file.name} could not be sent`,
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleSendFolder = async (folder: PickedFolder, to?: string) => {
+    try {
+      await sendFolder(folder, to);
+      trackEvent.featureUsed('folder_transfer');
+    } catch (error) {
+      trackEvent.errorOccurred('folder_send_failed');
+      toast({
+        title: "Failed to Send Folder",
+        description: error instanceof Error ? `${folder.name}: ${error.message}` : `${folder.name} could not be sent`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadBatch = async (batch: FileBatch) => {
+    try {
+      await saveBatchAsZip(batch);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Could not create the ZIP archive",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAcceptFile = async (transferId: string, destination: FileDestination) => {
+    try {
+      await acceptFile(transferId, destination);
+      trackEvent.featureUsed(destination === 'disk' ? 'file_save_to_disk' : 'file_accept');
+    } catch (error) {
+      toast({
+        title: "Could Not Accept File",
+        description: error instanceof Error ? error.message : "The file could not be received",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeclineFile = (transferId: string) => {
+    declineFile(transferId).catch(() => undefined);
+  };
+
+  const handleAcceptBatch = async (batchId: string, destination: FileDestination) => {
+    try {
+      await acceptBatch(batchId, destination);
+    } catch (error) {
+      toast({
+        title: "Could Not Accept Folder",
+        description: error instanceof Error ? error.message : "The folder could not be received",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeclineBatch = (batchId: string) => {
+    declineBatch(batchId).catch(() => undefined);
+  };
+
   const handleExportChat = () => {
-    const chatData = {
-      messages: messages.map(m => ({
-        content: m.content,
-        timestamp: m.timestamp,
-        isLocal: m.isLocal
-      })),
-      exportedAt: new Date().toISOString()
-    };
-    
-    const blob = new Blob([JSON.stringify(chatData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `pairqr-chat-${Date.now()}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    trackEvent.featureUsed('export_chat');
-    
-    toast({
-      title: "Chat Exported",
-      description: "Chat history has been saved to your device",
-    });
+    setShowExportDialog(true);
+  };
+
+  const handleExportConfirmed = async (format: ChatExportFormat, options: ExportOptions) => {
+    try {
+      const { blob, fileName } = await exportChat(messages, format, options);
+      downloadBlob(blob, fileName);
+      setShowExportDialog(false);
+      
+      trackEvent.featureUsed(`export_chat_${format}`);
+      
+      toast({
+        title: "Chat Exported",
+        description: format === 'archive'
+          ? "Encrypted archive saved. Open it from the home page with its password"
+          : "Chat history has been saved to your device unencrypted",
+      });
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The chat could not be exported",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleShowSessionInfo = () => {
+    setShowSessionInfo(true);
+  };
+
+  const handleConfirmVerification = () => {
+    confirmVerification();
+    setShowSessionInfo(false);
     toast({
-      title: "Session Information",
-      description: `Session ID: ${connectionState.session?.id || 'Unknown'}\nEncryption: AES-256-GCM\nConnection: P2P WebRTC`,
+      title: "Session Verified",
+      description: "Security codes match on both devices",
     });
   };
 
-  const handleEndSession = () => {
+  const handleRejectVerification = () => {
+    // Differing codes mean the keys were swapped in transit, so the session can't be trusted
+    setShowSessionInfo(false);
+    // With other guests still here, only the mismatched one goes
+    if (connectionState.isHost && peers.length > 1 && focusPeerId) {
+      const peer = peers.find(p => p.id === focusPeerId);
+      removePeer(focusPeerId);
+      toast({
+        title: "Device Removed",
+        description: `Security codes did not match for ${peer?.name ?? 'a guest'}. It was disconnected`,
+        variant: "destructive",
+      });
+      return;
+    }
+    endSession("Security codes did not match. The connection may have been intercepted", 'destructive');
+  };
+
+  const endSession = (description: string, variant: 'default' | 'destructive' = 'default') => {
     // Track session end
     const sessionDuration = Date.now() - sessionStartTime;
     trackEvent.sessionEnded(sessionDuration, messages.length);
@@ -223,7 +631,31 @@ export default function Home() {
     
     toast({
       title: "Session Ended",
-      description: "Connection closed and data cleared",
+      description,
+      variant,
+    });
+  };
+
+  const handleEndSession = () => {
+    endSession("Connection closed and data cleared");
+  };
+
+  useEffect(() => {
+    if (peerEndedSession) {
+      endSession("The other person ended the session. Data cleared");
+    }
+  }, [peerEndedSession]);
+
+  const handleRemovePeer = (peerId: string) => {
+    const peer = peers.find(p => p.id === peerId);
+    if (peers.length <= 1) {
+      handleEndSession();
+      return;
+    }
+    removePeer(peerId);
+    toast({
+      title: "Device Removed",
+      description: `${peer?.name ?? 'The guest'} was disconnected`,
     });
   };
 
@@ -234,28 +666,64 @@ export default function Home() {
 
   return (
     <div className="min-h-screen bg-gray-50 font-sans text-gray-900 antialiased">
-      {currentView !== 'landing' && <AppHeader connectionStatus={connectionState.status} />}
+      {currentView !== 'landing' && (
+        <AppHeader
+          connectionStatus={connectionState.status}
+          trustedDevices={trustedDevices.devices}
+          onRemoveTrustedDevice={handleRemoveTrustedDevice}
+        />
+      )}
       
       <main className={currentView === 'landing' ? '' : 'max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8'}>
         {currentView === 'landing' && (
           <LandingPage 
             onStartHosting={handleStartHosting}
             onStartScanning={handleStartScanning}
+            trustedDevices={trustedDevices.devices}
+            onConnectTrustedDevice={handleConnectTrustedDevice}
+            onRemoveTrustedDevice={handleRemoveTrustedDevice}
+            onOpenArchive={() => setCurrentView('archive')}
+            onPairOffline={handleStartOffline}
+            onAirGapTransfer={() => setCurrentView('air-gap')}
           />
         )}
         
+        {currentView === 'archive' && (
+          <ArchiveViewer onClose={() => setCurrentView('landing')} />
+        )}
+        
+        {currentView === 'air-gap' && (
+          <AirGapTransfer onClose={() => setCurrentView('landing')} />
+        )}
+        
         {currentView === 'hosting' && (
           <HostingInterface
             sessionId={connectionState.session?.id || ''}
             qrUrl={qrUrl}
             expirationTime={expirationTime}
             onRegenerateQR={handleRegenerateQR}
+            onSetPassphrase={setJoinPassphrase}
+            onSetPostQuantum={setPostQuantum}
+            maxGuests={maxGuests}
+            onSetMaxGuests={setMaxGuests}
+            guestCount={peers.length}
+            onBackToChat={() => setCurrentView('chat')}
+          />
+        )}
+        
+        {currentView === 'offline' && (
+          <OfflinePairing
+            onHost={handleHostOffline}
+            onOfferScanned={handleOfflineOfferScanned}
+            onAnswerScanned={handleOfflineAnswerScanned}
+            onCancel={handleGoHome}
           />
         )}
         
         {currentView === 'scanning' && (
           <ScanningInterface
             onQRScanned={handleQRScanned}
+            onJoinWithPassphrase={handleJoinWithPassphrase}
           />
         )}
         
@@ -263,12 +731,32 @@ export default function Home() {
           <ChatInterface
             messages={messages}
             connectionQuality="Excellent"
+            isReconnecting={connectionState.status === 'reconnecting'}
+            isPeerTyping={isPeerTyping}
+            canSendFiles={!peerProtocol || peerProtocol.features.includes('file-transfer')}
+            canSendFolders={!peerProtocol || peerProtocol.features.includes('folder-transfer')}
             onSendMessage={handleSendMessage}
+            onSendFiles={handleSendFiles}
+            onSendFolder={handleSendFolder}
+            onDownloadBatch={handleDownloadBatch}
+            onAcceptFile={handleAcceptFile}
+            onDeclineFile={handleDeclineFile}
+            onAcceptBatch={handleAcceptBatch}
+            onDeclineBatch={handleDeclineBatch}
             onClearChat={clearMessages}
             onExportChat={handleExportChat}
             onShowSessionInfo={handleShowSessionInfo}
             onEndSession={handleEndSession}
             onTyping={sendTypingIndicator}
+            sas={shortAuthString}
+            verificationStatus={verificationStatus}
+            peers={peers}
+            verifications={verifications}
+            sasPeerId={focusPeerId}
+            onInvite={connectionState.isHost && peers.length < maxGuests ? () => setCurrentView('hosting') : undefined}
+            onRemovePeer={connectionState.isHost && peers.length > 1 ? handleRemovePeer : undefined}
+            onConfirmVerification={handleConfirmVerification}
+            onRejectVerification={handleRejectVerification}
           />
         )}
         
@@ -321,6 +809,26 @@ export default function Home() {
         message={loadingMessage}
       />
 
+      <SessionInfoDialog
+        isOpen={showSessionInfo}
+        onClose={() => setShowSessionInfo(false)}
+        sessionId={connectionState.session?.id}
+        protocol={peerProtocol}
+        keySuite={keySuite}
+        sas={shortAuthString}
+        verificationStatus={verificationStatus}
+        onConfirmVerification={handleConfirmVerification}
+        onRejectVerification={handleRejectVerification}
+        isPeerTrusted={isPeerTrusted}
+        onRememberDevice={peers.length > 1 ? undefined : handleRememberDevice}
+      />
+
+      <ExportChatDialog
+        isOpen={showExportDialog}
+        onClose={() => setShowExportDialog(false)}
+        onExport={handleExportConfirmed}
+      />
+
       {showFeedback && (
         <FeedbackWidget
           onClose={() => setShowFeedback(false)}
@@ -13,10 +13,105 @@ export interface Message {
   timestamp: number;
   isLocal: boolean;
   encrypted?: boolean;
+  // Set on local messages once the peer confirms receipt
+  delivered?: boolean;
+  file?: FileTransfer;
+  batch?: FileBatch;
+  // The sender of a received message, or the one recipient of a sent
+  // message; unset for messages sent to everyone
+  peerId?: string;
 }
 
+// Wire formats shared with the peer live in shared/protocol.ts
+export type { FileManifest, BatchManifest } from '@shared/protocol';
+
+// Where an accepted incoming file is written: browser storage (IndexedDB, then
+// a Blob URL) or streamed straight into a file on disk
+export type FileDestination = 'browser' | 'disk';
+
+export interface FileTransfer {
+  id: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  direction: 'outgoing' | 'incoming';
+  // 'offered': announced but not yet accepted by the receiver
+  status: 'preparing' | 'offered' | 'transferring' | 'paused' | 'complete' | 'failed';
+  bytesTransferred: number;
+  destination?: FileDestination;
+  url?: string;
+  error?: string;
+  batchId?: string;
+  path?: string;
+  // The peer the file comes from or goes to
+  peerId?: string;
+}
+
+export interface FileBatch {
+  id: string;
+  name: string;
+  direction: 'outgoing' | 'incoming';
+  totalSize: number;
+  directories: string[];
+  files: FileTransfer[];
+  // Incoming batches wait for the receiver to accept them
+  status?: 'offered' | 'accepted' | 'declined';
+  peerId?: string;
+}
+
+// One remote device in the session. A guest only ever sees the host; the
+// host sees every guest
+export interface PeerInfo {
+  id: string;
+  name: string;
+  connectionState: RTCPeerConnectionState | null;
+  // Finished key confirmation on its current connection
+  isConfirmed: boolean;
+}
+
+// Both users compare this to detect a swapped key exchange
+export interface ShortAuthString {
+  emoji: Array<{ symbol: string; name: string }>;
+  decimal: string;
+}
+
+export type VerificationStatus = 'unverified' | 'verified';
+
+// A device remembered after a verified pairing, reachable without a QR code
+export interface TrustedDevice {
+  // Base64url SHA-256 of the identity public key; the signaling server
+  // routes invites by it
+  id: string;
+  name: string;
+  // SPKI, base64
+  publicKey: string;
+  pairedAt: number;
+  lastConnectedAt?: number;
+}
+
+// What a device sends over a verified session to be remembered
+export interface PeerIdentity {
+  id: string;
+  name: string;
+  publicKey: string;
+}
+
+// A trusted device asking us to join a session it is hosting
+export interface TrustedInvite {
+  device: TrustedDevice;
+  sessionId: string;
+  hostPublicKey: string;
+  pairingSecret: string;
+  // Single use, requested by the host for us
+  guestToken: string;
+}
+
+// Key agreement a session's keys came from; the hybrid one stays secure if
+// either ECDH or ML-KEM holds
+export type KeyAgreementSuite = 'ecdh-p256' | 'ecdh-p256+mlkem768';
+
 export interface ConnectionState {
-  status: 'disconnected' | 'connecting' | 'connected' | 'error';
+  status: 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
   peer?: any;
   dataChannel?: RTCDataChannel;
   session?: Session;
@@ -35,6 +130,34 @@ export interface QRData {
   hostPublicKey: string;
   expiration: number;
   signature: string;
+  // From the link's #k= fragment; absent in links from older hosts
+  pairingSecret?: string;
+}
+
+export type ChatExportFormat = 'json' | 'markdown' | 'html' | 'archive';
+
+export interface ArchivedAttachment {
+  name: string;
+  size: number;
+  mimeType: string;
+  // Folder path for files that came in a batch
+  path?: string;
+  // Object URL for the file's bytes, when the archive includes them
+  url?: string;
+}
+
+// A chat message as written to an export and read back from an archive
+export interface ArchivedMessage {
+  id: string;
+  content: string;
+  timestamp: number;
+  isLocal: boolean;
+  attachments?: ArchivedAttachment[];
+}
+
+export interface ArchivedChat {
+  exportedAt: string;
+  messages: ArchivedMessage[];
 }
 
 export interface AppSettings {
@@ -42,4 +165,6 @@ export interface AppSettings {
   requireHttps: boolean;
   darkMode: boolean;
   showTyping: boolean;
+  // Connect to first-version apps, which can't confirm session keys
+  allowLegacyPeers: boolean;
 }
@@ -2,6 +2,7 @@ import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
 import { promisify } from 'util';
 import jwt from 'jsonwebtoken';
 import type { Request, Response, NextFunction } from 'express';
+import type { IceServerEntry } from '@shared/ice';
 
 const scryptAsync = promisify(scrypt);
 
@@ -28,6 +29,8 @@ export interface AdminSettings {
   maintenanceMode: boolean;
   allowedFileTypes: string[]; // e.g. ['image/png','image/jpeg']
   maxFileSize: number; // MB
+  extraIceServers: IceServerEntry[]; // handed out after the ones from env
+  relayOnly: boolean; // TURN only, so devices never learn each other's IP
 }
 
 export interface AdminStats {
@@ -62,6 +65,8 @@ let adminData: {
     maintenanceMode: false,
     allowedFileTypes: ['*'],
     maxFileSize: 100,
+    extraIceServers: [],
+    relayOnly: false,
   },
   stats: {
     totalSessions: 0,
@@ -181,6 +186,24 @@ export function updateAdminSettings(newSettings: Partial<AdminSettings>): AdminS
   if (newSettings.allowedFileTypes && !Array.isArray(newSettings.allowedFileTypes)) {
     throw new Error('allowedFileTypes must be an array of strings');
   }
+  if (newSettings.extraIceServers !== undefined) {
+    if (!Array.isArray(newSettings.extraIceServers)) {
+      throw new Error('extraIceServers must be an array');
+    }
+    for (const server of newSettings.extraIceServers) {
+      if (!Array.isArray(server?.urls) || server.urls.length === 0 ||
+          !server.urls.every(url => typeof url === 'string' && /^(stun|stuns|turn|turns):\S+$/.test(url))) {
+        throw new Error('Each ICE server needs stun:, stuns:, turn: or turns: URLs');
+      }
+      if (server.urls.some(url => url.startsWith('turn')) &&
+          (typeof server.username !== 'string' || typeof server.credential !== 'string')) {
+        throw new Error('TURN servers need a username and credential');
+      }
+    }
+  }
+  if (newSettings.relayOnly !== undefined && typeof newSettings.relayOnly !== 'boolean') {
+    throw new Error('relayOnly must be a boolean');
+  }
 
   adminData.settings = { ...adminData.settings, ...newSettings };
   return adminData.settings;
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HttpSignalingChannel, type SignalStore } from "./http-signaling";
+
+const IDLE_MS = 1000;
+
+// The candidate lists as MemStorage keeps them
+function memoryStore(): SignalStore & { queues: Map<string, string[]> } {
+  const queues = new Map<string, string[]>();
+  return {
+    queues,
+    async storeIceCandidate(channelId, frame) {
+      queues.set(channelId, [...(queues.get(channelId) ?? []), frame]);
+    },
+    async getIceCandidates(channelId) {
+      return queues.get(channelId) ?? [];
+    },
+    async clearPeerData(channelId) {
+      queues.delete(channelId);
+    }
+  };
+}
+
+// Every delivery a listener got
+function record(channel: HttpSignalingChannel) {
+  const deliveries: { frames: string[]; closed: boolean }[] = [];
+  const detach = channel.listen((frames, closed) => deliveries.push({ frames, closed }));
+  return { deliveries, detach };
+}
+
+function settle(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("HttpSignalingChannel", () => {
+  it("hands out frames in the order they were sent, each once", async () => {
+    const channel = new HttpSignalingChannel("channel", memoryStore(), IDLE_MS);
+    channel.send("one");
+    channel.send("two");
+    const { deliveries } = record(channel);
+    await settle();
+    channel.send("three");
+    await settle();
+
+    expect(deliveries.flatMap(delivery => delivery.frames)).toEqual(["one", "two", "three"]);
+    expect(deliveries.every(delivery => !delivery.closed)).toBe(true);
+    channel.close();
+  });
+
+  it("closes once nobody has listened for the idle time", async () => {
+    vi.useFakeTimers();
+    const store = memoryStore();
+    const channel = new HttpSignalingChannel("channel", store, IDLE_MS);
+    const onclose = vi.fn();
+    const onend = vi.fn();
+    channel.onclose = onclose;
+    channel.onend = onend;
+
+    const { detach } = record(channel);
+    await vi.advanceTimersByTimeAsync(IDLE_MS * 2);
+    expect(onclose).not.toHaveBeenCalled();
+
+    detach();
+    channel.send("unread");
+    await vi.advanceTimersByTimeAsync(IDLE_MS);
+    expect(onclose).toHaveBeenCalledOnce();
+    expect(onend).toHaveBeenCalledOnce();
+    expect(store.queues.has("channel")).toBe(false);
+  });
+
+  it("delivers what was sent before closing, then the close", async () => {
+    const store = memoryStore();
+    const channel = new HttpSignalingChannel("channel", store, IDLE_MS);
+    const onend = vi.fn();
+    channel.onend = onend;
+    channel.send("last words");
+    channel.close();
+    channel.send("too late");
+
+    const { deliveries } = record(channel);
+    await settle();
+
+    expect(deliveries).toEqual([{ frames: ["last words"], closed: true }]);
+    expect(onend).toHaveBeenCalledOnce();
+    expect(store.queues.has("channel")).toBe(false);
+  });
+});
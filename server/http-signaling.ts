@@ -0,0 +1,118 @@
+import { WebSocket } from "ws";
+import type { IStorage } from "./storage";
+import type { SignalingSocket } from "./rooms";
+
+// The part of storage a channel keeps its frames in: the ICE candidate list
+// is the peer data that holds every entry, in order, so every frame goes
+// there, offers and answers included
+export type SignalStore = Pick<IStorage, "storeIceCandidate" | "getIceCandidates" | "clearPeerData">;
+
+// Gets the frames queued for a client, and whether the channel has closed
+export type FrameListener = (frames: string[], closed: boolean) => void;
+
+/**
+ * A client's signaling connection over plain HTTP, for networks whose
+ * proxies block WebSocket upgrades. It stands in for the socket wherever
+ * one is expected: frames for the client are queued in storage until its
+ * event stream or its next long poll picks them up, and frames from the
+ * client arrive as POSTs. A channel nobody listened on for `idleMs` is
+ * dropped, like a socket that stopped answering pings.
+ */
+export class HttpSignalingChannel implements SignalingSocket {
+  readyState: number = WebSocket.OPEN;
+  onmessage: ((text: string) => void) | null = null;
+  onclose: (() => void) | null = null;
+  // Once the client got the last frames, or stopped fetching them
+  onend: (() => void) | null = null;
+
+  private listener: FrameListener | null = null;
+  // Keeps frames in order through the storage calls
+  private queue: Promise<void> = Promise.resolve();
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private ended = false;
+
+  constructor(readonly id: string, private readonly store: SignalStore, private readonly idleMs: number) {
+    this.startIdleTimer();
+  }
+
+  send(data: string): void {
+    if (this.readyState !== WebSocket.OPEN) return;
+    this.enqueue(() => this.store.storeIceCandidate(this.id, data));
+  }
+
+  close(): void {
+    if (this.readyState !== WebSocket.OPEN) return;
+    this.readyState = WebSocket.CLOSED;
+    this.onclose?.();
+    // Frames sent before closing still go out, followed by the close
+    this.enqueue(async () => {});
+  }
+
+  receive(text: string): void {
+    if (this.readyState === WebSocket.OPEN) {
+      this.onmessage?.(text);
+    }
+  }
+
+  // Hand queued frames to `listener` now and as they come, until the
+  // returned function detaches it or another listener takes over
+  listen(listener: FrameListener): () => void {
+    this.listener = listener;
+    this.stopIdleTimer();
+    this.enqueue(async () => {});
+    return () => {
+      if (this.listener === listener) {
+        this.listener = null;
+        this.startIdleTimer();
+      }
+    };
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue
+      .then(task)
+      .then(() => this.flush())
+      .catch(error => console.error("HTTP signaling error:", error));
+  }
+
+  private async flush(): Promise<void> {
+    const listener = this.listener;
+    if (!listener || this.ended) return;
+    // Nothing else touches the channel's frames between these two calls
+    const frames: string[] = await this.store.getIceCandidates(this.id);
+    if (frames.length > 0) {
+      await this.store.clearPeerData(this.id);
+    }
+    const closed = this.readyState !== WebSocket.OPEN;
+    if (frames.length > 0 || closed) {
+      listener(frames, closed);
+    }
+    if (closed) {
+      this.end();
+    }
+  }
+
+  private end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.stopIdleTimer();
+    this.listener = null;
+    this.store.clearPeerData(this.id).catch(error => console.error("HTTP signaling error:", error));
+    this.onend?.();
+  }
+
+  private startIdleTimer(): void {
+    this.stopIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      this.close();
+      this.end();
+    }, this.idleMs);
+  }
+
+  private stopIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { createHmac } from "crypto";
+import type { IceConfig, IceServerEntry } from "@shared/ice";
+import { getAdminSettings } from "./admin";
+
+const splitUris = (value: string | undefined) =>
+  (value ?? "").split(",").map(uri => uri.trim()).filter(Boolean);
+
+// coturn's --static-auth-secret; without it no TURN server is handed out
+const TURN_STATIC_SECRET = process.env.TURN_STATIC_SECRET || "";
+// Must be reachable from browsers, not just from inside the compose network
+const TURN_URIS = splitUris(process.env.TURN_URIS);
+// The TURN hosts answer STUN too; public servers only when there are none
+const STUN_URIS = process.env.STUN_URIS !== undefined
+  ? splitUris(process.env.STUN_URIS)
+  : TURN_URIS.length > 0
+    ? [...new Set(TURN_URIS.map(uri => uri.replace(/^turns?:/, "stun:").replace(/\?.*$/, "")))]
+    : ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302"];
+// Allocations stop refreshing once their credential expires, so clients
+// fetch new ones for their connections halfway through. Short, so a leaked
+// credential isn't an open relay for long
+const TURN_CREDENTIAL_TTL_SECONDS = parseInt(process.env.TURN_CREDENTIAL_TTL_SECONDS || "600");
+
+/**
+ * A credential for coturn's REST API auth (`--use-auth-secret`): the
+ * username is the expiry as a Unix timestamp and a label, the password the
+ * base64 HMAC-SHA1 of the username under the shared secret. coturn checks
+ * both without any state on our side.
+ */
+export function mintTurnCredential(expiresAt: number, label = "pairqr"): { username: string; credential: string } {
+  const username = `${Math.floor(expiresAt / 1000)}:${label}`;
+  const credential = createHmac("sha1", TURN_STATIC_SECRET).update(username).digest("base64");
+  return { username, credential };
+}
+
+export function getIceConfig(): IceConfig {
+  const settings = getAdminSettings();
+  const expiresAt = Date.now() + TURN_CREDENTIAL_TTL_SECONDS * 1000;
+
+  const iceServers: IceServerEntry[] = [];
+  if (STUN_URIS.length > 0) {
+    iceServers.push({ urls: STUN_URIS });
+  }
+  if (TURN_STATIC_SECRET && TURN_URIS.length > 0) {
+    iceServers.push({ urls: TURN_URIS, ...mintTurnCredential(expiresAt) });
+  }
+  iceServers.push(...settings.extraIceServers);
+
+  return {
+    iceServers,
+    iceTransportPolicy: settings.relayOnly ? "relay" : "all",
+    expiresAt
+  };
+}
+
@@ -0,0 +1,62 @@
+import { webcrypto } from "crypto";
+import { describe, expect, it } from "vitest";
+import { IdentityChallenge, identityIdFor } from "./identity-proof";
+
+const P256 = { name: "ECDH", namedCurve: "P-256" };
+const subtle = webcrypto.subtle;
+
+// A device's identity key pair, private key non-extractable as in the browser
+async function deviceIdentity() {
+  const keyPair = await subtle.generateKey(P256, false, ["deriveBits"]);
+  const spki = new Uint8Array(await subtle.exportKey("spki", keyPair.publicKey));
+  return { privateKey: keyPair.privateKey, publicKey: Buffer.from(spki).toString("base64"), spki };
+}
+
+// What the client's proveIdentity computes
+async function prove(privateKey: webcrypto.CryptoKey, nonce: string, serverKey: string): Promise<string> {
+  const peerKey = await subtle.importKey("spki", Buffer.from(serverKey, "base64"), P256, false, []);
+  const shared = await subtle.deriveBits({ name: "ECDH", public: peerKey }, privateKey, 256);
+  const hkdfKey = await subtle.importKey("raw", shared, "HKDF", false, ["deriveKey"]);
+  const macKey = await subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: new TextEncoder().encode("PairQR-Identity-Proof-v1") },
+    hkdfKey,
+    { name: "HMAC", hash: "SHA-256", length: 256 },
+    false,
+    ["sign"]
+  );
+  const mac = await subtle.sign("HMAC", macKey, Buffer.from(nonce, "base64"));
+  return Buffer.from(mac).toString("base64");
+}
+
+describe("IdentityChallenge", () => {
+  it("accepts a proof from the identity key's owner and names its routing ID", async () => {
+    const device = await deviceIdentity();
+    const challenge = await IdentityChallenge.create();
+
+    const proof = await prove(device.privateKey, challenge.nonce, challenge.serverKey);
+    expect(await challenge.verify(device.publicKey, proof)).toBe(identityIdFor(device.spki));
+  });
+
+  it("rejects someone else's public key with the impostor's own proof", async () => {
+    const owner = await deviceIdentity();
+    const impostor = await deviceIdentity();
+    const challenge = await IdentityChallenge.create();
+
+    const proof = await prove(impostor.privateKey, challenge.nonce, challenge.serverKey);
+    expect(await challenge.verify(owner.publicKey, proof)).toBeNull();
+  });
+
+  it("rejects a proof made for another challenge", async () => {
+    const device = await deviceIdentity();
+    const first = await IdentityChallenge.create();
+    const second = await IdentityChallenge.create();
+
+    const proof = await prove(device.privateKey, first.nonce, first.serverKey);
+    expect(await second.verify(device.publicKey, proof)).toBeNull();
+  });
+
+  it("rejects keys that aren't P-256 public keys", async () => {
+    const challenge = await IdentityChallenge.create();
+    expect(await challenge.verify(Buffer.from("not a key").toString("base64"), "AAAA")).toBeNull();
+  });
+});
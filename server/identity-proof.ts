@@ -0,0 +1,54 @@
+import { createHash, createHmac, hkdfSync, randomBytes, timingSafeEqual, webcrypto } from "crypto";
+
+const P256 = { name: "ECDH", namedCurve: "P-256" };
+const PROOF_INFO = "PairQR-Identity-Proof-v1";
+
+// The routing ID devices register under: a hash of their identity key
+export function identityIdFor(publicKey: Uint8Array): string {
+  return createHash("sha256").update(publicKey).digest("base64url");
+}
+
+/**
+ * A socket's proof that it holds the private key of the trusted-device
+ * identity it wants invites for. The server sends a nonce and a one-off
+ * ECDH key; the device answers with its identity public key and a MAC over
+ * the nonce, keyed by ECDH between the two keys. Only the identity's owner
+ * can compute it, so nobody can claim another device's routing ID.
+ */
+export class IdentityChallenge {
+  private constructor(
+    readonly nonce: string,
+    readonly serverKey: string,
+    private readonly privateKey: webcrypto.CryptoKey
+  ) {}
+
+  static async create(): Promise<IdentityChallenge> {
+    const keyPair = await webcrypto.subtle.generateKey(P256, false, ["deriveBits"]);
+    const spki = await webcrypto.subtle.exportKey("spki", keyPair.publicKey);
+    return new IdentityChallenge(
+      randomBytes(32).toString("base64"),
+      Buffer.from(spki).toString("base64"),
+      keyPair.privateKey
+    );
+  }
+
+  // The identity ID the proof is good for, or null if it isn't
+  async verify(publicKey: string, proof: string): Promise<string | null> {
+    const spki = Buffer.from(publicKey, "base64");
+    let shared: ArrayBuffer;
+    try {
+      const identityKey = await webcrypto.subtle.importKey("spki", spki, P256, false, []);
+      shared = await webcrypto.subtle.deriveBits({ name: "ECDH", public: identityKey }, this.privateKey, 256);
+    } catch {
+      return null;
+    }
+
+    const key = Buffer.from(hkdfSync("sha256", Buffer.from(shared), Buffer.alloc(0), PROOF_INFO, 32));
+    const expected = createHmac("sha256", key).update(Buffer.from(this.nonce, "base64")).digest();
+    const provided = Buffer.from(proof, "base64");
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      return null;
+    }
+    return identityIdFor(spki);
+  }
+}
@@ -73,6 +73,9 @@ const apiLimiter = rateLimit({
   max: 200,
   standardHeaders: true,
   legacyHeaders: false,
+  // Open HTTP signaling channels poll and post all the time; each has its
+  // own per-message limit instead
+  skip: (req) => req.path.startsWith('/signal/'),
 });
 app.use('/api', apiLimiter);
 
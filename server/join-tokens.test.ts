@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type { Session } from "./schema.js";
+import { MemoryBusHub, MemorySignalingBus } from "./signaling-bus";
+import {
+  issueJoinToken,
+  publicSession,
+  redeemJoinToken,
+  signQrCode,
+  verifyJoinToken,
+  verifyMemberToken,
+  verifyQrSignature
+} from "./join-tokens";
+
+function hostedSession(): Session {
+  const expiresAt = new Date(Date.now() + 2 * 60 * 1000);
+  return {
+    id: "session",
+    hostPublicKey: "host-key",
+    signature: signQrCode("session", "host-key", expiresAt.getTime()),
+    expiresAt,
+    createdAt: new Date(),
+    isActive: "true"
+  };
+}
+
+describe("QR signatures", () => {
+  it("accept what the QR code carries", () => {
+    const session = hostedSession();
+    expect(verifyQrSignature(session.id, session.hostPublicKey, session.expiresAt.getTime(), session.signature)).toBe(true);
+  });
+
+  it("can't be had by asking for a session by its ID", () => {
+    // As GET /api/sessions/:id sends it
+    const shown = JSON.parse(JSON.stringify(publicSession(hostedSession())));
+    expect(shown).not.toHaveProperty("signature");
+
+    // What /api/verify-qr would be asked with
+    const expiration = new Date(shown.expiresAt).getTime();
+    expect(verifyQrSignature(shown.id, shown.hostPublicKey, expiration, shown.signature)).toBe(false);
+  });
+
+  it("don't carry over to another session or key", () => {
+    const session = hostedSession();
+    const expiration = session.expiresAt.getTime();
+    expect(verifyQrSignature("other", session.hostPublicKey, expiration, session.signature)).toBe(false);
+    expect(verifyQrSignature(session.id, "other-key", expiration, session.signature)).toBe(false);
+    expect(verifyQrSignature(session.id, session.hostPublicKey, expiration + 1, session.signature)).toBe(false);
+  });
+});
+
+describe("join tokens", () => {
+  const expiresAt = () => Date.now() + 60 * 1000;
+
+  it("carry the session and role they were issued for", () => {
+    expect(verifyJoinToken(issueJoinToken("session", "guest", expiresAt()))).toMatchObject({ sid: "session", role: "guest" });
+  });
+
+  it("are refused once expired", () => {
+    expect(verifyJoinToken(issueJoinToken("session", "guest", Date.now() - 1))).toEqual({
+      code: "invalid-token",
+      reason: "Join token expired"
+    });
+  });
+
+  it("are refused when forged or tampered with", () => {
+    const [encoded, signature] = issueJoinToken("session", "guest", expiresAt()).split(".");
+    const claims = JSON.parse(Buffer.from(encoded, "base64url").toString());
+    const promoted = Buffer.from(JSON.stringify({ ...claims, role: "host" })).toString("base64url");
+
+    expect(verifyJoinToken(`${promoted}.${signature}`)).toMatchObject({ code: "invalid-token" });
+    expect(verifyJoinToken(`${encoded}.${"A".repeat(signature.length)}`)).toMatchObject({ code: "invalid-token" });
+    expect(verifyJoinToken(encoded)).toMatchObject({ code: "invalid-token" });
+    expect(verifyJoinToken(undefined)).toMatchObject({ code: "invalid-token" });
+  });
+
+  it("can only be redeemed once, on any server", async () => {
+    const hub = new MemoryBusHub();
+    const token = issueJoinToken("session", "guest", expiresAt());
+
+    expect(await redeemJoinToken(new MemorySignalingBus(hub), token, "guest")).toMatchObject({ sid: "session" });
+    expect(await redeemJoinToken(new MemorySignalingBus(hub), token, "guest")).toEqual({
+      code: "invalid-token",
+      reason: "Join token already used"
+    });
+  });
+
+  it("only let the client a rejoin token names redeem it", async () => {
+    const bus = new MemorySignalingBus();
+    const token = issueJoinToken("session", "guest", expiresAt(), "guest");
+
+    expect(await redeemJoinToken(bus, token, "someone-else")).toMatchObject({ code: "invalid-token" });
+    expect(await redeemJoinToken(bus, token, "guest")).toMatchObject({ cid: "guest" });
+  });
+});
+
+describe("member tokens", () => {
+  const expiresAt = () => Date.now() + 60 * 1000;
+
+  it("let a client in the session through", async () => {
+    const bus = new MemorySignalingBus();
+    await bus.addPeer("session", { clientId: "guest", role: "guest", instanceId: bus.instanceId });
+
+    const payload = await verifyMemberToken(bus, issueJoinToken("session", "guest", expiresAt(), "guest"));
+    expect(payload).toMatchObject({ sid: "session", cid: "guest" });
+  });
+
+  it("turn away tokens given out before a join", async () => {
+    const bus = new MemorySignalingBus();
+    await bus.addPeer("session", { clientId: "host", role: "host", instanceId: bus.instanceId });
+
+    const result = await verifyMemberToken(bus, issueJoinToken("session", "host", expiresAt()));
+    expect(result).toMatchObject({ code: "invalid-token" });
+  });
+
+  it("turn away clients that left the session", async () => {
+    const bus = new MemorySignalingBus();
+    const token = issueJoinToken("session", "guest", expiresAt(), "guest");
+    await bus.addPeer("session", { clientId: "guest", role: "guest", instanceId: bus.instanceId });
+    await bus.removePeer("session", "guest", bus.instanceId);
+
+    expect(await verifyMemberToken(bus, token)).toMatchObject({ code: "invalid-token" });
+  });
+});
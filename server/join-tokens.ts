@@ -0,0 +1,114 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { Session } from "./schema.js";
+import type { JoinRejection, JoinRole } from "./rooms";
+import type { SignalingBus } from "./signaling-bus";
+
+export interface JoinTokenPayload {
+  sid: string;
+  role: JoinRole;
+  // Milliseconds since the epoch
+  exp: number;
+  // Single use: the server remembers it until it expires
+  jti: string;
+  // Rejoin tokens only work for the client they were issued to
+  cid?: string;
+}
+
+const HMAC_SECRET = process.env.HMAC_SECRET || "change-me-in-production";
+
+function createSignature(data: string): string {
+  return createHmac("sha256", HMAC_SECRET).update(data).digest("base64url");
+}
+
+function verifySignature(data: string, signature: unknown): boolean {
+  if (typeof signature !== "string") return false;
+
+  const expectedBuffer = Buffer.from(createSignature(data));
+  const providedBuffer = Buffer.from(signature);
+
+  if (expectedBuffer.length !== providedBuffer.length) {
+    return false;
+  }
+
+  return timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/**
+ * The signature a session's QR code carries. Only someone who saw the QR
+ * code has it, and it is what gets a guest its join token.
+ */
+export function signQrCode(sessionId: string, hostPublicKey: string, expiresAt: number): string {
+  return createSignature(`${sessionId}|${hostPublicKey}|${expiresAt}`);
+}
+
+export function verifyQrSignature(sessionId: string, hostPublicKey: string, expiresAt: number, signature: unknown): boolean {
+  return verifySignature(`${sessionId}|${hostPublicKey}|${expiresAt}`, signature);
+}
+
+// A session as shown to anyone who knows its ID: everything but the QR
+// signature
+export function publicSession(session: Session): Omit<Session, "signature"> {
+  const { signature: _signature, ...shown } = session;
+  return shown;
+}
+
+export function issueJoinToken(sessionId: string, role: JoinRole, expiresAt: number, clientId?: string): string {
+  const payload: JoinTokenPayload = { sid: sessionId, role, exp: expiresAt, jti: randomUUID(), cid: clientId };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${createSignature(`join|${encoded}`)}`;
+}
+
+function invalidToken(reason: string): JoinRejection {
+  return { code: "invalid-token", reason };
+}
+
+// A join token's payload if its signature holds and it hasn't expired
+export function verifyJoinToken(token: unknown): JoinTokenPayload | JoinRejection {
+  if (typeof token !== "string") return invalidToken("Missing join token");
+
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature || !verifySignature(`join|${encoded}`, signature)) {
+    return invalidToken("Invalid join token");
+  }
+
+  let payload: JoinTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString());
+  } catch {
+    return invalidToken("Invalid join token");
+  }
+
+  if (payload.exp <= Date.now()) return invalidToken("Join token expired");
+  return payload;
+}
+
+/**
+ * Check a join token's signature, expiry and owner and mark it used.
+ * Returns the payload, or why it was refused.
+ */
+export async function redeemJoinToken(bus: SignalingBus, token: unknown, clientId: string): Promise<JoinTokenPayload | JoinRejection> {
+  const payload = verifyJoinToken(token);
+  if ("code" in payload) return payload;
+  if (payload.cid && payload.cid !== clientId) return invalidToken("Join token belongs to another client");
+
+  // Shared between servers, so a token used on one can't be replayed on another
+  if (!await bus.claimToken(payload.jti, payload.exp)) return invalidToken("Join token already used");
+
+  return payload;
+}
+
+/**
+ * Check that a token's holder is in its session right now: only rejoin
+ * tokens name their client, and the bus must still count that client as
+ * a member. Tokens handed out before a join don't qualify.
+ */
+export async function verifyMemberToken(bus: SignalingBus, token: unknown): Promise<JoinTokenPayload | JoinRejection> {
+  const payload = verifyJoinToken(token);
+  if ("code" in payload) return payload;
+  if (!payload.cid) return invalidToken("Join the session first");
+
+  const { peers } = await bus.getPresence(payload.sid);
+  if (!peers.some(peer => peer.clientId === payload.cid)) return invalidToken("Not a member of this session");
+
+  return payload;
+}
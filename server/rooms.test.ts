@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { Room, type SignalingSocket } from "./rooms";
+
+function socket(): SignalingSocket & { sent: string[] } {
+  const sent: string[] = [];
+  return { readyState: WebSocket.OPEN, sent, send: data => sent.push(data), close: vi.fn() };
+}
+
+const HOST = { clientId: "host", role: "host" as const };
+
+describe("Room.admit", () => {
+  it("keeps the host's seat for the host", () => {
+    const room = new Room("session", 4);
+    expect(room.admit("host", "host", socket(), false)).toEqual([]);
+    expect(room.admit("usurper", "host", socket(), false)).toMatchObject({ code: "role-taken" });
+  });
+
+  it("turns guests away past the guest limit", () => {
+    const room = new Room("session", 4);
+    room.setGuestLimit(2);
+    expect(room.admit("first", "guest", socket(), false)).toEqual([]);
+    expect(room.admit("second", "guest", socket(), false)).toEqual([]);
+    expect(room.admit("third", "guest", socket(), false)).toMatchObject({ code: "room-full" });
+  });
+
+  it("lets only the paired clients back once locked, with their rejoin tokens", () => {
+    const room = new Room("session", 4);
+    room.admit("host", "host", socket(), false);
+    room.admit("guest", "guest", socket(), false);
+    room.lock();
+
+    expect(room.admit("stranger", "guest", socket(), false)).toMatchObject({ code: "room-locked" });
+    expect(room.admit("guest", "guest", socket(), false)).toMatchObject({ code: "room-locked" });
+    expect(room.admit("guest", "guest", socket(), true)).toEqual([]);
+  });
+
+  it("hands a rejoining client what was held while its socket was gone", () => {
+    const room = new Room("session", 4);
+    const dropped = socket();
+    room.admit("host", "host", socket(), false);
+    room.admit("guest", "guest", dropped, false);
+    room.suspend("guest", dropped);
+    room.sendTo(HOST, "guest", "offer");
+
+    const rejoined = socket();
+    expect(room.admit("guest", "guest", rejoined, true)).toEqual([{ from: HOST, data: "offer" }]);
+
+    // Delivered straight to the new socket from then on
+    room.sendTo(HOST, "guest", "candidate");
+    expect(rejoined.sent).toEqual(["candidate"]);
+    expect(dropped.sent).toEqual([]);
+  });
+});
+
+describe("Room slots", () => {
+  it("can't be taken over with a fresh guest token, live or paired", () => {
+    const room = new Room("session", 4);
+    const guest = socket();
+    room.admit("host", "host", socket(), false);
+    room.admit("guest", "guest", guest, false);
+    room.setResumeToken("guest", "resume-token");
+
+    expect(room.admit("guest", "guest", socket(), false)).toMatchObject({ code: "client-id-taken" });
+    room.lock();
+    expect(room.admit("guest", "guest", socket(), false)).toMatchObject({ code: "room-locked" });
+    expect(guest.close).not.toHaveBeenCalled();
+
+    // The real client can still resume after its socket drops
+    room.suspend("guest", guest);
+    expect(room.admit("guest", "guest", socket(), false)).toMatchObject({ code: "room-locked" });
+    expect(room.resume("guest", "resume-token", socket())).toEqual({ role: "guest", pending: [] });
+  });
+
+  it("keep the resume token across a rejoin", () => {
+    const room = new Room("session", 4);
+    const dropped = socket();
+    room.admit("guest", "guest", dropped, false);
+    room.setResumeToken("guest", "resume-token");
+    room.suspend("guest", dropped);
+
+    room.admit("guest", "guest", socket(), true);
+    expect(room.resume("guest", "resume-token", socket())).not.toBeNull();
+  });
+});
+
+describe("Room contacts", () => {
+  it("keep guests from learning about each other", () => {
+    const room = new Room("session", 4);
+    const host = socket();
+    const first = socket();
+    const second = socket();
+    room.setGuestLimit(2);
+    room.admit("host", "host", host, false);
+    room.admit("first", "guest", first, false);
+    room.admit("second", "guest", second, false);
+
+    expect(room.contactsOf({ clientId: "second", role: "guest" })).toEqual([HOST]);
+    expect(room.contactsOf(HOST)).toEqual([
+      { clientId: "first", role: "guest" },
+      { clientId: "second", role: "guest" }
+    ]);
+
+    room.announce({ clientId: "second", role: "guest" }, "second joined");
+    room.announce(HOST, "host joined");
+    expect(host.sent).toEqual(["second joined"]);
+    expect(first.sent).toEqual(["host joined"]);
+    expect(second.sent).toEqual(["host joined"]);
+  });
+});
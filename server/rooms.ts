@@ -0,0 +1,360 @@
+import { WebSocket } from 'ws';
+import { createHash } from 'crypto';
+
+export type JoinRole = 'host' | 'guest';
+
+// Machine-readable reason sent with a `join-rejected` message
+export type JoinRejectCode =
+  | 'invalid-token'
+  | 'session-not-found'
+  | 'role-taken'
+  | 'room-full'
+  | 'room-locked'
+  | 'client-id-taken';
+
+export interface JoinRejection {
+  code: JoinRejectCode;
+  reason: string;
+}
+
+export interface RoomPeer {
+  clientId: string;
+  role: JoinRole;
+}
+
+// A room member as seen by every server: which server holds its socket
+export interface RemotePeer extends RoomPeer {
+  instanceId: string;
+  // Hash of the token that lets the client resume after a dropped socket
+  resumeHash?: string;
+}
+
+// Signaling held for a member whose socket dropped, until it resumes
+export interface PendingSignal {
+  from: RoomPeer;
+  data: string;
+}
+
+// The part of a room every server needs to agree on
+export interface RoomState {
+  guestLimit: number;
+  acceptsPassphrase: boolean;
+  // Who may come back once the host locked the room; null while it's open
+  pairedClientIds: string[] | null;
+}
+
+// What rooms need of a client's signaling connection: a WebSocket, or an
+// HTTP signaling channel standing in for one
+export interface SignalingSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+interface RoomMember extends RoomPeer {
+  // Null for members connected to another server
+  socket: SignalingSocket | null;
+  instanceId?: string;
+  resumeHash?: string;
+  // Set while the socket is gone but the slot is held for the client
+  pending?: PendingSignal[];
+}
+
+// Enough for a renegotiation's worth of ICE candidates
+const MAX_PENDING_SIGNALS = 64;
+
+export function hashResumeToken(token: string): string {
+  return createHash('sha256').update(token).digest('base64url');
+}
+
+/**
+ * The signaling sockets of one session: at most one host, and as many
+ * guests as the host asked for, within the room's capacity. Once the host
+ * reports a completed pairing the room locks, and only the clients that were
+ * in it at that point can come back.
+ *
+ * Members may be connected to other servers; messages for them go to
+ * `relay`, which hands them to the signaling bus.
+ */
+export class Room {
+  private host: RoomMember | null = null;
+  private guests = new Map<string, RoomMember>();
+  private pairedClientIds = new Set<string>();
+  private locked = false;
+  private guestLimit = 1;
+
+  // Whether the host currently accepts passphrase joins
+  acceptsPassphrase = false;
+
+  constructor(
+    readonly sessionId: string,
+    private readonly maxPeers: number,
+    private readonly relay: (to: RemotePeer, from: RoomPeer, data: string) => void = () => {}
+  ) {}
+
+  // Clamped to the room's capacity, keeping one slot for the host
+  setGuestLimit(limit: number): void {
+    this.guestLimit = Math.min(Math.max(1, Math.floor(limit)), this.maxPeers - 1);
+  }
+
+  /**
+   * Add a socket to the room, or say why it can't join. Only a client
+   * rejoining with the token it was issued (`rejoin`) takes over its old
+   * slot, along with the signaling held for it while its socket was gone,
+   * or gets back into a locked room; a fresh join always needs a new slot.
+   */
+  admit(clientId: string, role: JoinRole, socket: SignalingSocket, rejoin: boolean): PendingSignal[] | JoinRejection {
+    if (this.locked && !(rejoin && this.pairedClientIds.has(clientId))) {
+      return { code: 'room-locked', reason: 'This session is already paired' };
+    }
+
+    const existing = this.find(clientId);
+    if (existing && (!rejoin || existing.role !== role)) {
+      return { code: 'client-id-taken', reason: 'Another device in this session uses that client ID' };
+    }
+    if (role === 'host' && this.host && this.host.clientId !== clientId) {
+      return { code: 'role-taken', reason: 'This session already has a host' };
+    }
+    if (!existing && role === 'guest' && this.guests.size >= this.guestLimit) {
+      return { code: 'room-full', reason: 'This session has no room for another device' };
+    }
+
+    if (existing?.socket && existing.socket !== socket) {
+      existing.socket.close();
+    }
+
+    // The resume token stays good until the rejoined client gets a new one
+    this.place({ clientId, role, socket, resumeHash: existing?.resumeHash });
+    return existing?.pending ?? [];
+  }
+
+  /**
+   * Hand a client's slot to its new socket if the resume token matches,
+   * without anyone else noticing. Returns its role and the signaling held
+   * for it, or null if it can't resume.
+   */
+  resume(clientId: string, resumeToken: string, socket: SignalingSocket): { role: JoinRole; pending: PendingSignal[] } | null {
+    const member = this.find(clientId);
+    if (!member?.resumeHash || member.resumeHash !== hashResumeToken(resumeToken)) {
+      return null;
+    }
+    if (member.socket && member.socket !== socket) {
+      member.socket.close();
+    }
+    this.place({ clientId, role: member.role, socket });
+    return { role: member.role, pending: member.pending ?? [] };
+  }
+
+  // Remember the token the client can resume with next
+  setResumeToken(clientId: string, resumeToken: string): string | undefined {
+    const member = this.find(clientId);
+    if (!member) return undefined;
+    member.resumeHash = hashResumeToken(resumeToken);
+    return member.resumeHash;
+  }
+
+  /**
+   * The socket dropped without the client leaving: keep its slot and hold
+   * what's sent to it. Returns false for a socket that was since replaced.
+   */
+  suspend(clientId: string, socket: SignalingSocket): boolean {
+    const member = this.find(clientId);
+    if (!member || member.socket !== socket) {
+      return false;
+    }
+    member.pending ??= [];
+    return true;
+  }
+
+  // The client didn't come back in time; true if it is gone now
+  expire(clientId: string, socket: SignalingSocket): boolean {
+    const member = this.find(clientId);
+    return !!member?.pending && member.socket === socket && this.remove(member);
+  }
+
+  // Remove a socket; a socket that has since been replaced is ignored
+  leave(clientId: string, socket: SignalingSocket): boolean {
+    const member = this.find(clientId);
+    return !!member && member.socket === socket && this.remove(member);
+  }
+
+  /**
+   * A client joined through another server. If it was connected here, it
+   * has reconnected there and its socket here is closed without a
+   * `peer-left`.
+   */
+  addRemote(peer: RemotePeer): PendingSignal[] {
+    const existing = this.find(peer.clientId);
+    existing?.socket?.close();
+    this.place({ ...peer, socket: null });
+    // Whatever we held for it now goes to the other server
+    return existing?.socket ? existing.pending ?? [] : [];
+  }
+
+  // Only if the client is still connected through the server that says it
+  // left; returns who left
+  removeRemote(clientId: string, instanceId: string): RoomPeer | null {
+    const member = this.find(clientId);
+    if (!member || member.socket || member.instanceId !== instanceId || !this.remove(member)) {
+      return null;
+    }
+    return { clientId: member.clientId, role: member.role };
+  }
+
+  lock(): void {
+    this.locked = true;
+    this.pairedClientIds = new Set(this.members().map(member => member.clientId));
+  }
+
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  getState(): RoomState {
+    return {
+      guestLimit: this.guestLimit,
+      acceptsPassphrase: this.acceptsPassphrase,
+      pairedClientIds: this.locked ? [...this.pairedClientIds] : null
+    };
+  }
+
+  // Take on what another server decided
+  applyState(state: RoomState): void {
+    this.setGuestLimit(state.guestLimit);
+    this.acceptsPassphrase = state.acceptsPassphrase;
+    this.locked = state.pairedClientIds !== null;
+    this.pairedClientIds = new Set(state.pairedClientIds ?? []);
+  }
+
+  // The others in the room `peer` may know about: everyone for the host,
+  // only the host for a guest
+  contactsOf(peer: RoomPeer): RoomPeer[] {
+    return this.members()
+      .filter(member => member.clientId !== peer.clientId && (peer.role === 'host' || member.role === 'host'))
+      .map(({ clientId, role }) => ({ clientId, role }));
+  }
+
+  /**
+   * Deliver to one member. Only the host and a guest can address each
+   * other; guests can't reach one another.
+   */
+  sendTo(from: RoomPeer, to: string, data: string): boolean {
+    const target = this.find(to);
+    if (target && !target.socket && target.role !== from.role) {
+      this.relay({ clientId: target.clientId, role: target.role, instanceId: target.instanceId! }, from, data);
+      return true;
+    }
+    return this.deliver(from, to, data);
+  }
+
+  // Like `sendTo`, for members connected to this server only
+  deliver(from: RoomPeer, to: string, data: string): boolean {
+    const target = this.find(to);
+    if (!target?.socket || target.role === from.role) {
+      return false;
+    }
+    if (target.pending) {
+      target.pending.push({ from, data });
+      target.pending.splice(0, target.pending.length - MAX_PENDING_SIGNALS);
+      return true;
+    }
+    if (target.socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    target.socket.send(data);
+    return true;
+  }
+
+  // Send news of `about` to the open sockets on this server of the members
+  // it is a contact of, so guests never learn each other's client IDs
+  announce(about: RoomPeer, data: string): void {
+    this.contactsOf(about)
+      .map(contact => this.find(contact.clientId)!.socket)
+      .filter((socket): socket is SignalingSocket => !!socket && socket.readyState === WebSocket.OPEN)
+      .forEach(socket => socket.send(data));
+  }
+
+  get size(): number {
+    return this.members().length;
+  }
+
+  // Members connected to this server
+  get localSize(): number {
+    return this.members().filter(member => member.socket).length;
+  }
+
+  private find(clientId: string): RoomMember | undefined {
+    return this.host?.clientId === clientId ? this.host : this.guests.get(clientId);
+  }
+
+  private place(member: RoomMember): void {
+    if (member.role === 'host') {
+      this.host = member;
+    } else {
+      this.guests.set(member.clientId, member);
+    }
+  }
+
+  private remove(member: RoomMember): boolean {
+    if (this.host === member) {
+      this.host = null;
+      this.acceptsPassphrase = false;
+      return true;
+    }
+    return this.guests.delete(member.clientId);
+  }
+
+  private members(): RoomMember[] {
+    return this.host ? [this.host, ...this.guests.values()] : [...this.guests.values()];
+  }
+}
+
+/**
+ * Rooms by session ID. A room exists while at least one socket on this
+ * server is in it; a session that everyone left starts over unlocked when
+ * someone rejoins.
+ */
+export class RoomRegistry {
+  private rooms = new Map<string, Room>();
+
+  constructor(
+    private readonly maxPeers: number,
+    private readonly relay?: (sessionId: string, to: RemotePeer, from: RoomPeer, data: string) => void
+  ) {}
+
+  get(sessionId: string): Room | undefined {
+    return this.rooms.get(sessionId);
+  }
+
+  getOrCreate(sessionId: string): Room {
+    let room = this.rooms.get(sessionId);
+    if (!room) {
+      const relay = this.relay;
+      room = new Room(sessionId, this.maxPeers, relay && ((to, from, data) => relay(sessionId, to, from, data)));
+      this.rooms.set(sessionId, room);
+    }
+    return room;
+  }
+
+  // Forget the room once its last socket on this server has left
+  release(room: Room): boolean {
+    if (room.localSize === 0 && this.rooms.get(room.sessionId) === room) {
+      this.rooms.delete(room.sessionId);
+      return true;
+    }
+    return false;
+  }
+
+  // Sockets joined to any session on this server
+  get peerCount(): number {
+    let count = 0;
+    this.rooms.forEach(room => {
+      count += room.localSize;
+    });
+    return count;
+  }
+
+  sessionIds(): string[] {
+    return [...this.rooms.keys()];
+  }
+}
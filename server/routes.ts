@@ -3,9 +3,28 @@ import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import cookieParser from "cookie-parser";
 import { storage } from "./storage";
+import { RoomRegistry, type JoinRejection, type JoinRole, type Room, type SignalingSocket } from "./rooms";
+import { createSignalingBus, type BusEvent, type SignalingBus } from "./signaling-bus";
+import { getIceConfig } from "./ice-servers";
+import { TokenBucket } from "./token-bucket";
+import { HttpSignalingChannel } from "./http-signaling";
+import { IdentityChallenge } from "./identity-proof";
+import {
+  issueJoinToken,
+  publicSession,
+  redeemJoinToken,
+  signQrCode,
+  verifyMemberToken,
+  verifyQrSignature
+} from "./join-tokens";
+import {
+  MAX_SIGNAL_FRAME_BYTES,
+  parseClientFrame,
+  relayedSignalSchema,
+  type SignalingErrorFrame
+} from "@shared/signaling";
 import { insertSessionSchema, sessionJoinSchema } from "./shared/schema.js";
-import { randomUUID } from "crypto";
-import { createHmac, timingSafeEqual } from "crypto";
+import { randomBytes, randomUUID } from "crypto";
 import { 
   initializeAdmin, 
   requireAdmin, 
@@ -19,29 +38,60 @@ import {
   getAdminData
 } from "./admin";
 
-// Extend WebSocket to include custom properties
-interface ExtendedWebSocket extends WebSocket {
+// What we know about a client, kept on its signaling connection
+interface ClientState {
   sessionId?: string;
   clientId?: string;
+  role?: JoinRole;
+  identityId?: string;
+  // Sent to the client, awaiting its `register-identity`
+  identityChallenge?: IdentityChallenge;
 }
 
-const HMAC_SECRET = process.env.HMAC_SECRET || "change-me-in-production";
-const SESSION_TTL_MINUTES = parseInt(process.env.SESSION_TTL_MINUTES || "2");
+type SignalingClient = SignalingSocket & ClientState;
 
-function createSignature(data: string): string {
-  return createHmac('sha256', HMAC_SECRET).update(data).digest('base64url');
+// Extend WebSocket to include custom properties
+interface ExtendedWebSocket extends WebSocket, ClientState {
+  // Cleared on every ping, set again by the pong
+  isAlive?: boolean;
 }
 
-function verifySignature(data: string, signature: string): boolean {
-  const expectedSignature = createSignature(data);
-  const expectedBuffer = Buffer.from(expectedSignature);
-  const providedBuffer = Buffer.from(signature);
-  
-  if (expectedBuffer.length !== providedBuffer.length) {
-    return false;
+const SESSION_TTL_MINUTES = parseInt(process.env.SESSION_TTL_MINUTES || "2");
+// Lifetime of the token a joined socket gets for rejoining after a dropped
+// connection; the session itself may have expired by then
+const REJOIN_TOKEN_TTL_HOURS = parseInt(process.env.REJOIN_TOKEN_TTL_HOURS || "12");
+// Sockets per session, host included; each host picks its own guest limit
+// within this
+const MAX_ROOM_PEERS = Math.max(2, parseInt(process.env.MAX_ROOM_PEERS || "31"));
+// Sockets are pinged this often and dropped if the last ping went unanswered
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.HEARTBEAT_INTERVAL_SECONDS || "15") * 1000;
+// How long a dropped socket's slot is held for its client to resume
+const RESUME_GRACE_MS = parseInt(process.env.RESUME_GRACE_SECONDS || "30") * 1000;
+// Messages each socket may send in a burst, and per second after that. A
+// host restarting ICE with many guests sends an offer and a few candidates
+// for each of them at once
+const SIGNAL_RATE_BURST = parseInt(process.env.SIGNAL_RATE_BURST || "200");
+const SIGNAL_RATE_PER_SECOND = parseInt(process.env.SIGNAL_RATE_PER_SECOND || "50");
+// HTTP signaling responses stay quiet no longer than this, to get under the
+// idle timeouts of proxies along the way
+const LONG_POLL_TIMEOUT_MS = 25 * 1000;
+const SSE_KEEPALIVE_MS = 15 * 1000;
+
+// Signals only one side of a session may send
+const SIGNAL_SENDER_ROLES: Record<string, JoinRole> = {
+  'pake-reply': 'host',
+  'key-exchange': 'guest',
+  'pake-start': 'guest'
+};
+
+// A relayed signal cut down to what its schema allows, or null if it breaks it
+function parseRelayedSignal(data: string): string | null {
+  try {
+    const parsed = relayedSignalSchema.safeParse(JSON.parse(data));
+    return parsed.success ? JSON.stringify(parsed.data) : null;
+  } catch {
+    return null;
   }
-  
-  return timingSafeEqual(expectedBuffer, providedBuffer);
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -54,81 +104,502 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
   // WebSocket server for real-time signaling
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // Frames a little over the limit get an error frame; far bigger ones are
+  // cut off by ws itself before they are buffered
+  const wss = new WebSocketServer({ server: httpServer, path: '/ws', maxPayload: MAX_SIGNAL_FRAME_BYTES * 4 });
   
-  const connectedClients = new Map<string, ExtendedWebSocket>();
+  // Other servers behind the load balancer may hold the other sockets of a
+  // session; the bus relays to them and tells us who joined where
+  const bus = await createSignalingBus();
+  const rooms = new RoomRegistry(MAX_ROOM_PEERS, (sessionId, to, from, data) => {
+    bus.publish(sessionId, { type: 'signal', from, to: to.clientId, data })
+      .catch(error => console.error('Failed to relay signaling:', error));
+  });
+  const openingRooms = new Map<string, Promise<Room>>();
   
-  wss.on('connection', (ws: ExtendedWebSocket, req) => {
-    console.log('WebSocket connection established');
+  const onBusEvent = (sessionId: string, event: BusEvent) => {
+    const room = rooms.get(sessionId);
+    if (!room) return;
+    
+    switch (event.type) {
+      case 'joined': {
+        // A client that resumed on another server gets what we held for it
+        room.addRemote(event.peer).forEach(({ from, data }) => {
+          bus.publish(sessionId, { type: 'signal', from, to: event.peer.clientId, data })
+            .catch(error => console.error('Failed to relay signaling:', error));
+        });
+        if (!event.resumed) {
+          room.announce(event.peer, JSON.stringify({
+            type: 'peer-joined',
+            clientId: event.peer.clientId,
+            role: event.peer.role
+          }));
+        }
+        closeRoom(room).catch(error => console.error('Failed to close room:', error));
+        break;
+      }
+      case 'left': {
+        const peer = room.removeRemote(event.clientId, event.instanceId);
+        if (peer) {
+          room.announce(peer, JSON.stringify({ type: 'peer-left', clientId: peer.clientId }));
+        }
+        break;
+      }
+      case 'state':
+        room.applyState(event.state);
+        break;
+      case 'signal': {
+        // Checked again, as it would be if its sender were connected here
+        const relayed = parseRelayedSignal(event.data);
+        if (relayed) {
+          room.deliver(event.from, event.to, relayed);
+        } else {
+          console.warn(`Dropping invalid signal relayed for session ${sessionId}`);
+        }
+        break;
+      }
+    }
+  };
+  
+  // This server's view of a session, including the peers other servers hold
+  const openRoom = (sessionId: string): Promise<Room> => {
+    const existing = rooms.get(sessionId);
+    if (existing) return Promise.resolve(existing);
     
-    ws.on('message', async (data) => {
+    let opening = openingRooms.get(sessionId);
+    if (!opening) {
+      opening = (async () => {
+        const room = rooms.getOrCreate(sessionId);
+        // Subscribe first so nothing published while loading is missed
+        await bus.subscribe(sessionId, event => onBusEvent(sessionId, event));
+        const presence = await bus.getPresence(sessionId);
+        presence.peers
+          .filter(peer => peer.instanceId !== bus.instanceId)
+          .forEach(peer => room.addRemote(peer));
+        if (presence.state) {
+          room.applyState(presence.state);
+        }
+        return room;
+      })().finally(() => openingRooms.delete(sessionId));
+      openingRooms.set(sessionId, opening);
+    }
+    return opening;
+  };
+  
+  const closeRoom = async (room: Room) => {
+    if (rooms.release(room)) {
+      await bus.unsubscribe(room.sessionId);
+    }
+  };
+  
+  const shareState = async (room: Room) => {
+    const state = room.getState();
+    await bus.setState(room.sessionId, state);
+    await bus.publish(room.sessionId, { type: 'state', state });
+  };
+  
+  // A fresh resume token for a client that just joined or resumed, shared
+  // with the other servers in case it comes back through one of them
+  const admitted = async (room: Room, clientId: string, role: JoinRole, resumed: boolean) => {
+    const resumeToken = randomBytes(32).toString('base64url');
+    const resumeHash = room.setResumeToken(clientId, resumeToken);
+    const peer = { clientId, role, instanceId: bus.instanceId, resumeHash };
+    await bus.addPeer(room.sessionId, peer);
+    await bus.publish(room.sessionId, { type: 'joined', peer, resumed });
+    return resumeToken;
+  };
+  
+  const depart = async (room: Room, clientId: string, role: JoinRole) => {
+    room.announce({ clientId, role }, JSON.stringify({ type: 'peer-left', clientId }));
+    // The host leaving stops passphrase joins everywhere
+    if (role === 'host') {
+      await shareState(room);
+    }
+    await bus.removePeer(room.sessionId, clientId, bus.instanceId);
+    await bus.publish(room.sessionId, { type: 'left', clientId, instanceId: bus.instanceId });
+    await closeRoom(room);
+  };
+  
+  // Sockets on this server of devices reachable for trusted-device invites,
+  // by the hash of their identity key. Invites reach them through the bus,
+  // from whichever server the inviting device is connected to
+  const identityClients = new Map<string, Set<SignalingClient>>();
+  
+  const registerIdentity = async (ws: SignalingClient, identityId: string) => {
+    ws.identityId = identityId;
+    let sockets = identityClients.get(identityId);
+    if (!sockets) {
+      const listening = new Set<SignalingClient>();
+      sockets = listening;
+      identityClients.set(identityId, listening);
+      await bus.listenForIdentity(identityId, invite => {
+        listening.forEach(client => {
+          if (client.readyState === WebSocket.OPEN) {
+            client.send(invite);
+          }
+        });
+      });
+    }
+    sockets.add(ws);
+  };
+  
+  const forgetIdentity = (ws: SignalingClient) => {
+    if (!ws.identityId) return;
+    const identityId = ws.identityId;
+    ws.identityId = undefined;
+    const sockets = identityClients.get(identityId);
+    sockets?.delete(ws);
+    if (sockets?.size === 0) {
+      identityClients.delete(identityId);
+      bus.stopListeningForIdentity(identityId)
+        .catch(error => console.error('Failed to stop listening for invites:', error));
+    }
+  };
+  
+  // Half-open connections, common on mobile, never fire 'close' on their
+  // own; missing a pong ends them so their slot can be resumed or freed
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((client) => {
+      const ws = client as ExtendedWebSocket;
+      if (ws.isAlive === false) {
+        ws.terminate();
+        return;
+      }
+      ws.isAlive = false;
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  wss.on('close', () => clearInterval(heartbeat));
+  
+  // Serve one client's signaling, whether its connection is a WebSocket or
+  // an HTTP signaling channel
+  const serveClient = (ws: SignalingClient) => {
+    const rateLimit = new TokenBucket(SIGNAL_RATE_BURST, SIGNAL_RATE_PER_SECOND);
+    // Tell the client what it did wrong, then hang up on it
+    const refuse = (frame: SignalingErrorFrame) => {
+      ws.send(JSON.stringify(frame));
+      ws.close(frame.code === 'frame-too-large' ? 1009 : 1008, frame.code);
+    };
+    
+    const onMessage = async (text: string) => {
+      // Whatever was already on its way from a socket we refused
+      if (ws.readyState !== WebSocket.OPEN) return;
+      
+      if (!rateLimit.take()) {
+        refuse({ type: 'error', code: 'rate-limited', reason: 'Too many messages' });
+        return;
+      }
+      const frame = parseClientFrame(text);
+      if ('error' in frame) {
+        refuse(frame.error);
+        return;
+      }
+      const message = frame.message;
+      
       try {
-        const message = JSON.parse(data.toString());
+        // Only joined sockets take part in session signaling
+        if (!ws.sessionId && !['join-session', 'resume-session', 'identity-challenge', 'register-identity', 'trusted-invite'].includes(message.type)) {
+          return;
+        }
         
         switch (message.type) {
-          case 'join-session':
-            const { sessionId, clientId } = message;
-            connectedClients.set(clientId, ws);
+          case 'join-session': {
+            const { clientId } = message;
+            if (ws.sessionId) break;
+            
+            const rejectJoin = (rejection: JoinRejection) => {
+              ws.send(JSON.stringify({ type: 'join-rejected', ...rejection }));
+            };
+            
+            const token = await redeemJoinToken(bus, message.token, clientId);
+            if ('code' in token) {
+              rejectJoin(token);
+              break;
+            }
+            // First joins need a live session; rejoins carry a token that
+            // could only have been issued for one
+            const rejoin = !!token.cid;
+            if (!rejoin && !await storage.getSession(token.sid)) {
+              rejectJoin({ code: 'session-not-found', reason: 'Session not found or expired' });
+              break;
+            }
+            
+            const sessionId = token.sid;
+            const room = await openRoom(sessionId);
+            const admission = room.admit(clientId, token.role, ws, rejoin);
+            if ('code' in admission) {
+              await closeRoom(room);
+              rejectJoin(admission);
+              break;
+            }
             
             // Store client reference for session
             ws.sessionId = sessionId;
             ws.clientId = clientId;
+            ws.role = token.role;
+            
+            const resumeToken = await admitted(room, clientId, token.role, false);
+            
+            ws.send(JSON.stringify({
+              type: 'session-joined',
+              role: token.role,
+              rejoinToken: issueJoinToken(sessionId, token.role, Date.now() + REJOIN_TOKEN_TTL_HOURS * 3600 * 1000, clientId),
+              resumeToken,
+              peers: room.contactsOf({ clientId, role: token.role })
+            }));
+            admission.forEach(({ data }) => ws.send(data));
             
             // Notify other clients in the session
-            connectedClients.forEach((client, id) => {
-              if (client !== ws && client.sessionId === sessionId && client.readyState === WebSocket.OPEN) {
-                client.send(JSON.stringify({
-                  type: 'peer-joined',
-                  clientId: clientId
-                }));
-              }
-            });
+            room.announce({ clientId, role: token.role }, JSON.stringify({
+              type: 'peer-joined',
+              clientId: clientId,
+              role: token.role
+            }));
+            break;
+          }
+            
+          case 'resume-session': {
+            // Back after a dropped socket, within the grace period: take the
+            // slot back without the others seeing us leave and rejoin
+            const { clientId, sessionId, resumeToken } = message;
+            if (ws.sessionId) break;
+            
+            const room = await openRoom(sessionId);
+            const resumed = room.resume(clientId, resumeToken, ws);
+            if (!resumed) {
+              await closeRoom(room);
+              ws.send(JSON.stringify({ type: 'resume-rejected' }));
+              break;
+            }
+            
+            ws.sessionId = sessionId;
+            ws.clientId = clientId;
+            ws.role = resumed.role;
+            
+            ws.send(JSON.stringify({
+              type: 'session-resumed',
+              rejoinToken: issueJoinToken(sessionId, resumed.role, Date.now() + REJOIN_TOKEN_TTL_HOURS * 3600 * 1000, clientId),
+              resumeToken: await admitted(room, clientId, resumed.role, true)
+            }));
+            resumed.pending.forEach(({ data }) => ws.send(data));
+            break;
+          }
+            
+          case 'leave-session': {
+            // Leaving on purpose frees the slot now rather than after the
+            // grace period
+            const room = rooms.get(ws.sessionId!);
+            const clientId = ws.clientId!;
+            ws.sessionId = undefined;
+            if (room?.leave(clientId, ws)) {
+              await depart(room, clientId, ws.role!);
+            }
+            break;
+          }
+            
+          case 'set-guest-limit': {
+            const room = rooms.get(ws.sessionId!);
+            if (ws.role !== 'host' || !room) break;
+            room.setGuestLimit(message.limit);
+            await shareState(room);
             break;
+          }
+            
+          case 'allow-passphrase-join': {
+            const room = rooms.get(ws.sessionId!);
+            if (ws.role !== 'host' || !room) break;
+            room.acceptsPassphrase = message.enabled;
+            await shareState(room);
+            break;
+          }
+            
+          case 'pairing-complete': {
+            // The host has confirmed keys with its peer: nobody else gets in
+            const room = rooms.get(ws.sessionId!);
+            if (ws.role !== 'host' || !room) break;
+            room.lock();
+            await shareState(room);
+            break;
+          }
             
           case 'webrtc-offer':
           case 'webrtc-answer':
           case 'ice-candidate':
           case 'key-exchange':
-            // Forward WebRTC signaling and key exchange to other peer in session
-            connectedClients.forEach((client, id) => {
-              if (client !== ws && client.sessionId === ws.sessionId && client.readyState === WebSocket.OPEN) {
-                client.send(data.toString());
-              }
-            });
+          case 'pake-start':
+          case 'pake-reply':
+          case 'typing': {
+            // Forward WebRTC signaling, key exchange, passphrase exchange
+            // and typing indicators to the one peer they are addressed to,
+            // stamped with who sent them
+            if (SIGNAL_SENDER_ROLES[message.type] && SIGNAL_SENDER_ROLES[message.type] !== ws.role) {
+              break;
+            }
+            const relayed = relayedSignalSchema.parse({ ...message, from: ws.clientId });
+            rooms.get(ws.sessionId!)?.sendTo(
+              { clientId: ws.clientId!, role: ws.role! },
+              message.to,
+              JSON.stringify(relayed)
+            );
             break;
+          }
+            
+          case 'identity-challenge': {
+            const challenge = await IdentityChallenge.create();
+            ws.identityChallenge = challenge;
+            ws.send(JSON.stringify({
+              type: 'identity-challenge',
+              nonce: challenge.nonce,
+              serverKey: challenge.serverKey
+            }));
+            break;
+          }
+            
+          case 'register-identity': {
+            // Invites for a device only go to sockets that proved they hold
+            // its identity key; each challenge is good for one attempt
+            const challenge = ws.identityChallenge;
+            ws.identityChallenge = undefined;
+            const identityId = challenge && await challenge.verify(message.publicKey, message.proof);
+            if (!identityId) {
+              ws.send(JSON.stringify({ type: 'identity-rejected' }));
+              break;
+            }
+            
+            forgetIdentity(ws);
+            await registerIdentity(ws, identityId);
+            break;
+          }
             
-          case 'typing':
-            // Forward typing indicators
-            connectedClients.forEach((client, id) => {
-              if (client !== ws && client.sessionId === ws.sessionId && client.readyState === WebSocket.OPEN) {
-                client.send(JSON.stringify({
-                  type: 'typing',
-                  isTyping: message.isTyping
-                }));
-              }
-            });
+          case 'trusted-invite': {
+            // The invite is MACed with a secret only the two devices can
+            // derive, so it is forwarded as-is, stamped with the identity
+            // the sender proved; we only report whether the device was
+            // online on any server to receive it
+            const delivered = !!ws.identityId &&
+              await bus.sendToIdentity(message.to, JSON.stringify({ ...message, from: ws.identityId }));
+            ws.send(JSON.stringify({
+              type: 'trusted-invite-result',
+              sessionId: message.sessionId,
+              delivered
+            }));
             break;
+          }
         }
       } catch (error) {
-        console.error('WebSocket message error:', error);
+        console.error('Signaling message error:', error);
       }
-    });
+    };
     
-    ws.on('close', () => {
-      if (ws.clientId) {
-        connectedClients.delete(ws.clientId);
-        
-        // Notify other clients that peer left
-        connectedClients.forEach((client, id) => {
-          if (client.sessionId === ws.sessionId && client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify({
-              type: 'peer-left',
-              clientId: ws.clientId
-            }));
+    const onClose = () => {
+      forgetIdentity(ws);
+      
+      const room = ws.sessionId ? rooms.get(ws.sessionId) : undefined;
+      const { clientId, role } = ws;
+      // A socket replaced by the same client reconnecting has nothing to
+      // report; otherwise the client gets a while to resume before the
+      // others hear it left
+      if (room && clientId && role && room.suspend(clientId, ws)) {
+        setTimeout(() => {
+          if (room.expire(clientId, ws)) {
+            depart(room, clientId, role).catch(error => console.error('Failed to leave session:', error));
           }
-        });
+        }, RESUME_GRACE_MS);
       }
+    };
+    
+    return { onMessage, onClose };
+  };
+  
+  wss.on('connection', (ws: ExtendedWebSocket) => {
+    console.log('WebSocket connection established');
+    ws.isAlive = true;
+    ws.on('pong', () => {
+      ws.isAlive = true;
     });
+    
+    const client = serveClient(ws);
+    ws.on('message', data => client.onMessage(data.toString()));
+    ws.on('close', client.onClose);
+  });
+  
+  // The same signaling over plain HTTP, for clients whose network won't
+  // let a WebSocket through: frames to the client come as server-sent
+  // events or long-poll responses, frames from it as POSTs
+  const httpChannels = new Map<string, HttpSignalingChannel>();
+  
+  app.post('/api/signal', (req, res) => {
+    const channel = new HttpSignalingChannel(randomBytes(16).toString('base64url'), storage, HEARTBEAT_INTERVAL_MS * 2);
+    const client = serveClient(channel);
+    channel.onmessage = client.onMessage;
+    channel.onclose = client.onClose;
+    channel.onend = () => httpChannels.delete(channel.id);
+    httpChannels.set(channel.id, channel);
+    res.status(201).json({ channelId: channel.id });
+  });
+  
+  app.get('/api/signal/:channelId/events', (req, res) => {
+    const channel = httpChannels.get(req.params.channelId);
+    if (!channel) {
+      return res.status(404).json({ error: 'Signaling channel not found' });
+    }
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps compression from holding events back
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    // Lets the client tell a working stream from one a proxy buffers
+    res.write('event: ready\ndata: {}\n\n');
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEPALIVE_MS);
+    const stopListening = channel.listen((frames, closed) => {
+      frames.forEach(frame => res.write(`data: ${frame}\n\n`));
+      if (closed) {
+        res.end('event: closed\ndata: {}\n\n');
+      }
+    });
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      stopListening();
+    });
+  });
+  
+  app.get('/api/signal/:channelId/poll', (req, res) => {
+    const channel = httpChannels.get(req.params.channelId);
+    if (!channel) {
+      return res.status(404).json({ error: 'Signaling channel not found' });
+    }
+    
+    res.setHeader('Cache-Control', 'no-store');
+    const timeout = setTimeout(() => {
+      stopListening();
+      res.json({ frames: [], closed: false });
+    }, LONG_POLL_TIMEOUT_MS);
+    const stopListening = channel.listen((frames, closed) => {
+      clearTimeout(timeout);
+      stopListening();
+      res.json({ frames, closed });
+    });
+    res.on('close', () => {
+      clearTimeout(timeout);
+      stopListening();
+    });
+  });
+  
+  app.post('/api/signal/:channelId', (req, res) => {
+    const channel = httpChannels.get(req.params.channelId);
+    if (!channel || channel.readyState !== WebSocket.OPEN) {
+      return res.status(404).json({ error: 'Signaling channel not found' });
+    }
+    channel.receive(JSON.stringify(req.body));
+    res.status(202).end();
+  });
+  
+  app.delete('/api/signal/:channelId', (req, res) => {
+    httpChannels.get(req.params.channelId)?.close();
+    res.status(204).end();
   });
 
   // API Routes
@@ -154,8 +625,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const session = await storage.createSession(validatedSessionData);
       
       // Generate QR data with signature
-      const qrData = `${session.id}|${session.hostPublicKey}|${session.expiresAt.getTime()}`;
-      const signature = createSignature(qrData);
+      const signature = signQrCode(session.id, session.hostPublicKey, session.expiresAt.getTime());
       
       // Update session with real signature
       await storage.updateSession(session.id, { signature });
@@ -165,7 +635,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         session,
         qrUrl,
-        expiresIn: SESSION_TTL_MINUTES * 60
+        expiresIn: SESSION_TTL_MINUTES * 60,
+        hostToken: issueJoinToken(session.id, 'host', session.expiresAt.getTime())
       });
     } catch (error) {
       console.error('Session creation error:', error);
@@ -181,7 +652,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'Session not found or expired' });
       }
       
-      res.json(session);
+      // Without the QR signature, which would get anyone a guest token
+      res.json(publicSession(session));
     } catch (error) {
       console.error('Session retrieval error:', error);
       res.status(500).json({ error: 'Internal server error' });
@@ -209,6 +681,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Guest join token for joining by session ID and passphrase. Without the
+  // QR code, the passphrase exchange is what authenticates the guest, so the
+  // host has to be accepting one.
+  app.post('/api/sessions/:id/passphrase-join', async (req, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      // The host may be connected to another server
+      if (!session || !(await bus.getPresence(session.id)).state?.acceptsPassphrase) {
+        return res.status(404).json({ error: 'No session with this ID accepts passphrase joins' });
+      }
+      
+      res.json({
+        sessionId: session.id,
+        guestToken: issueJoinToken(session.id, 'guest', session.expiresAt.getTime())
+      });
+    } catch (error) {
+      console.error('Passphrase join error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+  
   // Verify QR signature
   app.post('/api/verify-qr', async (req, res) => {
     try {
@@ -220,8 +713,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Verify signature
-      const data = `${sessionId}|${hostPublicKey}|${expiration}`;
-      if (!verifySignature(data, signature)) {
+      if (!verifyQrSignature(sessionId, hostPublicKey, expiration, signature)) {
         return res.status(400).json({ error: 'Invalid QR signature' });
       }
       
@@ -231,7 +723,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'Session not found' });
       }
       
-      res.json({ valid: true, session });
+      res.json({
+        valid: true,
+        session: publicSession(session),
+        guestToken: issueJoinToken(session.id, 'guest', session.expiresAt.getTime())
+      });
     } catch (error) {
       console.error('QR verification error:', error);
       res.status(400).json({ error: 'Invalid verification data' });
@@ -254,10 +750,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ 
       status: 'healthy', 
       timestamp: new Date().toISOString(),
-      websocketConnections: connectedClients.size
+      websocketConnections: rooms.peerCount
     });
   });
 
+  // STUN/TURN servers for the peer connection; the TURN credentials are
+  // minted per request, so nothing may cache the answer. Only for members
+  // of a session, who show the rejoin token they were given on joining, so
+  // the TURN server isn't an open relay
+  app.get('/api/ice-servers', async (req, res) => {
+    res.set('Cache-Control', 'no-store');
+    const auth = req.headers.authorization;
+    const token = auth && /^Bearer\s+/i.test(auth) ? auth.replace(/^Bearer\s+/i, '').trim() : undefined;
+    const payload = await verifyMemberToken(bus, token);
+    if ('code' in payload) {
+      return res.status(401).json({ error: payload.reason });
+    }
+    res.json(getIceConfig());
+  });
+
   // Analytics endpoint (privacy-first)
   app.post('/api/analytics', async (req, res) => {
     try {
@@ -485,7 +996,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const dashboardData = {
         stats: {
           ...stats,
-          activeConnections: connectedClients.size
+          activeConnections: rooms.peerCount
         },
         settings,
         systemInfo: {
@@ -523,7 +1034,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate updates
       const allowedKeys = [
         'siteName', 'maxSessionDuration', 'enableAnalytics', 
-        'enableFeedback', 'maintenanceMode', 'allowedFileTypes', 'maxFileSize'
+        'enableFeedback', 'maintenanceMode', 'allowedFileTypes', 'maxFileSize',
+        'extraIceServers', 'relayOnly'
       ];
       
       const validUpdates: any = {};
@@ -0,0 +1,202 @@
+import { randomUUID } from "crypto";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  MemoryBusHub,
+  MemorySignalingBus,
+  RedisSignalingBus,
+  type BusEvent,
+  type SignalingBus
+} from "./signaling-bus";
+import type { RemotePeer, RoomState } from "./rooms";
+
+const STATE: RoomState = { guestLimit: 1, acceptsPassphrase: false, pairedClientIds: null };
+
+function peerOf(bus: SignalingBus, clientId: string): RemotePeer {
+  return { clientId, role: "guest", instanceId: bus.instanceId };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Events a bus hears on one session, and a way to wait for the next
+function listen(bus: SignalingBus, sessionId: string) {
+  const events: BusEvent[] = [];
+  let notify: (() => void) | null = null;
+  const next = () => new Promise<void>(resolve => {
+    notify = resolve;
+  });
+  const subscribed = bus.subscribe(sessionId, event => {
+    events.push(event);
+    notify?.();
+  });
+  return { events, next, subscribed };
+}
+
+// The same behaviour is expected of every bus; `connect` gives two servers
+// sharing one store
+function describeBus(connect: () => Promise<[SignalingBus, SignalingBus]>) {
+  let first: SignalingBus;
+  let second: SignalingBus;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    [first, second] = await connect();
+    sessionId = randomUUID();
+  });
+
+  afterEach(async () => {
+    await Promise.all([first.close(), second.close()]);
+  });
+
+  it("delivers events to other servers but not back to the publisher", async () => {
+    const own = listen(first, sessionId);
+    const other = listen(second, sessionId);
+    await Promise.all([own.subscribed, other.subscribed]);
+
+    const received = other.next();
+    await first.publish(sessionId, { type: "state", state: STATE });
+    await received;
+    await sleep(50);
+
+    expect(other.events).toEqual([{ type: "state", state: STATE }]);
+    expect(own.events).toEqual([]);
+  });
+
+  it("stops delivering once unsubscribed", async () => {
+    const other = listen(second, sessionId);
+    await other.subscribed;
+    await second.unsubscribe(sessionId);
+
+    await first.publish(sessionId, { type: "left", clientId: "a", instanceId: first.instanceId });
+    await sleep(50);
+
+    expect(other.events).toEqual([]);
+  });
+
+  it("shares presence and room state between servers", async () => {
+    await first.addPeer(sessionId, peerOf(first, "a"));
+    await second.addPeer(sessionId, peerOf(second, "b"));
+    await first.setState(sessionId, STATE);
+
+    const presence = await second.getPresence(sessionId);
+    expect(presence.peers.map(peer => peer.clientId).sort()).toEqual(["a", "b"]);
+    expect(presence.state).toEqual(STATE);
+  });
+
+  it("only removes a peer for the server that holds its socket", async () => {
+    await first.addPeer(sessionId, peerOf(first, "a"));
+    await first.setState(sessionId, STATE);
+
+    await second.removePeer(sessionId, "a", second.instanceId);
+    expect((await first.getPresence(sessionId)).peers).toHaveLength(1);
+
+    await first.removePeer(sessionId, "a", first.instanceId);
+    expect(await first.getPresence(sessionId)).toEqual({ peers: [], state: null });
+  });
+
+  it("keeps the session while other peers remain", async () => {
+    await first.addPeer(sessionId, peerOf(first, "a"));
+    await second.addPeer(sessionId, peerOf(second, "b"));
+    await first.setState(sessionId, STATE);
+
+    await first.removePeer(sessionId, "a", first.instanceId);
+
+    const presence = await second.getPresence(sessionId);
+    expect(presence.peers.map(peer => peer.clientId)).toEqual(["b"]);
+    expect(presence.state).toEqual(STATE);
+  });
+
+  it("lets a token be claimed once across servers until it expires", async () => {
+    const tokenId = randomUUID();
+    expect(await first.claimToken(tokenId, Date.now() + 200)).toBe(true);
+    expect(await second.claimToken(tokenId, Date.now() + 200)).toBe(false);
+    expect(await first.claimToken(tokenId, Date.now() + 200)).toBe(false);
+
+    await sleep(300);
+    expect(await second.claimToken(tokenId, Date.now() + 200)).toBe(true);
+  });
+
+  it("delivers invites to every server listening for the identity, the sender's included", async () => {
+    const identityId = randomUUID();
+    const received: string[] = [];
+    await first.listenForIdentity(identityId, data => received.push(`first ${data}`));
+    await second.listenForIdentity(identityId, data => received.push(`second ${data}`));
+
+    expect(await first.sendToIdentity(identityId, "invite")).toBe(true);
+    await sleep(50);
+    expect(received.sort()).toEqual(["first invite", "second invite"]);
+  });
+
+  it("reports invites for an identity nobody listens for as undelivered", async () => {
+    const identityId = randomUUID();
+    await second.listenForIdentity(identityId, () => {});
+    await second.stopListeningForIdentity(identityId);
+
+    expect(await first.sendToIdentity(identityId, "invite")).toBe(false);
+  });
+}
+
+describe("MemorySignalingBus", () => {
+  describeBus(async () => {
+    const hub = new MemoryBusHub();
+    return [new MemorySignalingBus(hub), new MemorySignalingBus(hub)];
+  });
+
+  it("keeps separate hubs apart", async () => {
+    const first = new MemorySignalingBus();
+    const second = new MemorySignalingBus();
+    await first.addPeer("session", peerOf(first, "a"));
+
+    expect((await second.getPresence("session")).peers).toEqual([]);
+    expect(await second.claimToken("token", Date.now() + 1000)).toBe(true);
+    expect(await first.claimToken("token", Date.now() + 1000)).toBe(true);
+  });
+});
+
+// Needs a Redis server, e.g. REDIS_URL=redis://127.0.0.1:6379 after
+// starting a local redis-server
+const redisUrl = process.env.REDIS_URL;
+
+describe.skipIf(!redisUrl)("RedisSignalingBus", () => {
+  const TTL_SECONDS = 1;
+
+  describeBus(async () => Promise.all([
+    RedisSignalingBus.connect(redisUrl!, TTL_SECONDS),
+    RedisSignalingBus.connect(redisUrl!, TTL_SECONDS)
+  ]));
+
+  describe("presence expiry", () => {
+    let bus: RedisSignalingBus;
+    let observer: RedisSignalingBus;
+
+    beforeAll(async () => {
+      bus = await RedisSignalingBus.connect(redisUrl!, TTL_SECONDS);
+      observer = await RedisSignalingBus.connect(redisUrl!, TTL_SECONDS);
+    });
+
+    afterAll(async () => {
+      await Promise.all([bus.close(), observer.close()]);
+    });
+
+    it("refreshes sessions the server is subscribed to", async () => {
+      const sessionId = randomUUID();
+      await bus.subscribe(sessionId, () => {});
+      await bus.addPeer(sessionId, peerOf(bus, "a"));
+
+      await sleep(TTL_SECONDS * 2500);
+      expect((await observer.getPresence(sessionId)).peers).toHaveLength(1);
+
+      await bus.unsubscribe(sessionId);
+    });
+
+    it("lets sessions nobody refreshes expire", async () => {
+      const sessionId = randomUUID();
+      await bus.addPeer(sessionId, peerOf(bus, "a"));
+      await bus.setState(sessionId, STATE);
+
+      await sleep(TTL_SECONDS * 1500);
+      expect(await observer.getPresence(sessionId)).toEqual({ peers: [], state: null });
+    });
+  });
+});
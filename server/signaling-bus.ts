@@ -0,0 +1,363 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { createClient } from "redis";
+import type { RemotePeer, RoomPeer, RoomState } from "./rooms";
+
+// What one server tells the others about a session it has sockets in
+export type BusEvent =
+  // `resumed` when the client took back its slot after a dropped socket
+  | { type: "joined"; peer: RemotePeer; resumed?: boolean }
+  | { type: "left"; clientId: string; instanceId: string }
+  | { type: "state"; state: RoomState }
+  | { type: "signal"; from: RoomPeer; to: string; data: string };
+
+interface BusEnvelope {
+  origin: string;
+  event: BusEvent;
+}
+
+// A session as stored for every server to see
+export interface SessionPresence {
+  peers: RemotePeer[];
+  state: RoomState | null;
+}
+
+/**
+ * Carries signaling between the servers behind the load balancer, one
+ * channel per session, and keeps track of who is in each session.
+ * Subscribers only hear about events published by other servers.
+ */
+export interface SignalingBus {
+  readonly instanceId: string;
+
+  publish(sessionId: string, event: BusEvent): Promise<void>;
+  subscribe(sessionId: string, handler: (event: BusEvent) => void): Promise<void>;
+  unsubscribe(sessionId: string): Promise<void>;
+
+  getPresence(sessionId: string): Promise<SessionPresence>;
+  addPeer(sessionId: string, peer: RemotePeer): Promise<void>;
+  // Only if the peer is still registered by `instanceId`; the session is
+  // forgotten with its last peer
+  removePeer(sessionId: string, clientId: string, instanceId: string): Promise<void>;
+  setState(sessionId: string, state: RoomState): Promise<void>;
+
+  // Record a one-time token as used until it expires (ms since the epoch).
+  // False if it was already used, on this server or any other
+  claimToken(tokenId: string, expiresAt: number): Promise<boolean>;
+
+  // Trusted-device invites, on a channel per identity ID. Unlike session
+  // events they reach the sending server too; `sendToIdentity` resolves to
+  // whether any server was listening for the identity
+  listenForIdentity(identityId: string, handler: (data: string) => void): Promise<void>;
+  stopListeningForIdentity(identityId: string): Promise<void>;
+  sendToIdentity(identityId: string, data: string): Promise<boolean>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Sessions and channels shared by the in-memory buses that use it. One per
+ * process unless several servers are simulated in one.
+ */
+export class MemoryBusHub {
+  readonly channels = new EventEmitter();
+  readonly identities = new EventEmitter();
+  readonly sessions = new Map<string, { peers: Map<string, RemotePeer>; state: RoomState | null }>();
+  // Used token IDs and when they expire
+  readonly claimedTokens = new Map<string, number>();
+
+  constructor() {
+    // Every session with sockets on a server is a listener
+    this.channels.setMaxListeners(0);
+    this.identities.setMaxListeners(0);
+  }
+}
+
+// For a single server, or for tests with several buses on one hub
+export class MemorySignalingBus implements SignalingBus {
+  readonly instanceId = randomUUID();
+  private listeners = new Map<string, (envelope: BusEnvelope) => void>();
+  private identityListeners = new Map<string, (data: string) => void>();
+
+  constructor(private readonly hub = new MemoryBusHub()) {}
+
+  async publish(sessionId: string, event: BusEvent): Promise<void> {
+    const envelope: BusEnvelope = { origin: this.instanceId, event };
+    // Delivered later, like a message through Redis would be
+    queueMicrotask(() => this.hub.channels.emit(sessionId, envelope));
+  }
+
+  async subscribe(sessionId: string, handler: (event: BusEvent) => void): Promise<void> {
+    await this.unsubscribe(sessionId);
+    const listener = (envelope: BusEnvelope) => {
+      if (envelope.origin !== this.instanceId) {
+        handler(envelope.event);
+      }
+    };
+    this.listeners.set(sessionId, listener);
+    this.hub.channels.on(sessionId, listener);
+  }
+
+  async unsubscribe(sessionId: string): Promise<void> {
+    const listener = this.listeners.get(sessionId);
+    if (listener) {
+      this.hub.channels.off(sessionId, listener);
+      this.listeners.delete(sessionId);
+    }
+  }
+
+  async getPresence(sessionId: string): Promise<SessionPresence> {
+    const session = this.hub.sessions.get(sessionId);
+    return {
+      peers: session ? [...session.peers.values()] : [],
+      state: session?.state ?? null
+    };
+  }
+
+  async addPeer(sessionId: string, peer: RemotePeer): Promise<void> {
+    this.session(sessionId).peers.set(peer.clientId, peer);
+  }
+
+  async removePeer(sessionId: string, clientId: string, instanceId: string): Promise<void> {
+    const session = this.hub.sessions.get(sessionId);
+    if (!session) return;
+    if (session.peers.get(clientId)?.instanceId === instanceId) {
+      session.peers.delete(clientId);
+    }
+    if (session.peers.size === 0) {
+      this.hub.sessions.delete(sessionId);
+    }
+  }
+
+  async setState(sessionId: string, state: RoomState): Promise<void> {
+    this.session(sessionId).state = state;
+  }
+
+  async claimToken(tokenId: string, expiresAt: number): Promise<boolean> {
+    const now = Date.now();
+    this.hub.claimedTokens.forEach((expiry, id) => {
+      if (expiry <= now) this.hub.claimedTokens.delete(id);
+    });
+    if (this.hub.claimedTokens.has(tokenId)) return false;
+    this.hub.claimedTokens.set(tokenId, expiresAt);
+    return true;
+  }
+
+  async listenForIdentity(identityId: string, handler: (data: string) => void): Promise<void> {
+    await this.stopListeningForIdentity(identityId);
+    this.identityListeners.set(identityId, handler);
+    this.hub.identities.on(identityId, handler);
+  }
+
+  async stopListeningForIdentity(identityId: string): Promise<void> {
+    const listener = this.identityListeners.get(identityId);
+    if (listener) {
+      this.hub.identities.off(identityId, listener);
+      this.identityListeners.delete(identityId);
+    }
+  }
+
+  async sendToIdentity(identityId: string, data: string): Promise<boolean> {
+    const listening = this.hub.identities.listenerCount(identityId) > 0;
+    queueMicrotask(() => this.hub.identities.emit(identityId, data));
+    return listening;
+  }
+
+  async close(): Promise<void> {
+    this.listeners.forEach((listener, sessionId) => this.hub.channels.off(sessionId, listener));
+    this.listeners.clear();
+    this.identityListeners.forEach((listener, identityId) => this.hub.identities.off(identityId, listener));
+    this.identityListeners.clear();
+  }
+
+  private session(sessionId: string) {
+    let session = this.hub.sessions.get(sessionId);
+    if (!session) {
+      session = { peers: new Map(), state: null };
+      this.hub.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+}
+
+type RedisClient = ReturnType<typeof createClient>;
+
+const PEER_FIELD = "peer:";
+const STATE_FIELD = "state";
+
+// Drops the peer if the caller's server still owns it, then the whole
+// session once no peers are left
+const REMOVE_PEER_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], ARGV[1])
+if current and cjson.decode(current).instanceId == ARGV[2] then
+  redis.call('HDEL', KEYS[1], ARGV[1])
+end
+for _, field in ipairs(redis.call('HKEYS', KEYS[1])) do
+  if string.sub(field, 1, ${PEER_FIELD.length}) == '${PEER_FIELD}' then
+    return 0
+  end
+end
+redis.call('DEL', KEYS[1])
+return 1
+`;
+
+/**
+ * Redis pub/sub between servers, with each session's presence in a hash
+ * that expires `ttlSeconds` after the last server holding one of its
+ * sockets stopped refreshing it, so sessions left behind by a crashed
+ * server don't linger.
+ */
+export class RedisSignalingBus implements SignalingBus {
+  readonly instanceId = randomUUID();
+  private refreshTimer: ReturnType<typeof setInterval>;
+  private subscribed = new Set<string>();
+  private identities = new Set<string>();
+
+  private constructor(
+    private readonly client: RedisClient,
+    private readonly subscriber: RedisClient,
+    private readonly ttlSeconds: number
+  ) {
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(error => console.error("Failed to refresh session presence:", error));
+    }, ttlSeconds * 500);
+    this.refreshTimer.unref();
+  }
+
+  static async connect(url: string, ttlSeconds: number): Promise<RedisSignalingBus> {
+    const client = createClient({ url });
+    // Subscribed connections can't run other commands
+    const subscriber = client.duplicate();
+    for (const connection of [client, subscriber]) {
+      connection.on("error", error => console.error("Redis error:", error));
+      await connection.connect();
+    }
+    return new RedisSignalingBus(client, subscriber, ttlSeconds);
+  }
+
+  async publish(sessionId: string, event: BusEvent): Promise<void> {
+    const envelope: BusEnvelope = { origin: this.instanceId, event };
+    await this.client.publish(this.channel(sessionId), JSON.stringify(envelope));
+  }
+
+  async subscribe(sessionId: string, handler: (event: BusEvent) => void): Promise<void> {
+    await this.unsubscribe(sessionId);
+    await this.subscriber.subscribe(this.channel(sessionId), (message) => {
+      try {
+        const envelope: BusEnvelope = JSON.parse(message);
+        if (envelope.origin !== this.instanceId) {
+          handler(envelope.event);
+        }
+      } catch (error) {
+        console.error("Invalid signaling bus message:", error);
+      }
+    });
+    this.subscribed.add(sessionId);
+  }
+
+  async unsubscribe(sessionId: string): Promise<void> {
+    if (this.subscribed.delete(sessionId)) {
+      await this.subscriber.unsubscribe(this.channel(sessionId));
+    }
+  }
+
+  async getPresence(sessionId: string): Promise<SessionPresence> {
+    const fields = await this.client.hGetAll(this.key(sessionId));
+    const peers: RemotePeer[] = [];
+    let state: RoomState | null = null;
+    Object.entries(fields).forEach(([field, value]) => {
+      if (field.startsWith(PEER_FIELD)) {
+        peers.push(JSON.parse(value));
+      } else if (field === STATE_FIELD) {
+        state = JSON.parse(value);
+      }
+    });
+    return { peers, state };
+  }
+
+  async addPeer(sessionId: string, peer: RemotePeer): Promise<void> {
+    await this.client.multi()
+      .hSet(this.key(sessionId), PEER_FIELD + peer.clientId, JSON.stringify(peer))
+      .expire(this.key(sessionId), this.ttlSeconds)
+      .exec();
+  }
+
+  async removePeer(sessionId: string, clientId: string, instanceId: string): Promise<void> {
+    await this.client.eval(REMOVE_PEER_SCRIPT, {
+      keys: [this.key(sessionId)],
+      arguments: [PEER_FIELD + clientId, instanceId]
+    });
+  }
+
+  async setState(sessionId: string, state: RoomState): Promise<void> {
+    await this.client.multi()
+      .hSet(this.key(sessionId), STATE_FIELD, JSON.stringify(state))
+      .expire(this.key(sessionId), this.ttlSeconds)
+      .exec();
+  }
+
+  async claimToken(tokenId: string, expiresAt: number): Promise<boolean> {
+    const reply = await this.client.set(`pairqr:token:${tokenId}`, this.instanceId, {
+      NX: true,
+      PXAT: expiresAt
+    });
+    return reply === "OK";
+  }
+
+  async listenForIdentity(identityId: string, handler: (data: string) => void): Promise<void> {
+    await this.stopListeningForIdentity(identityId);
+    await this.subscriber.subscribe(this.identityChannel(identityId), handler);
+    this.identities.add(identityId);
+  }
+
+  async stopListeningForIdentity(identityId: string): Promise<void> {
+    if (this.identities.delete(identityId)) {
+      await this.subscriber.unsubscribe(this.identityChannel(identityId));
+    }
+  }
+
+  async sendToIdentity(identityId: string, data: string): Promise<boolean> {
+    // PUBLISH answers with the number of subscribers it reached
+    return await this.client.publish(this.identityChannel(identityId), data) > 0;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.refreshTimer);
+    this.subscribed.clear();
+    this.identities.clear();
+    await Promise.all([this.subscriber.quit(), this.client.quit()]);
+  }
+
+  // Keep alive the sessions this server has sockets in
+  private async refresh(): Promise<void> {
+    if (this.subscribed.size === 0) return;
+    const transaction = this.client.multi();
+    this.subscribed.forEach(sessionId => transaction.expire(this.key(sessionId), this.ttlSeconds));
+    await transaction.exec();
+  }
+
+  private key(sessionId: string): string {
+    return `pairqr:session:${sessionId}`;
+  }
+
+  private channel(sessionId: string): string {
+    return `pairqr:signal:${sessionId}`;
+  }
+
+  private identityChannel(identityId: string): string {
+    return `pairqr:identity:${identityId}`;
+  }
+}
+
+/**
+ * Redis when `REDIS_URL` is set, so several servers can share sessions;
+ * otherwise everything stays in this process.
+ */
+export async function createSignalingBus(): Promise<SignalingBus> {
+  const url = process.env.REDIS_URL;
+  if (!url) {
+    return new MemorySignalingBus();
+  }
+  const ttlSeconds = Math.max(10, parseInt(process.env.REDIS_TTL_SECONDS || "300"));
+  return await RedisSignalingBus.connect(url, ttlSeconds);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { MAX_SIGNAL_FRAME_BYTES, parseClientFrame, relayedSignalSchema } from "../shared/signaling";
+
+const OFFER = { type: "webrtc-offer", to: "host", offer: { type: "offer", sdp: "v=0" } };
+
+function errorOf(text: string) {
+  const frame = parseClientFrame(text);
+  return "error" in frame ? frame.error : null;
+}
+
+describe("client frames", () => {
+  it("read known messages, without fields the schema doesn't describe", () => {
+    const frame = parseClientFrame(JSON.stringify({ ...OFFER, from: "spoofed", extra: true }));
+    expect(frame).toEqual({ message: OFFER });
+  });
+
+  it("are refused when not JSON", () => {
+    expect(errorOf("{not json")).toMatchObject({ code: "invalid-message", reason: "Frames must be JSON" });
+  });
+
+  it("are refused when the schema doesn't match", () => {
+    expect(errorOf(JSON.stringify({ type: "take-over" }))).toMatchObject({ code: "invalid-message" });
+    expect(errorOf(JSON.stringify({ ...OFFER, to: "" }))).toMatchObject({ code: "invalid-message" });
+    expect(errorOf(JSON.stringify({ type: "set-guest-limit", limit: 0 }))).toMatchObject({ code: "invalid-message" });
+    expect(errorOf(JSON.stringify({ type: "join-session", clientId: "guest" }))).toMatchObject({
+      code: "invalid-message",
+      reason: "Invalid message: token required"
+    });
+  });
+
+  it("are refused past the size cap, counted in bytes", () => {
+    const fits = JSON.stringify({ ...OFFER, offer: { type: "offer", sdp: "" } });
+    const padding = MAX_SIGNAL_FRAME_BYTES - Buffer.byteLength(fits);
+    const withSdp = (sdp: string) => JSON.stringify({ ...OFFER, offer: { type: "offer", sdp } });
+
+    expect(errorOf(withSdp("a".repeat(padding)))).toBeNull();
+    expect(errorOf(withSdp("a".repeat(padding + 1)))).toMatchObject({ code: "frame-too-large" });
+    // Two bytes each in UTF-8
+    expect(errorOf(withSdp("é".repeat(padding / 2 + 1)))).toMatchObject({ code: "frame-too-large" });
+  });
+});
+
+describe("relayed signals", () => {
+  it("need the sender the server stamps on them", () => {
+    expect(relayedSignalSchema.safeParse(OFFER).success).toBe(false);
+    expect(relayedSignalSchema.safeParse({ ...OFFER, from: "guest" }).success).toBe(true);
+  });
+});
@@ -14,7 +14,8 @@ export interface IStorage {
   deleteSession(id: string): Promise<void>;
   cleanupExpiredSessions(): Promise<void>;
   
-  // Peer signaling data (ephemeral)
+  // Peer signaling data (ephemeral). HTTP signaling channels keep the
+  // frames waiting for their client here too, under the channel's ID
   storePeerOffer(sessionId: string, offer: any): Promise<void>;
   getPeerOffer(sessionId: string): Promise<any>;
   storePeerAnswer(sessionId: string, answer: any): Promise<void>;
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TokenBucket } from "./token-bucket";
+
+function takeAll(bucket: TokenBucket): number {
+  let taken = 0;
+  while (bucket.take()) taken++;
+  return taken;
+}
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows a burst of its capacity, then refuses", () => {
+    const bucket = new TokenBucket(5, 1);
+    expect(takeAll(bucket)).toBe(5);
+    expect(bucket.take()).toBe(false);
+  });
+
+  it("refills at its rate", () => {
+    const bucket = new TokenBucket(5, 2);
+    takeAll(bucket);
+
+    vi.advanceTimersByTime(400);
+    expect(bucket.take()).toBe(false);
+    vi.advanceTimersByTime(100);
+    expect(bucket.take()).toBe(true);
+    vi.advanceTimersByTime(1000);
+    expect(takeAll(bucket)).toBe(2);
+  });
+
+  it("never holds more than its capacity", () => {
+    const bucket = new TokenBucket(3, 10);
+    vi.advanceTimersByTime(60_000);
+    expect(takeAll(bucket)).toBe(3);
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Allows bursts of up to `capacity` actions, refilling at `ratePerSecond`.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly capacity: number, private readonly ratePerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  // Spend one token if there is one
+  take(): boolean {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) / 1000 * this.ratePerSecond);
+    this.updatedAt = now;
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * ICE configuration served by `GET /api/ice-servers` for building an
+ * RTCPeerConnection. TURN credentials in it are minted per request and stop
+ * working at `expiresAt`, so clients fetch it again before then.
+ */
+
+export interface IceServerEntry {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceConfig {
+  iceServers: IceServerEntry[];
+  // "relay" hides each device's IP address from the other by only using TURN
+  iceTransportPolicy: "all" | "relay";
+  // Milliseconds since the epoch
+  expiresAt: number;
+}
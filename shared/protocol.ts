@@ -0,0 +1,244 @@
+/**
+ * Peer protocol spoken over the WebRTC data channel.
+ *
+ * Version 1 is what the first deployed clients speak: JSON text messages of
+ * the form { id, ciphertext, nonce, timestamp, encrypted: true } carrying
+ * chat text only. Version 2 sends binary frames (see client/src/lib/framing.ts)
+ * whose decrypted payload is one of the typed envelopes below, with file
+ * chunks in their own binary frame type.
+ *
+ * Right after the channel opens each side sends a plaintext hello (a JSON
+ * text message, which version 1 clients ignore). The session then runs at
+ * the highest version both support, with the intersection of their features.
+ * A peer that never says hello is treated as version 1.
+ */
+
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = 1;
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+export const PEER_FEATURES = [
+  "file-transfer",
+  "folder-transfer",
+  "typing",
+  "receipts",
+  "trusted-devices",
+] as const;
+
+export type PeerFeature = typeof PEER_FEATURES[number];
+
+export interface HelloMessage {
+  type: "hello";
+  version: number;
+  minVersion: number;
+  features: string[];
+}
+
+// What a session settled on after the hello exchange
+export interface NegotiatedProtocol {
+  version: number;
+  features: PeerFeature[];
+}
+
+// Half-open chunk index range: [start, end)
+export type ChunkRange = [number, number];
+
+export interface FileManifest {
+  transferId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  sha256: string;
+  chunkSize: number;
+  totalChunks: number;
+  batchId?: string;
+  path?: string;
+}
+
+export interface BatchManifest {
+  batchId: string;
+  name: string;
+  totalSize: number;
+  directories: string[];
+  entries: Array<{
+    transferId: string;
+    path: string;
+    size: number;
+  }>;
+}
+
+export interface ChatEnvelope {
+  type: "chat";
+  id: string;
+  content: string;
+  timestamp: number;
+}
+
+export interface TypingEnvelope {
+  type: "typing";
+  isTyping: boolean;
+}
+
+// Sent back when a chat message has been received and decrypted
+export interface ReceiptEnvelope {
+  type: "receipt";
+  messageId: string;
+}
+
+export interface ControlEnvelope {
+  type: "control";
+  action: "session-end";
+}
+
+// First frame on every channel: proves the sender derived the same keys
+// from the same handshake transcript
+export interface KeyConfirmEnvelope {
+  type: "key-confirm";
+  mac: string;
+}
+
+// Long-term device identity, exchanged when a user chooses to remember the
+// peer; only acted on once the session's security code has been verified
+export interface IdentityEnvelope {
+  type: "identity";
+  identity: {
+    id: string;
+    name: string;
+    publicKey: string;
+  };
+}
+
+export interface FileBatchEnvelope {
+  type: "file-batch";
+  batch: BatchManifest;
+}
+
+export interface FileManifestEnvelope {
+  type: "file-manifest";
+  manifest: FileManifest;
+}
+
+// Receiver -> sender: chunks still needed
+export interface FileRequestEnvelope {
+  type: "file-request";
+  transferId: string;
+  ranges: ChunkRange[];
+}
+
+// Receiver -> sender: chunks safely stored
+export interface FileAckEnvelope {
+  type: "file-ack";
+  transferId: string;
+  ranges: ChunkRange[];
+}
+
+export interface FileCancelEnvelope {
+  type: "file-cancel";
+  transferId: string;
+  reason: string;
+}
+
+export type FileEnvelope =
+  | FileBatchEnvelope
+  | FileManifestEnvelope
+  | FileRequestEnvelope
+  | FileAckEnvelope
+  | FileCancelEnvelope;
+
+export type PeerEnvelope =
+  | ChatEnvelope
+  | TypingEnvelope
+  | ReceiptEnvelope
+  | ControlEnvelope
+  | KeyConfirmEnvelope
+  | IdentityEnvelope
+  | FileEnvelope;
+
+export type PeerEnvelopeType = PeerEnvelope["type"];
+
+const ENVELOPE_TYPES: readonly PeerEnvelopeType[] = [
+  "chat",
+  "typing",
+  "receipt",
+  "control",
+  "key-confirm",
+  "identity",
+  "file-batch",
+  "file-manifest",
+  "file-request",
+  "file-ack",
+  "file-cancel",
+];
+
+// Which feature each envelope needs the peer to have announced
+const ENVELOPE_FEATURES: Partial<Record<PeerEnvelopeType, PeerFeature>> = {
+  "typing": "typing",
+  "receipt": "receipts",
+  "identity": "trusted-devices",
+  "file-batch": "folder-transfer",
+  "file-manifest": "file-transfer",
+  "file-request": "file-transfer",
+  "file-ack": "file-transfer",
+  "file-cancel": "file-transfer",
+};
+
+export function createHello(): HelloMessage {
+  return {
+    type: "hello",
+    version: PROTOCOL_VERSION,
+    minVersion: MIN_PROTOCOL_VERSION,
+    features: [...PEER_FEATURES],
+  };
+}
+
+export function isHelloMessage(value: unknown): value is HelloMessage {
+  const hello = value as HelloMessage;
+  return typeof hello === "object" && hello !== null &&
+    hello.type === "hello" &&
+    Number.isInteger(hello.version) &&
+    Number.isInteger(hello.minVersion) &&
+    Array.isArray(hello.features);
+}
+
+// Envelopes of unknown types come from newer peers and are skipped, not fatal
+export function isPeerEnvelope(value: unknown): value is PeerEnvelope {
+  const envelope = value as PeerEnvelope;
+  return typeof envelope === "object" && envelope !== null &&
+    typeof envelope.type === "string" &&
+    ENVELOPE_TYPES.includes(envelope.type as PeerEnvelopeType);
+}
+
+export function isFileEnvelope(envelope: PeerEnvelope): envelope is FileEnvelope {
+  return envelope.type.startsWith("file-");
+}
+
+/**
+ * Settle on a version and feature set from our hello and the peer's, or
+ * null for a peer that never sent one. Throws if the ranges don't overlap.
+ */
+export function negotiateProtocol(local: HelloMessage, remote: HelloMessage | null): NegotiatedProtocol {
+  if (!remote) {
+    return { version: LEGACY_PROTOCOL_VERSION, features: [] };
+  }
+
+  const version = Math.min(local.version, remote.version);
+  if (version < local.minVersion || version < remote.minVersion) {
+    throw new Error(
+      `Incompatible peer protocol: we speak ${local.minVersion}-${local.version}, peer speaks ${remote.minVersion}-${remote.version}`
+    );
+  }
+
+  const features = version === LEGACY_PROTOCOL_VERSION
+    ? []
+    : PEER_FEATURES.filter(feature => local.features.includes(feature) && remote.features.includes(feature));
+  return { version, features };
+}
+
+export function supportsEnvelope(protocol: NegotiatedProtocol, type: PeerEnvelopeType): boolean {
+  if (protocol.version === LEGACY_PROTOCOL_VERSION) {
+    // Version 1 only ever carried chat text
+    return type === "chat";
+  }
+  const feature = ENVELOPE_FEATURES[type];
+  return !feature || protocol.features.includes(feature);
+}
@@ -0,0 +1,171 @@
+/**
+ * Messages clients send the signaling server over its WebSocket, and the
+ * signals it relays between them. The server checks every frame against
+ * these schemas and hangs up on a client that sends anything else; zod
+ * drops unknown fields, so only what is described here is ever relayed.
+ */
+
+import { z } from "zod";
+
+// Larger frames are refused; an SDP with dozens of media sections fits
+export const MAX_SIGNAL_FRAME_BYTES = 64 * 1024;
+
+const id = z.string().min(1).max(128);
+// Keys, MACs and other base64 values; an ML-KEM-768 public key is the longest
+const encoded = z.string().min(1).max(4096);
+
+const sessionDescription = z.object({
+  type: z.enum(["offer", "answer"]),
+  sdp: z.string().max(MAX_SIGNAL_FRAME_BYTES)
+});
+
+const iceCandidate = z.object({
+  candidate: z.string().max(1024).optional(),
+  sdpMid: z.string().max(64).nullable().optional(),
+  sdpMLineIndex: z.number().int().min(0).nullable().optional(),
+  usernameFragment: z.string().max(256).nullable().optional()
+});
+
+// Signals for one peer in the session, relayed with the sender's client ID
+const webrtcOffer = z.object({
+  type: z.literal("webrtc-offer"),
+  to: id,
+  offer: sessionDescription,
+  kemPublicKey: encoded.optional()
+});
+
+const webrtcAnswer = z.object({
+  type: z.literal("webrtc-answer"),
+  to: id,
+  answer: sessionDescription,
+  kemCiphertext: encoded.optional()
+});
+
+const iceCandidateSignal = z.object({
+  type: z.literal("ice-candidate"),
+  to: id,
+  candidate: iceCandidate
+});
+
+const keyExchange = z.object({
+  type: z.literal("key-exchange"),
+  to: id,
+  clientPublicKey: encoded,
+  mac: encoded
+});
+
+const pakeStart = z.object({
+  type: z.literal("pake-start"),
+  to: id,
+  message: encoded
+});
+
+const pakeReply = z.object({
+  type: z.literal("pake-reply"),
+  to: id,
+  message: encoded,
+  hostPublicKey: encoded,
+  confirmation: encoded
+});
+
+const typing = z.object({
+  type: z.literal("typing"),
+  to: id,
+  isTyping: z.boolean()
+});
+
+export const peerSignalSchema = z.discriminatedUnion("type", [
+  webrtcOffer,
+  webrtcAnswer,
+  iceCandidateSignal,
+  keyExchange,
+  pakeStart,
+  pakeReply,
+  typing
+]);
+
+export type PeerSignal = z.infer<typeof peerSignalSchema>;
+
+// A peer signal as delivered, stamped by the server with who sent it
+export const relayedSignalSchema = z.intersection(peerSignalSchema, z.object({ from: id }));
+
+export type RelayedSignal = z.infer<typeof relayedSignalSchema>;
+
+// Everything a client may send the server
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("join-session"),
+    clientId: id,
+    token: z.string().min(1).max(2048),
+    rejoin: z.boolean().optional()
+  }),
+  z.object({
+    type: z.literal("resume-session"),
+    clientId: id,
+    sessionId: id,
+    resumeToken: z.string().min(1).max(256)
+  }),
+  z.object({ type: z.literal("leave-session") }),
+  z.object({
+    type: z.literal("set-guest-limit"),
+    limit: z.number().int().min(1)
+  }),
+  z.object({
+    type: z.literal("allow-passphrase-join"),
+    enabled: z.boolean()
+  }),
+  z.object({ type: z.literal("pairing-complete") }),
+  // Asks for the challenge that `register-identity` answers
+  z.object({ type: z.literal("identity-challenge") }),
+  z.object({
+    type: z.literal("register-identity"),
+    publicKey: encoded,
+    proof: encoded
+  }),
+  // Forwarded as-is to the devices registered under `to`, with the
+  // sender's registered identity as `from`
+  z.object({
+    type: z.literal("trusted-invite"),
+    to: id,
+    sessionId: id,
+    hostPublicKey: encoded,
+    guestToken: z.string().min(1).max(2048),
+    mac: encoded
+  }),
+  ...peerSignalSchema.options
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+export type SignalingErrorCode = "invalid-message" | "frame-too-large" | "rate-limited";
+
+// Sent right before the server closes a socket that broke the rules
+export interface SignalingErrorFrame {
+  type: "error";
+  code: SignalingErrorCode;
+  reason: string;
+}
+
+/**
+ * A client frame as the server reads it: the message, or the error frame to
+ * refuse it with if it is too large, not JSON or not a message we know.
+ */
+export function parseClientFrame(text: string): { message: ClientMessage } | { error: SignalingErrorFrame } {
+  const refuse = (code: SignalingErrorCode, reason: string) => ({ error: { type: "error" as const, code, reason } });
+
+  if (new TextEncoder().encode(text).length > MAX_SIGNAL_FRAME_BYTES) {
+    return refuse("frame-too-large", `Frames are limited to ${MAX_SIGNAL_FRAME_BYTES} bytes`);
+  }
+
+  let parsed;
+  try {
+    parsed = clientMessageSchema.safeParse(JSON.parse(text));
+  } catch {
+    return refuse("invalid-message", "Frames must be JSON");
+  }
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return refuse("invalid-message", `Invalid message: ${issue.path.join(".") || "type"} ${issue.message.toLowerCase()}`);
+  }
+  return { message: parsed.data };
+}